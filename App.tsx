@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   BrainCircuit, 
   Layout, 
@@ -21,15 +21,100 @@ import {
   Save,
   Download,
   RotateCw,
-  Play
+  Play,
+  AlertTriangle,
+  Wand2,
+  Library,
+  GraduationCap,
+  MousePointerClick,
+  ListChecks,
+  Loader2,
+  Plus,
+  Trash2,
+  Copy,
+  Boxes,
+  Database,
+  Workflow,
+  PieChart,
+  Grid2x2,
+  Route,
+  Undo2,
+  Redo2,
+  History as HistoryIcon,
+  Share2,
+  Gauge
 } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Components } from 'react-markdown';
 
 import FileUpload from './components/FileUpload';
 import MermaidDiagram from './components/MermaidDiagram';
 import ChatPanel from './components/ChatPanel';
-import { generateDiagramAndSummary, askQuestionAboutContent } from './services/gemini';
-import { DiagramType, FileData, GeneratedContent, Message, ProcessingState } from './types';
+import ProviderSettingsPanel from './components/ProviderSettings';
+import CodeDiff from './components/CodeDiff';
+import LibrarySidebar from './components/LibrarySidebar';
+import FlashcardReview from './components/FlashcardReview';
+import AnkiExportDialog from './components/AnkiExportDialog';
+import NodeEditorPanel from './components/NodeEditorPanel';
+import CitedMarkdown from './components/CitedMarkdown';
+import SourceViewer from './components/SourceViewer';
+import QuizRunner from './components/QuizRunner';
+import FlashcardForm from './components/FlashcardForm';
+import DuplicateCardsDialog from './components/DuplicateCardsDialog';
+import NodeDetailsPanel from './components/NodeDetailsPanel';
+import DiagramHistoryDialog from './components/DiagramHistoryDialog';
+import StudyPackExportDialog from './components/StudyPackExportDialog';
+import UsageDialog from './components/UsageDialog';
+import {
+  generateDiagramAndSummary,
+  askQuestionAboutContent,
+  fixDiagramCode,
+  generateQuiz,
+  generateMoreFlashcards,
+  regenerateFlashcard,
+  explainConcept,
+  expandConcept,
+  estimateInputTokens,
+  estimateFollowUpTokens,
+  estimateFixTokens,
+  estimateAnswerTokens,
+  hasCachedGeneration,
+  hasCachedAnswer,
+  EXPECTED_OUTPUT_TOKENS
+} from './services/gemini';
+import { checkBudget, formatCost, hasUsageBudget, setUsageSession, usageCost } from './services/usage';
+import { AIErrorKind, AIServiceError, getProvider, getProviderSettings, setProviderSettings } from './services/providers';
+import { ContentValidationError, describeIssues } from './services/contentSchema';
+import { dueCards, gradeCard } from './services/scheduler';
+import { downloadBlob, toFileName } from './services/download';
+import { SourceDocument, listSources, resolveSources } from './services/sources';
+import { Citation } from './services/citations';
+import { buildRetrievalIndex, needsRetrieval, sourcesFingerprint } from './services/retrieval';
+import { QuizResult, headingAnchor } from './services/quiz';
+import { findDuplicatePairs, mergeCards, replaceCard } from './services/flashcards';
+import { mentionedNodeIds, normalizeText } from './services/concepts';
+import {
+  EMPTY_DIAGRAM_HISTORY,
+  canRedo,
+  canUndo,
+  currentCode,
+  nameVersion,
+  recordVersion,
+  redo as redoDiagram,
+  restoreVersion,
+  undo as undoDiagram
+} from './services/diagramHistory';
+import {
+  DiagramModel,
+  addChildNode,
+  deleteNode,
+  mergeNodes,
+  parseDiagram,
+  renameNode,
+  reparentNode,
+  serializeDiagram
+} from './services/diagramModel';
+import { CURRENT_SCHEMA_VERSION, createSessionId, deriveSessionTitle, getSession, saveSession } from './services/library';
+import { DiagramFixResult, DiagramHistory, DiagramType, DiagramTypeChoice, DiagramVersionKind, FileData,Flashcard, GeneratedContent,Message, ProcessingState, ProviderSettings, RetrievalIndex, ReviewGrade, StudySession, TokenEstimate } from './types';
 
 // Updated README Content matching the user's description
 const README_CONTENT = `
@@ -105,60 +190,573 @@ flowchart LR
 \`\`\`
 `;
 
+const AUTO_FIX_STORAGE_KEY = 'studysketch.autoFixDiagrams';
+
+const SESSION_SAVE_DELAY_MS = 800;
+
+// Input tokens are recounted once the material stops changing
+const ESTIMATE_DELAY_MS = 1000;
+
+// Warns about, or blocks, a request that would go over the usage budget. Returns whether to go ahead.
+const confirmBudget = (estimate: number, sessionId: string | null): boolean => {
+  const overrun = checkBudget(estimate, sessionId);
+  if (!overrun) return true;
+  const scope = overrun.scope === 'daily' ? "today's" : "this session's";
+  const message = `This request would go over ${scope} budget of ${overrun.limit.toLocaleString()} tokens `
+    + `(${overrun.used.toLocaleString()} used${estimate ? `, about ${estimate.toLocaleString()} more needed` : ''}).`;
+  if (overrun.action === 'block') {
+    alert(`${message}\n\nRaise the budget under Usage to continue.`);
+    return false;
+  }
+  return confirm(`${message}\n\nContinue anyway?`);
+};
+
+// What the user can do about each kind of provider failure
+const AI_ERROR_MESSAGES: Record<AIErrorKind, string> = {
+  auth: 'The AI provider rejected the API key. Set API_KEY for Gemini, or check the key under AI Provider.',
+  quota: 'Rate limit or quota reached. Wait a minute and try again, or switch to another model under AI Provider.',
+  safety: "The model's safety filters blocked this request. Try rephrasing, or leave out the flagged material.",
+  network: 'Could not reach the AI provider. Check your connection, or that the local model server is running.',
+  timeout: 'The AI provider took too long to respond. Try again, or split the material into smaller parts.',
+  server: 'The AI provider is having problems. Try again in a few minutes.',
+  request: 'The AI provider rejected the request. Check the model name under AI Provider.',
+  cancelled: 'The request was cancelled.'
+};
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof AIServiceError) return AI_ERROR_MESSAGES[error.kind];
+  if (error instanceof ContentValidationError) return error.message;
+  return fallback;
+};
+
+const headingText = (children: React.ReactNode): string =>
+  React.Children.toArray(children).filter((child): child is string => typeof child === 'string').join('');
+
+// Summary headings get anchors so quiz results can link to them
+const SUMMARY_COMPONENTS: Components = {
+  h1: ({ node, children, ...props }) => <h1 id={headingAnchor(headingText(children))} {...props}>{children}</h1>,
+  h2: ({ node, children, ...props }) => <h2 id={headingAnchor(headingText(children))} {...props}>{children}</h2>,
+  h3: ({ node, children, ...props }) => <h3 id={headingAnchor(headingText(children))} {...props}>{children}</h3>,
+};
+
 const App: React.FC = () => {
   // State
   const [inputText, setInputText] = useState('');
-  const [selectedFile, setSelectedFile] = useState<FileData | null>(null);
-  const [selectedType, setSelectedType] = useState<DiagramType>(DiagramType.MINDMAP);
+  const [selectedFiles, setSelectedFiles] = useState<FileData[]>([]);
+  const [selectedType, setSelectedType] = useState<DiagramTypeChoice>(DiagramType.MINDMAP);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
   
   const [processingState, setProcessingState] = useState<ProcessingState>({ status: 'idle' });
+  // When the shown content came from the response cache
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [content, setContent] = useState<GeneratedContent | null>(null);
   
   // Editable Diagram State
-  const [currentDiagramCode, setCurrentDiagramCode] = useState<string>('');
+  // Versions of the diagram code; the current version is the one shown and edited
+  const [diagramHistory, setDiagramHistory] = useState<DiagramHistory>(EMPTY_DIAGRAM_HISTORY);
+  const currentDiagramCode = currentCode(diagramHistory);
+  const [showDiagramHistory, setShowDiagramHistory] = useState(false);
   const [isEditingDiagram, setIsEditingDiagram] = useState(false);
+  const [isEditingNodes, setIsEditingNodes] = useState(false);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  // Section whose sub-diagram is shown instead of the overview, for inputs processed in sections
+  const [diagramSectionId, setDiagramSectionId] = useState<string | null>(null);
+  const [openCitation, setOpenCitation] = useState<{ citation: Citation; sources: SourceDocument[] } | null>(null);
+  // Parsed from the code on every change, so code edits and visual edits stay in sync
+  const diagramModel = useMemo(() => parseDiagram(currentDiagramCode), [currentDiagramCode]);
+
+  // Self-healing Diagram State
+  const [diagramError, setDiagramError] = useState<string | null>(null);
+  const [isFixingDiagram, setIsFixingDiagram] = useState(false);
+  const [diagramFixError, setDiagramFixError] = useState<string | null>(null);
+  const [diagramFix, setDiagramFix] = useState<DiagramFixResult | null>(null);
+  const [showFixDiff, setShowFixDiff] = useState(false);
+  const [autoFixDiagrams, setAutoFixDiagrams] = useState(() => localStorage.getItem(AUTO_FIX_STORAGE_KEY) === 'true');
+  const autoFixAttempted = useRef<Set<string>>(new Set());
   
   const [chatMessages, setChatMessages] = useState<Message[]>([]);
+  const [retrievalIndex, setRetrievalIndex] = useState<RetrievalIndex | null>(null);
   const [isChatLoading, setIsChatLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'diagram' | 'summary' | 'flashcards'>('diagram');
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  // Set while the budget and cache checks run, before the processing state disables the button
+  const generateCheckingRef = useRef(false);
+  const quizAbortRef = useRef<AbortController | null>(null);
+  const cardsAbortRef = useRef<AbortController | null>(null);
+  const explainAbortRef = useRef<AbortController | null>(null);
+  const expandAbortRef = useRef<AbortController | null>(null);
+  const regenerateCardAbortRef = useRef<AbortController | null>(null);
+  const [chatPrefill, setChatPrefill] = useState<{ text: string; nonce: number } | null>(null);
+  const [hoveredMessage, setHoveredMessage] = useState<Message | null>(null);
+  const [activeTab, setActiveTab] = useState<'diagram' | 'summary' | 'flashcards' | 'quiz'>('diagram');
   const [showDocs, setShowDocs] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [inputEstimate, setInputEstimate] = useState<TokenEstimate | null>(null);
   
   // Flashcard Flip State
   const [flippedCards, setFlippedCards] = useState<Record<string, boolean>>({});
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [showAnkiExport, setShowAnkiExport] = useState(false);
+  const [editingCardId, setEditingCardId] = useState<string | null>(null); // 'new' while adding a card
+  const [regeneratingCardId, setRegeneratingCardId] = useState<string | null>(null);
+  const [showMoreCards, setShowMoreCards] = useState(false);
+  const [moreCardsTopic, setMoreCardsTopic] = useState('');
+  const [moreCardsCount, setMoreCardsCount] = useState(5);
+  const [isGeneratingCards, setIsGeneratingCards] = useState(false);
+  const [flashcardError, setFlashcardError] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<Set<string>>(new Set());
+
+  // Quiz
+  const [quizResult, setQuizResult] = useState<QuizResult | null>(null);
+  const [isGeneratingQuiz, setIsGeneratingQuiz] = useState(false);
+  const [quizError, setQuizError] = useState<string | null>(null);
+  // Where a review link points: a summary heading to scroll to, a diagram node to highlight
+  const [summaryAnchor, setSummaryAnchor] = useState<string | null>(null);
+  const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null);
+
+  // Node Details: the clicked node, with explanations cached by label for the session
+  const [explainNodeId, setExplainNodeId] = useState<string | null>(null);
+  const [nodeExplanations, setNodeExplanations] = useState<Record<string, string>>({});
+  const [explainingLabel, setExplainingLabel] = useState<string | null>(null);
+  const [isExpandingNode, setIsExpandingNode] = useState(false);
+  const [nodeError, setNodeError] = useState<string | null>(null);
 
+  // Study Library State
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0);
+  const [exportSession, setExportSession] = useState<StudySession | null>(null);
+
+  const updateDiagramCode = (code: string, kind: DiagramVersionKind) => {
+    setDiagramHistory(history => recordVersion(history, code, kind));
+  };
+
+  const resetDiagramHistory = (generatedCode: string) => {
+    setDiagramHistory(generatedCode ? recordVersion(EMPTY_DIAGRAM_HISTORY, generatedCode, 'generated') : EMPTY_DIAGRAM_HISTORY);
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) step through diagram versions outside text fields
+  useEffect(() => {
+    if (activeTab !== 'diagram') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || (e.target as HTMLElement).closest?.('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) setDiagramHistory(undoDiagram);
+      else if ((key === 'z' && e.shiftKey) || key === 'y') setDiagramHistory(redoDiagram);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [activeTab]);
+
+  // Auto-save the active session once things settle
   useEffect(() => {
-    if (content?.diagramCode) {
-      setCurrentDiagramCode(content.diagramCode);
+    if (!activeSessionId || !content) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const existing = await getSession(activeSessionId);
+        const now = Date.now();
+        const session: StudySession = {
+          id: activeSessionId,
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+          title: existing?.title || deriveSessionTitle({ content, selectedFiles, inputText }),
+          createdAt: existing?.createdAt || now,
+          updatedAt: now,
+          inputText,
+          selectedFiles,
+          selectedType,
+          content,
+          diagramCode: currentDiagramCode,
+          diagramHistory,
+          chatMessages,
+          retrievalIndex
+        };
+        await saveSession(session);
+        setLibraryRefreshKey(key => key + 1);
+      } catch (error) {
+        console.error("Session save error:", error);
+      }
+    }, SESSION_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [activeSessionId, content, inputText, selectedFiles, selectedType, currentDiagramCode, diagramHistory, chatMessages, retrievalIndex]);
+
+  useEffect(() => {
+    setUsageSession(activeSessionId);
+  }, [activeSessionId]);
+
+  // Pre-flight token count for the material, shown before it is sent
+  useEffect(() => {
+    setInputEstimate(null);
+    if (!inputText.trim() && selectedFiles.length === 0) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      estimateInputTokens(inputText, selectedFiles, controller.signal)
+        .then(setInputEstimate)
+        .catch(error => {
+          if (!controller.signal.aborted) console.warn("Token estimate failed", error);
+        });
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [inputText, selectedFiles, providerSettings]);
+
+  // A new render attempt starts for every code change; MermaidDiagram reports failures asynchronously
+  useEffect(() => {
+    setDiagramError(null);
+    setDiagramFixError(null);
+  }, [currentDiagramCode]);
+
+  const handleDiagramError = useCallback((error: any) => {
+    setDiagramError(error?.message || String(error));
+  }, []);
+
+  // Automatic fixes never ask about the budget; over budget they wait for the Fix button instead
+  const handleFixDiagram = useCallback(async (auto: boolean = false) => {
+    if (!content || !diagramError) return;
+    autoFixAttempted.current.add(currentDiagramCode);
+    const estimate = estimateFixTokens(currentDiagramCode, diagramError);
+    if (auto ? checkBudget(estimate, activeSessionId) : !confirmBudget(estimate, activeSessionId)) return;
+    setIsFixingDiagram(true);
+    setDiagramFixError(null);
+
+    try {
+      const result = await fixDiagramCode(currentDiagramCode, diagramError, content.diagramType);
+      setDiagramFix(result);
+      setShowFixDiff(false);
+      updateDiagramCode(result.fixedCode, 'fix');
+    } catch (error: any) {
+      console.error("Diagram fix error:", error);
+      setDiagramFixError(errorMessage(error, error?.message || 'Failed to fix the diagram.'));
+    } finally {
+      setIsFixingDiagram(false);
     }
-  }, [content]);
+  }, [content, currentDiagramCode, diagramError, activeSessionId]);
+
+  useEffect(() => {
+    if (autoFixDiagrams && diagramError && !isFixingDiagram && !autoFixAttempted.current.has(currentDiagramCode)) {
+      handleFixDiagram(true);
+    }
+  }, [autoFixDiagrams, diagramError, isFixingDiagram, currentDiagramCode, handleFixDiagram]);
+
+  // Chat cites the current sources, the summary cites the sources it was generated from
+  const sessionSources = useMemo(() => listSources(inputText, selectedFiles), [inputText, selectedFiles]);
+  const summarySources = useMemo(
+    () => content?.sources ? resolveSources(content.sources, sessionSources) : sessionSources,
+    [content, sessionSources]
+  );
+  const citedSource = openCitation
+    && openCitation.sources.find(source => source.id === openCitation.citation.sourceId);
+
+  const drilledSection = content?.sections?.find(section => section.id === diagramSectionId);
+
+  const sourceName = (sourceId?: string) =>
+    content?.sources?.find(source => source.id === sourceId)?.name;
+
+  const applyModelEdit = (next: DiagramModel) => {
+    updateDiagramCode(serializeDiagram(next), 'nodes');
+  };
+
+  const handleNodeClick = (nodeId: string, event: React.MouseEvent) => {
+    setSelectedNodeIds(prev => {
+      if (!event.shiftKey) return [nodeId];
+      if (prev.includes(nodeId)) return prev.filter(id => id !== nodeId);
+      return [...prev, nodeId].slice(-2);
+    });
+  };
+
+  const handleAddChildNode = (parentId: string) => {
+    if (!diagramModel) return;
+    const { model, id } = addChildNode(diagramModel, parentId, 'New idea');
+    applyModelEdit(model);
+    setSelectedNodeIds([id]);
+  };
+
+  const handleDeleteNode = (nodeId: string) => {
+    if (!diagramModel) return;
+    applyModelEdit(deleteNode(diagramModel, nodeId));
+    setSelectedNodeIds([]);
+  };
+
+  const handleMergeNodes = (targetId: string, sourceId: string) => {
+    if (!diagramModel) return;
+    applyModelEdit(mergeNodes(diagramModel, targetId, sourceId));
+    setSelectedNodeIds([targetId]);
+  };
+
+  const handleAutoFixChange = (enabled: boolean) => {
+    localStorage.setItem(AUTO_FIX_STORAGE_KEY, String(enabled));
+    setAutoFixDiagrams(enabled);
+  };
 
   // Handlers
-  const handleGenerate = async () => {
-    if (!inputText && !selectedFile) {
+  const handleProviderChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    setProviderSettingsState(settings);
+  };
+
+  // `force` skips the response cache
+  const handleGenerate = async (force: boolean = false) => {
+    if (!inputText && selectedFiles.length === 0) {
       alert("Please provide text or upload a file.");
       return;
     }
 
+    // A second click while the checks are awaited would start a second paid generation
+    if (generateCheckingRef.current) return;
+    generateCheckingRef.current = true;
+
+    // Usage is counted against the session this generation creates
+    const sessionId = createSessionId();
+    try {
+      // Answers from the cache cost nothing, so only fresh generations are checked
+      if (hasUsageBudget() && (force || !(await hasCachedGeneration(inputText, selectedFiles, selectedType)))) {
+        // The shown estimate is cleared whenever the material changes, so it is current when set
+        let estimate = inputEstimate?.tokens ?? 0;
+        if (!inputEstimate) {
+          try {
+            estimate = (await estimateInputTokens(inputText, selectedFiles)).tokens;
+          } catch (error) {
+            console.warn("Token estimate failed", error);
+          }
+        }
+        if (!confirmBudget(estimate + EXPECTED_OUTPUT_TOKENS.generate, sessionId)) return;
+      }
+    } finally {
+      generateCheckingRef.current = false;
+    }
+    setUsageSession(sessionId);
+
+    // Cancelling goes back to whatever was shown before
+    const previousState: ProcessingState = content ? { status: 'completed' } : { status: 'idle' };
+    const controller = new AbortController();
+    generateAbortRef.current?.abort();
+    generateAbortRef.current = controller;
     setProcessingState({ status: 'processing', message: 'Analyzing content & generating visualization...' });
-    setChatMessages([]); 
     setIsEditingDiagram(false);
+    setIsEditingNodes(false);
+    setSelectedNodeIds([]);
+    setDiagramSectionId(null);
+    setIsReviewing(false);
+    setQuizResult(null);
+    setQuizError(null);
+    setFocusedNodeId(null);
+    setExplainNodeId(null);
+    setNodeExplanations({});
+    setNodeError(null);
+    setHoveredMessage(null);
+    setEditingCardId(null);
+    setDismissedDuplicates(new Set());
     
     try {
-      const result = await generateDiagramAndSummary(inputText, selectedFile, selectedType);
+      const { content: result, issues, cachedAt } = await generateDiagramAndSummary(inputText, selectedFiles, selectedType, {
+        onProgress: (progress) => setProcessingState({ status: 'processing', message: progress.message, progress }),
+        force,
+        signal: controller.signal
+      });
+      chatAbortRef.current?.abort();
+      setChatMessages([]);
       setContent(result);
-      setProcessingState({ status: 'completed' });
-      setActiveTab('diagram');
+      setCachedAt(cachedAt ?? null);
+      // Regenerating adds a version, so earlier hand edits stay restorable
+      if (result.diagramCode) updateDiagramCode(result.diagramCode, 'generated');
+      setDiagramFix(null);
+      setActiveSessionId(sessionId);
+      setProcessingState(issues.length
+        ? { status: 'completed', message: `Some parts could not be generated. ${describeIssues(issues)}` }
+        : { status: 'completed' });
+      setActiveTab(result.diagramCode ? 'diagram' : 'summary');
     } catch (error) {
-      setProcessingState({ status: 'error', message: 'Failed to generate content. Please try again.' });
+      if (controller.signal.aborted) {
+        // Switching sessions also aborts, and has already set the state
+        if (generateAbortRef.current === controller) {
+          setProcessingState(previousState);
+          setUsageSession(activeSessionId);
+        }
+        return;
+      }
+      setUsageSession(activeSessionId);
+      setProcessingState({
+        status: 'error',
+        message: errorMessage(error, 'Failed to generate content. Please try again.')
+      });
       console.error(error);
+    } finally {
+      if (generateAbortRef.current === controller) generateAbortRef.current = null;
+    }
+  };
+
+  const handleCancelGenerate = () => {
+    generateAbortRef.current?.abort();
+  };
+
+  // Stops requests that belong to the session being left
+  const abortSessionRequests = () => {
+    for (const ref of [chatAbortRef, generateAbortRef, quizAbortRef, cardsAbortRef, explainAbortRef, expandAbortRef, regenerateCardAbortRef]) {
+      ref.current?.abort();
+      ref.current = null;
     }
   };
   
+  const handleGenerateQuiz = async () => {
+    if (!content || !confirmBudget(estimateFollowUpTokens('quiz', content, inputText, selectedFiles), activeSessionId)) return;
+    const controller = new AbortController();
+    quizAbortRef.current = controller;
+    setIsGeneratingQuiz(true);
+    setQuizError(null);
+    try {
+      const quiz = await generateQuiz(content, inputText, selectedFiles, { signal: controller.signal });
+      setContent(prev => prev ? { ...prev, quiz } : prev);
+      setQuizResult(null);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Quiz Error:", error);
+      setQuizError(errorMessage(error, 'Failed to generate a quiz. Please try again.'));
+    } finally {
+      if (quizAbortRef.current === controller) quizAbortRef.current = null;
+      setIsGeneratingQuiz(false);
+    }
+  };
+
+  const showSummaryHeading = (heading: string) => {
+    setSummaryAnchor(heading);
+    setActiveTab('summary');
+  };
+
+  const showDiagramNode = (nodeId: string) => {
+    setDiagramSectionId(null);
+    setIsEditingDiagram(false);
+    setIsEditingNodes(false);
+    setSelectedNodeIds([]);
+    setFocusedNodeId(nodeId);
+    setActiveTab('diagram');
+  };
+
+  const explainNode = diagramModel?.nodes.find(node => node.id === explainNodeId);
+
+  const loadExplanation = async (label: string) => {
+    if (!content || !confirmBudget(estimateFollowUpTokens('explain', content, inputText, selectedFiles), activeSessionId)) return;
+    // Only the explanation for the open node is worth waiting for
+    const controller = new AbortController();
+    explainAbortRef.current?.abort();
+    explainAbortRef.current = controller;
+    setExplainingLabel(label);
+    setNodeError(null);
+    try {
+      const explanation = await explainConcept(label, content, inputText, selectedFiles, controller.signal);
+      setNodeExplanations(prev => ({ ...prev, [label]: explanation }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Explain Error:", error);
+      setNodeError(errorMessage(error, 'Failed to explain this concept. Please try again.'));
+    } finally {
+      if (explainAbortRef.current === controller) explainAbortRef.current = null;
+      setExplainingLabel(current => current === label ? null : current);
+    }
+  };
+
+  const openNodeDetails = (nodeId: string) => {
+    const node = diagramModel?.nodes.find(n => n.id === nodeId);
+    if (!node) return;
+    setExplainNodeId(nodeId);
+    setFocusedNodeId(null);
+    setNodeError(null);
+    if (!(node.label in nodeExplanations) && explainingLabel !== node.label) loadExplanation(node.label);
+  };
+
+  const closeNodeDetails = () => {
+    explainAbortRef.current?.abort();
+    setExplainNodeId(null);
+    setFocusedNodeId(null);
+  };
+
+  const handleExpandNode = async () => {
+    if (!content || !diagramModel || !explainNode) return;
+    if (!confirmBudget(estimateFollowUpTokens('expand', content, inputText, selectedFiles), activeSessionId)) return;
+    const parentId = explainNode.id;
+    const controller = new AbortController();
+    expandAbortRef.current = controller;
+    setIsExpandingNode(true);
+    setNodeError(null);
+    try {
+      const labels = await expandConcept(
+        explainNode.label,
+        diagramModel.nodes.map(node => node.label),
+        content,
+        inputText,
+        selectedFiles,
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+      // Applied to the latest code so edits made while waiting are kept
+      setDiagramHistory(history => {
+        let model = parseDiagram(currentCode(history));
+        if (!model || !model.nodes.some(node => node.id === parentId)) return history;
+        for (const label of labels) model = addChildNode(model, parentId, label).model;
+        return recordVersion(history, serializeDiagram(model), 'expand');
+      });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Expand Error:", error);
+      setNodeError(errorMessage(error, 'Failed to expand this node. Please try again.'));
+    } finally {
+      if (expandAbortRef.current === controller) expandAbortRef.current = null;
+      setIsExpandingNode(false);
+    }
+  };
+
+  const askAboutNode = () => {
+    if (!explainNode) return;
+    setChatPrefill({ text: `Tell me more about "${explainNode.label}"`, nonce: Date.now() });
+  };
+
+  // Nodes the hovered chat message, or else the latest answer, refers to
+  const chatNodeIds = useMemo(() => {
+    const message = hoveredMessage || [...chatMessages].reverse().find(msg => msg.role === 'model' && !msg.status);
+    return diagramModel && message ? mentionedNodeIds(diagramModel, message.content) : [];
+  }, [diagramModel, hoveredMessage, chatMessages]);
+
+  // Bold summary terms that name a diagram node link to it
+  const summaryComponents = useMemo<Components>(() => {
+    if (!diagramModel) return SUMMARY_COMPONENTS;
+    const nodeIds = new Map(diagramModel.nodes
+      .filter(node => normalizeText(node.label))
+      .map(node => [normalizeText(node.label), node.id]));
+    return {
+      ...SUMMARY_COMPONENTS,
+      strong: ({ node, children, ...props }) => {
+        const nodeId = nodeIds.get(normalizeText(headingText(children)));
+        return nodeId ? (
+          <strong
+            {...props}
+            onClick={() => showDiagramNode(nodeId)}
+            className="cursor-pointer underline decoration-dotted decoration-indigo-400 hover:text-indigo-700"
+            title="Show in diagram"
+          >
+            {children}
+          </strong>
+        ) : <strong {...props}>{children}</strong>;
+      }
+    };
+  }, [diagramModel]);
+
+  // Scroll to a summary heading once the summary tab has rendered
+  useEffect(() => {
+    if (activeTab !== 'summary' || !summaryAnchor) return;
+    document.getElementById(headingAnchor(summaryAnchor))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    setSummaryAnchor(null);
+  }, [activeTab, summaryAnchor]);
+
   const loadDemoData = () => {
     setProcessingState({ status: 'processing', message: 'Loading demo content...' });
     setTimeout(() => {
         setInputText("Photosynthesis is the process used by plants, algae and certain bacteria to harness energy from sunlight and turn it into chemical energy. The process takes place in the chloroplasts, specifically using chlorophyll. The inputs are Carbon Dioxide, Water, and Sunlight. The outputs are Glucose and Oxygen.");
-        setContent({
+        const demo: GeneratedContent = {
             diagramCode: `graph TD
     A["Sunlight"] --> B("Chloroplast")
     C["Water"] --> B
@@ -173,52 +771,197 @@ const App: React.FC = () => {
                 { id: 'demo2', front: "What are the primary inputs?", back: "Sunlight, Water, and Carbon Dioxide" },
                 { id: 'demo3', front: "What is the primary energy output?", back: "Glucose" }
             ]
-        });
+        };
+        setContent(demo);
+        resetDiagramHistory(demo.diagramCode);
+        setDiagramFix(null);
+        setCachedAt(null);
+        setActiveSessionId(createSessionId());
         setProcessingState({ status: 'completed' });
         setActiveTab('diagram');
     }, 1500);
   };
 
-  const handleSendMessage = async (text: string) => {
-    const newMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: text,
-      timestamp: Date.now()
+  const handleOpenSession = (session: StudySession) => {
+    abortSessionRequests();
+    setActiveSessionId(session.id);
+    setInputText(session.inputText);
+    setSelectedFiles(session.selectedFiles);
+    setSelectedType(session.selectedType);
+    setContent(session.content);
+    setDiagramHistory(session.diagramHistory);
+    setDiagramFix(null);
+    setCachedAt(null);
+    setChatMessages(session.chatMessages);
+    setRetrievalIndex(session.retrievalIndex);
+    setFlippedCards({});
+    setIsReviewing(false);
+    setIsEditingDiagram(false);
+    setIsEditingNodes(false);
+    setSelectedNodeIds([]);
+    setDiagramSectionId(null);
+    setQuizResult(null);
+    setQuizError(null);
+    setFocusedNodeId(null);
+    setExplainNodeId(null);
+    setNodeExplanations({});
+    setNodeError(null);
+    setHoveredMessage(null);
+    setEditingCardId(null);
+    setDismissedDuplicates(new Set());
+    setProcessingState({ status: session.content ? 'completed' : 'idle' });
+    setActiveTab('diagram');
+    setShowLibrary(false);
+  };
+
+  const handleNewSession = () => {
+    abortSessionRequests();
+    setActiveSessionId(null);
+    setInputText('');
+    setSelectedFiles([]);
+    setContent(null);
+    setDiagramHistory(EMPTY_DIAGRAM_HISTORY);
+    setDiagramFix(null);
+    setCachedAt(null);
+    setChatMessages([]);
+    setRetrievalIndex(null);
+    setFlippedCards({});
+    setIsReviewing(false);
+    setIsEditingDiagram(false);
+    setIsEditingNodes(false);
+    setSelectedNodeIds([]);
+    setDiagramSectionId(null);
+    setQuizResult(null);
+    setQuizError(null);
+    setFocusedNodeId(null);
+    setExplainNodeId(null);
+    setNodeExplanations({});
+    setNodeError(null);
+    setHoveredMessage(null);
+    setEditingCardId(null);
+    setDismissedDuplicates(new Set());
+    setProcessingState({ status: 'idle' });
+    setShowLibrary(false);
+  };
+
+  // The session as shown, with edits the auto-save may not have written yet
+  const shareCurrentSession = () => {
+    const now = Date.now();
+    setExportSession({
+      id: activeSessionId || createSessionId(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      title: deriveSessionTitle({ content, selectedFiles, inputText }),
+      createdAt: now,
+      updatedAt: now,
+      inputText,
+      selectedFiles,
+      selectedType,
+      content,
+      diagramCode: currentDiagramCode,
+      diagramHistory,
+      chatMessages,
+      retrievalIndex
+    });
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    if (id === activeSessionId) setActiveSessionId(null);
+  };
+
+  // Long sources are indexed once and reused until they or the embedding model change
+  const ensureRetrievalIndex = async (signal: AbortSignal): Promise<RetrievalIndex | null> => {
+    if (!needsRetrieval(sessionSources)) return null;
+    const provider = getProvider();
+    if (
+      retrievalIndex?.fingerprint === sourcesFingerprint(sessionSources) &&
+      retrievalIndex.embeddingModel === (provider.embed ? provider.embeddingModel : undefined)
+    ) {
+      return retrievalIndex;
+    }
+    const index = await buildRetrievalIndex(sessionSources, signal);
+    setRetrievalIndex(index);
+    return index;
+  };
+
+  // Streams a model answer into a placeholder message; `history` ends with the question being answered.
+  // `force` skips the response cache.
+  const streamAnswer = async (history: Message[], question: string, force: boolean = false) => {
+    // Cached answers cost nothing, so only questions that go to the model are checked
+    const withRetrieval = needsRetrieval(sessionSources);
+    if (hasUsageBudget()
+      && (force || !(await hasCachedAnswer(history, question, inputText, selectedFiles, withRetrieval)))
+      && !confirmBudget(estimateAnswerTokens(history, inputText, selectedFiles, withRetrieval), activeSessionId)) return;
+    const botId = (Date.now() + 1).toString();
+    const updateBotMessage = (changes: Partial<Message>) => {
+      setChatMessages(prev => prev.map(msg => msg.id === botId ? { ...msg, ...changes } : msg));
     };
-    
-    setChatMessages(prev => [...prev, newMessage]);
+
+    setChatMessages([...history, {
+      id: botId,
+      role: 'model',
+      content: '',
+      timestamp: Date.now(),
+      status: 'streaming'
+    }]);
     setIsChatLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
     try {
-      const answer = await askQuestionAboutContent(
-        [...chatMessages, newMessage], 
-        text, 
-        inputText, 
-        selectedFile
+      const index = await ensureRetrievalIndex(controller.signal);
+      const { answer, passages, cached } = await askQuestionAboutContent(
+        history,
+        question,
+        inputText,
+        selectedFiles,
+        {
+          signal: controller.signal,
+          retrievalIndex: index,
+          force,
+          onChunk: (answerSoFar) => updateBotMessage({ content: answerSoFar })
+        }
       );
-      
-      const botMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: answer,
-        timestamp: Date.now()
-      };
-      
-      setChatMessages(prev => [...prev, botMessage]);
+      updateBotMessage({ content: answer, status: undefined, passages, cached });
     } catch (error) {
-      console.error("Chat error:", error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        content: "Sorry, I encountered an error while processing your request.",
-        timestamp: Date.now()
-      };
-      setChatMessages(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        // Keep whatever was streamed before the user stopped generation
+        updateBotMessage({ status: 'stopped' });
+      } else {
+        console.error("Chat error:", error);
+        updateBotMessage({
+          content: errorMessage(error, "Sorry, I encountered an error while processing your request."),
+          status: undefined
+        });
+      }
     } finally {
+      chatAbortRef.current = null;
       setIsChatLoading(false);
     }
   };
+
+  const handleSendMessage = async (text: string) => {
+    const newMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content: text,
+      timestamp: Date.now()
+    };
+
+    await streamAnswer([...chatMessages, newMessage], text);
+  };
+
+  const handleStopGeneration = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleRegenerate = async () => {
+    const lastUserIndex = chatMessages.map(msg => msg.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+
+    const history = chatMessages.slice(0, lastUserIndex + 1);
+    await streamAnswer(history, history[lastUserIndex].content, true);
+  };
   
   const toggleCardFlip = (id: string) => {
     setFlippedCards(prev => ({
@@ -227,29 +970,110 @@ const App: React.FC = () => {
     }));
   };
   
+  const handleGradeCard = (cardId: string, grade: ReviewGrade) => {
+    setContent(prev => prev && {
+      ...prev,
+      flashcards: prev.flashcards.map(card => card.id === cardId ? gradeCard(card, grade) : card)
+    });
+  };
+
   const exportFlashcards = () => {
     if (!content?.flashcards) return;
-    
-    const csvContent = "data:text/csv;charset=utf-8," 
-      + content.flashcards.map(card => `"${card.front.replace(/"/g, '""')}","${card.back.replace(/"/g, '""')}"`).join("\n");
-      
-    const encodedUri = encodeURI(csvContent);
-    const link = document.createElement("a");
-    link.setAttribute("href", encodedUri);
-    link.setAttribute("download", "studysketch_flashcards.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+
+    // A Blob rather than a data: URI so edited text with "#" or line breaks is exported intact
+    const csvContent = content.flashcards
+      .map(card => `"${card.front.replace(/"/g, '""')}","${card.back.replace(/"/g, '""')}"`)
+      .join("\n");
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8' }), "studysketch_flashcards.csv");
+  };
+
+  const duplicatePairs = useMemo(
+    () => content ? findDuplicatePairs(content.flashcards, dismissedDuplicates) : [],
+    [content, dismissedDuplicates]
+  );
+
+  const updateFlashcards = (update: (cards: Flashcard[]) => Flashcard[]) => {
+    setContent(prev => prev && { ...prev, flashcards: update(prev.flashcards) });
+  };
+
+  const handleSaveCard = (front: string, back: string) => {
+    if (editingCardId === 'new') {
+      updateFlashcards(cards => [...cards, { id: `fc-${Date.now()}`, front, back }]);
+    } else {
+      updateFlashcards(cards => cards.map(card => card.id === editingCardId ? { ...card, front, back } : card));
+    }
+    setEditingCardId(null);
+  };
+
+  const handleDeleteCard = (card: Flashcard) => {
+    if (!confirm(`Delete the card "${card.front}"?`)) return;
+    updateFlashcards(cards => cards.filter(c => c.id !== card.id));
+  };
+
+  const handleRegenerateCard = async (card: Flashcard) => {
+    if (!content || !confirmBudget(estimateFollowUpTokens('card', content, inputText, selectedFiles), activeSessionId)) return;
+    const controller = new AbortController();
+    regenerateCardAbortRef.current = controller;
+    setRegeneratingCardId(card.id);
+    setFlashcardError(null);
+    try {
+      const replacement = await regenerateFlashcard(card, content, inputText, selectedFiles, controller.signal);
+      if (controller.signal.aborted) return;
+      updateFlashcards(cards => replaceCard(cards, replacement));
+      setFlippedCards(prev => ({ ...prev, [card.id]: false }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Flashcard Error:", error);
+      setFlashcardError(errorMessage(error, 'Failed to regenerate the card. Please try again.'));
+    } finally {
+      if (regenerateCardAbortRef.current === controller) regenerateCardAbortRef.current = null;
+      setRegeneratingCardId(null);
+    }
+  };
+
+  const handleGenerateMoreCards = async () => {
+    if (!content || !moreCardsTopic.trim()) return;
+    if (!confirmBudget(estimateFollowUpTokens('cards', content, inputText, selectedFiles), activeSessionId)) return;
+    const controller = new AbortController();
+    cardsAbortRef.current = controller;
+    setIsGeneratingCards(true);
+    setFlashcardError(null);
+    try {
+      const cards = await generateMoreFlashcards(moreCardsTopic.trim(), moreCardsCount, content, inputText, selectedFiles, controller.signal);
+      updateFlashcards(existing => [...existing, ...cards]);
+      setShowMoreCards(false);
+      setMoreCardsTopic('');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Flashcard Error:", error);
+      setFlashcardError(errorMessage(error, 'Failed to generate cards. Please try again.'));
+    } finally {
+      if (cardsAbortRef.current === controller) cardsAbortRef.current = null;
+      setIsGeneratingCards(false);
+    }
   };
 
-  const diagramTypes = [
+  const handleMergeCards = (keep: Flashcard, drop: Flashcard) => {
+    updateFlashcards(cards => replaceCard(cards, mergeCards(keep, drop)).filter(c => c.id !== drop.id));
+  };
+
+  const diagramTypes: { id: DiagramTypeChoice; label: string; icon: typeof BrainCircuit }[] = [
+    { id: 'auto', label: 'Auto', icon: Wand2 },
     { id: DiagramType.MINDMAP, label: 'Mind Map', icon: BrainCircuit },
     { id: DiagramType.FLOWCHART, label: 'Flowchart', icon: GitBranch },
     { id: DiagramType.SEQUENCE, label: 'Sequence', icon: AlignLeft },
     { id: DiagramType.TIMELINE, label: 'Timeline', icon: Clock },
     { id: DiagramType.ORGCHART, label: 'Org Chart', icon: Users },
     { id: DiagramType.GANTT, label: 'Gantt Chart', icon: CalendarRange },
+    { id: DiagramType.CLASS, label: 'Class', icon: Boxes },
+    { id: DiagramType.ER, label: 'Entity-Relation', icon: Database },
+    { id: DiagramType.STATE, label: 'State', icon: Workflow },
+    { id: DiagramType.PIE, label: 'Pie Chart', icon: PieChart },
+    { id: DiagramType.QUADRANT, label: 'Quadrant', icon: Grid2x2 },
+    { id: DiagramType.JOURNEY, label: 'User Journey', icon: Route },
   ];
+  const diagramTypeLabel = (type: DiagramTypeChoice) => diagramTypes.find(t => t.id === type)?.label || type;
+  const inputEstimateCost = inputEstimate ? usageCost({ promptTokens: inputEstimate.tokens, outputTokens: 0 }, providerSettings) : 0;
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col md:flex-row font-sans text-slate-800">
@@ -266,13 +1090,38 @@ const App: React.FC = () => {
               <p className="text-xs text-slate-500 font-medium">Smart Visual Notes</p>
             </div>
           </div>
-          <button 
-            onClick={() => setShowDocs(true)}
-            className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
-            title="Documentation & Architecture"
-          >
-            <Info size={20} />
-          </button>
+          <div className="flex items-center gap-1">
+            <button 
+              onClick={() => setShowLibrary(true)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Study Library"
+            >
+              <Library size={20} />
+            </button>
+            {content && (
+              <button
+                onClick={shareCurrentSession}
+                className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+                title="Share Study Set"
+              >
+                <Share2 size={20} />
+              </button>
+            )}
+            <button
+              onClick={() => setShowUsage(true)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Usage & Budget"
+            >
+              <Gauge size={20} />
+            </button>
+            <button 
+              onClick={() => setShowDocs(true)}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Documentation & Architecture"
+            >
+              <Info size={20} />
+            </button>
+          </div>
         </div>
 
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
@@ -321,8 +1170,8 @@ const App: React.FC = () => {
               Source Material
             </h2>
             <FileUpload 
-              onFileSelect={setSelectedFile} 
-              selectedFile={selectedFile} 
+              onFilesChange={setSelectedFiles} 
+              files={selectedFiles} 
             />
           </section>
 
@@ -368,8 +1217,20 @@ const App: React.FC = () => {
             </div>
           </section>
 
+          {/* AI Provider */}
+          <section>
+            <h2 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
+              <span className="w-1.5 h-1.5 rounded-full bg-indigo-500"></span>
+              AI Provider
+            </h2>
+            <ProviderSettingsPanel
+              settings={providerSettings}
+              onChange={handleProviderChange}
+            />
+          </section>
+
           <button
-            onClick={handleGenerate}
+            onClick={() => handleGenerate()}
             disabled={processingState.status === 'processing'}
             className={`
               w-full py-4 rounded-xl font-semibold text-white shadow-lg shadow-indigo-500/30 flex items-center justify-center gap-2 transition-all
@@ -391,6 +1252,12 @@ const App: React.FC = () => {
               </>
             )}
           </button>
+          {inputEstimate && (
+            <p className="text-xs text-slate-500 text-center -mt-3">
+              {inputEstimate.exact ? '' : '~'}{inputEstimate.tokens.toLocaleString()} input tokens
+              {inputEstimateCost > 0 && <> · about {formatCost(inputEstimateCost)} to send</>}
+            </p>
+          )}
         </div>
       </div>
 
@@ -416,11 +1283,51 @@ const App: React.FC = () => {
             <div className="w-16 h-16 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-6"></div>
             <h3 className="text-xl font-semibold text-slate-800 mb-2">Analyzing your content</h3>
             <p className="text-slate-500">{processingState.message}</p>
+            {processingState.progress && (
+              <div className="w-64 h-1.5 mt-4 bg-indigo-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-indigo-600 transition-all"
+                  style={{ width: `${(processingState.progress.current / processingState.progress.total) * 100}%` }}
+                />
+              </div>
+            )}
+            <button
+              onClick={handleCancelGenerate}
+              className="mt-6 flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 bg-white text-sm font-medium text-slate-600 hover:bg-slate-100 transition-colors"
+            >
+              <X size={16} /> Cancel
+            </button>
+          </div>
+        ) : processingState.status === 'error' && !content ? (
+          <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+            <div className="bg-red-100 p-3 rounded-full text-red-500 mb-4">
+              <AlertTriangle size={32} />
+            </div>
+            <h3 className="text-xl font-semibold text-slate-800 mb-2">Generation Failed</h3>
+            <p className="max-w-md text-slate-500">{processingState.message}</p>
           </div>
         ) : (
           <div className="flex-1 flex flex-col md:flex-row h-full overflow-hidden p-4 gap-4">
              {/* Visualization / Summary Area */}
              <div className="flex-1 flex flex-col bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+               {processingState.message && (processingState.status === 'completed' || processingState.status === 'error') && (
+                 <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-amber-800 text-xs flex items-center gap-2">
+                   <AlertTriangle size={14} className="flex-shrink-0" />
+                   <span>{processingState.message}</span>
+                 </div>
+               )}
+               {cachedAt && (
+                 <div className="px-4 py-2 bg-indigo-50 border-b border-indigo-100 text-indigo-800 text-xs flex items-center gap-2">
+                   <Database size={14} className="flex-shrink-0" />
+                   <span className="flex-1">Showing a cached result from {new Date(cachedAt).toLocaleString()}.</span>
+                   <button
+                     onClick={() => handleGenerate(true)}
+                     className="font-medium hover:underline"
+                   >
+                     Force regenerate
+                   </button>
+                 </div>
+               )}
                {/* Tabs */}
                <div className="flex border-b border-slate-100">
                  <button 
@@ -446,6 +1353,12 @@ const App: React.FC = () => {
                       </span>
                    ) : null}
                  </button>
+                 <button
+                  onClick={() => setActiveTab('quiz')}
+                  className={`flex-1 py-3 text-sm font-medium flex items-center justify-center gap-2 border-b-2 transition-colors ${activeTab === 'quiz' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                 >
+                   <ListChecks size={16} /> Quiz
+                 </button>
                </div>
 
                <div className="flex-1 relative overflow-hidden bg-slate-50/50">
@@ -453,29 +1366,184 @@ const App: React.FC = () => {
                  {/* Diagram Tab */}
                  {activeTab === 'diagram' && content && (
                    <div className="absolute inset-0 flex flex-col">
-                      <div className="absolute top-4 left-4 z-10">
-                        <button 
-                          onClick={() => setIsEditingDiagram(!isEditingDiagram)}
-                          className={`
-                            flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium shadow-sm border transition-all
-                            ${isEditingDiagram ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}
-                          `}
-                        >
-                           {isEditingDiagram ? <><Save size={14}/> View</> : <><Edit2 size={14}/> Edit Code</>}
-                        </button>
+                      <div className="absolute top-4 left-4 z-10 flex gap-2">
+                        {content.sections && content.sections.length > 0 && !isEditingDiagram && !isEditingNodes && (
+                          <select
+                            value={diagramSectionId || ''}
+                            onChange={(e) => setDiagramSectionId(e.target.value || null)}
+                            className="max-w-[220px] px-3 py-2 rounded-lg text-sm font-medium shadow-sm border border-slate-200 bg-white text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                            title="Drill into a section"
+                          >
+                            <option value="">Overview</option>
+                            {content.sections.map((section, index) => (
+                              <option key={section.id} value={section.id}>{index + 1}. {section.title}</option>
+                            ))}
+                          </select>
+                        )}
+                        {!drilledSection && (
+                          <button 
+                            onClick={() => setIsEditingDiagram(!isEditingDiagram)}
+                            className={`
+                              flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium shadow-sm border transition-all
+                              ${isEditingDiagram ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}
+                            `}
+                          >
+                             {isEditingDiagram ? <><Save size={14}/> View</> : <><Edit2 size={14}/> Edit Code</>}
+                          </button>
+                        )}
+                        {!drilledSection && (
+                          <div className="flex rounded-lg shadow-sm border border-slate-200 bg-white overflow-hidden">
+                            <button
+                              onClick={() => setDiagramHistory(undoDiagram)}
+                              disabled={!canUndo(diagramHistory)}
+                              className="px-2.5 py-2 text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition-colors"
+                              title="Undo (Ctrl+Z)"
+                            >
+                              <Undo2 size={14} />
+                            </button>
+                            <button
+                              onClick={() => setDiagramHistory(redoDiagram)}
+                              disabled={!canRedo(diagramHistory)}
+                              className="px-2.5 py-2 text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition-colors"
+                              title="Redo (Ctrl+Shift+Z)"
+                            >
+                              <Redo2 size={14} />
+                            </button>
+                            <button
+                              onClick={() => setShowDiagramHistory(true)}
+                              className="flex items-center gap-2 px-3 py-2 border-l border-slate-200 text-sm font-medium text-slate-700 hover:bg-slate-50 transition-colors"
+                              title="Versions, snapshots and diffs"
+                            >
+                              <HistoryIcon size={14} /> History
+                            </button>
+                          </div>
+                        )}
+                        {!isEditingDiagram && !drilledSection && diagramModel && (
+                          <button 
+                            onClick={() => {
+                              setIsEditingNodes(!isEditingNodes);
+                              setSelectedNodeIds([]);
+                              setFocusedNodeId(null);
+                              setExplainNodeId(null);
+                            }}
+                            className={`
+                              flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium shadow-sm border transition-all
+                              ${isEditingNodes ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-200 hover:bg-slate-50'}
+                            `}
+                          >
+                             <MousePointerClick size={14}/> {isEditingNodes ? 'Done' : 'Edit Nodes'}
+                          </button>
+                        )}
+                        {content.diagramTypeReason && !drilledSection && !isEditingDiagram && (
+                          <div className="relative group">
+                            <span className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium shadow-sm border border-slate-200 bg-white text-slate-600 cursor-help">
+                              <Wand2 size={14} /> Auto: {diagramTypeLabel(content.diagramType)}
+                            </span>
+                            <p className="hidden group-hover:block absolute top-full left-0 mt-2 w-72 p-3 rounded-lg shadow-lg border border-slate-200 bg-white text-xs text-slate-600">
+                              {content.diagramTypeReason}
+                            </p>
+                          </div>
+                        )}
                       </div>
+
+                      {!isEditingDiagram && isEditingNodes && diagramModel && (
+                        <div className="absolute bottom-8 left-8 z-10">
+                          <NodeEditorPanel
+                            model={diagramModel}
+                            selectedNodeIds={selectedNodeIds}
+                            onRename={(nodeId, label) => applyModelEdit(renameNode(diagramModel, nodeId, label))}
+                            onAddChild={handleAddChildNode}
+                            onDelete={handleDeleteNode}
+                            onMerge={handleMergeNodes}
+                          />
+                        </div>
+                      )}
                       
-                      {isEditingDiagram ? (
+                      {!isEditingDiagram && !isEditingNodes && !drilledSection && explainNode && content && (
+                        <div className="absolute top-20 right-8 bottom-8 z-10 flex flex-col justify-start">
+                          <NodeDetailsPanel
+                            label={explainNode.label}
+                            explanation={nodeExplanations[explainNode.label]}
+                            isExplaining={explainingLabel === explainNode.label}
+                            isExpanding={isExpandingNode}
+                            error={nodeError}
+                            summary={content.summary}
+                            flashcards={content.flashcards}
+                            sources={sessionSources}
+                            summarySources={summarySources}
+                            onOpenCitation={(citation, sources) => setOpenCitation({ citation, sources })}
+                            onRetry={() => loadExplanation(explainNode.label)}
+                            onExpand={handleExpandNode}
+                            onAsk={askAboutNode}
+                            onClose={closeNodeDetails}
+                          />
+                        </div>
+                      )}
+
+                      {drilledSection ? (
+                        <div className="w-full h-full p-4">
+                          <MermaidDiagram
+                            code={drilledSection.diagramCode}
+                            exportFileName={toFileName(drilledSection.title, 'studysketch_section')}
+                          />
+                        </div>
+                      ) : isEditingDiagram ? (
                         <div className="w-full h-full p-4 pt-16">
                            <textarea
                              value={currentDiagramCode}
-                             onChange={(e) => setCurrentDiagramCode(e.target.value)}
+                             onChange={(e) => updateDiagramCode(e.target.value, 'code')}
                              className="w-full h-full p-4 font-mono text-sm bg-slate-900 text-slate-300 rounded-xl resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500"
                            />
                         </div>
                       ) : (
-                        <div className="w-full h-full p-4">
-                           <MermaidDiagram code={currentDiagramCode} />
+                        <div className="w-full h-full p-4 flex flex-col gap-3">
+                           {diagramFix && diagramFix.fixedCode === currentDiagramCode && (
+                             <div className="mt-12 bg-emerald-50 border border-emerald-200 rounded-xl text-sm text-emerald-800 overflow-hidden flex-shrink-0">
+                               <div className="px-4 py-2 flex items-center gap-3">
+                                 <Wand2 size={14} />
+                                 <span className="flex-1">
+                                   Diagram repaired after {diagramFix.attempts} {diagramFix.attempts === 1 ? 'attempt' : 'attempts'}.
+                                 </span>
+                                 <button onClick={() => setShowFixDiff(!showFixDiff)} className="text-xs font-medium hover:underline">
+                                   {showFixDiff ? 'Hide changes' : 'Show changes'}
+                                 </button>
+                                 <button onClick={() => updateDiagramCode(diagramFix.originalCode, 'restore')} className="text-xs font-medium hover:underline">
+                                   Revert
+                                 </button>
+                                 <button onClick={() => setDiagramFix(null)} className="p-1 hover:bg-emerald-100 rounded">
+                                   <X size={14} />
+                                 </button>
+                               </div>
+                               {showFixDiff && (
+                                 <div className="max-h-48 overflow-auto p-2 pt-0">
+                                   <CodeDiff before={diagramFix.originalCode} after={diagramFix.fixedCode} />
+                                 </div>
+                               )}
+                             </div>
+                           )}
+                           <div className="flex-1 min-h-0">
+                             <MermaidDiagram
+                               code={currentDiagramCode}
+                               onError={handleDiagramError}
+                               onFix={() => handleFixDiagram()}
+                               isFixing={isFixingDiagram}
+                               fixError={diagramFixError}
+                               autoFix={autoFixDiagrams}
+                               onAutoFixChange={handleAutoFixChange}
+                               exportFileName={toFileName(deriveSessionTitle({ content, selectedFiles, inputText }), 'studysketch_diagram')}
+                               {...(isEditingNodes && diagramModel ? {
+                                 onNodeClick: handleNodeClick,
+                                 onNodeDrop: (sourceId: string, targetId: string) => applyModelEdit(reparentNode(diagramModel, sourceId, targetId)),
+                                 onBackgroundClick: () => setSelectedNodeIds([]),
+                                 highlightedNodeIds: selectedNodeIds,
+                                 panningDisabled: true
+                               } : {
+                                 onNodeClick: diagramModel ? (nodeId: string) => openNodeDetails(nodeId) : undefined,
+                                 highlightedNodeIds: [focusedNodeId, explainNodeId, ...chatNodeIds].filter((id): id is string => Boolean(id)),
+                                 onBackgroundClick: closeNodeDetails
+                               })}
+                             />
+                           </div>
                         </div>
                       )}
                    </div>
@@ -485,31 +1553,214 @@ const App: React.FC = () => {
                  {activeTab === 'summary' && content && (
                    <div className="absolute inset-0 p-8 overflow-y-auto">
                      <article className="prose prose-slate prose-headings:text-indigo-900 prose-a:text-indigo-600 max-w-none">
-                       <ReactMarkdown>{content.summary}</ReactMarkdown>
+                       <CitedMarkdown
+                         content={content.summary}
+                         sources={summarySources}
+                         onOpenCitation={(citation) => setOpenCitation({ citation, sources: summarySources })}
+                         components={summaryComponents}
+                       />
                      </article>
+                     {content.sources && content.sources.length > 1 && (
+                       <div className="mt-8 pt-4 border-t border-slate-200 flex flex-wrap items-center gap-2 text-xs">
+                         <span className="font-semibold text-slate-500 uppercase tracking-wider">Sources</span>
+                         {content.sources.map(source => (
+                           <span key={source.id} className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">
+                             {source.id} · {source.name}
+                           </span>
+                         ))}
+                       </div>
+                     )}
                    </div>
                  )}
 
+                 {/* Quiz Tab */}
+                 {activeTab === 'quiz' && content && (
+                   content.quiz && content.quiz.length > 0 ? (
+                     <>
+                       <QuizRunner
+                         questions={content.quiz}
+                         result={quizResult}
+                         summary={content.summary}
+                         diagramModel={diagramModel}
+                         isGenerating={isGeneratingQuiz}
+                         onFinish={setQuizResult}
+                         onRetake={() => setQuizResult(null)}
+                         onNewQuiz={handleGenerateQuiz}
+                         onShowSummaryHeading={showSummaryHeading}
+                         onShowDiagramNode={showDiagramNode}
+                       />
+                       {quizError && (
+                         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 max-w-lg px-4 py-2 bg-red-50 border border-red-200 text-red-700 text-xs rounded-lg shadow-sm">
+                           {quizError}
+                         </div>
+                       )}
+                     </>
+                   ) : (
+                     <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center">
+                       <ListChecks size={48} className="text-indigo-300 mb-4" />
+                       <h3 className="text-xl font-semibold text-slate-800 mb-2">Test yourself</h3>
+                       <p className="text-slate-500 text-sm mb-6 max-w-sm">
+                         Generate a timed quiz with multiple-choice, fill-in-the-blank and true/false questions from this material.
+                       </p>
+                       <button
+                         onClick={handleGenerateQuiz}
+                         disabled={isGeneratingQuiz}
+                         className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                       >
+                         {isGeneratingQuiz ? <><Loader2 size={16} className="animate-spin" /> Generating...</> : 'Generate Quiz'}
+                       </button>
+                       {isGeneratingQuiz && (
+                         <button onClick={() => quizAbortRef.current?.abort()} className="mt-3 text-sm text-slate-500 hover:text-slate-700">
+                           Cancel
+                         </button>
+                       )}
+                       {quizError && <p className="text-sm text-red-600 mt-4 max-w-md">{quizError}</p>}
+                     </div>
+                   )
+                 )}
+
                  {/* Flashcards Tab */}
-                 {activeTab === 'flashcards' && content && content.flashcards && (
+                 {activeTab === 'flashcards' && content && content.flashcards && isReviewing && (
+                    <FlashcardReview
+                      cards={content.flashcards}
+                      onGrade={handleGradeCard}
+                      onExit={() => setIsReviewing(false)}
+                    />
+                 )}
+
+                 {activeTab === 'flashcards' && content && content.flashcards && !isReviewing && (
                     <div className="absolute inset-0 flex flex-col">
                       <div className="p-4 border-b border-slate-100 bg-white flex justify-between items-center">
                         <h3 className="font-semibold text-slate-700">Study Cards ({content.flashcards.length})</h3>
-                        <button 
-                          onClick={exportFlashcards}
-                          className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
-                        >
-                          <Download size={14} /> Export CSV (Anki)
-                        </button>
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {duplicatePairs.length > 0 && (
+                            <button
+                              onClick={() => setShowDuplicates(true)}
+                              className="flex items-center gap-2 px-3 py-1.5 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-lg text-sm font-medium transition-colors"
+                            >
+                              <Copy size={14} /> {duplicatePairs.length} similar
+                            </button>
+                          )}
+                          <button
+                            onClick={() => {
+                              setEditingCardId('new');
+                              setShowMoreCards(false);
+                            }}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                          >
+                            <Plus size={14} /> Add
+                          </button>
+                          <button
+                            onClick={() => setShowMoreCards(!showMoreCards)}
+                            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${showMoreCards ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 hover:bg-slate-200 text-slate-700'}`}
+                          >
+                            <Sparkles size={14} /> More Cards
+                          </button>
+                          <button 
+                            onClick={() => setIsReviewing(true)}
+                            disabled={content.flashcards.length === 0}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                          >
+                            <GraduationCap size={14} /> Study ({dueCards(content.flashcards).length} due)
+                          </button>
+                          <button 
+                            onClick={exportFlashcards}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                          >
+                            <Download size={14} /> Export CSV
+                          </button>
+                          <button 
+                            onClick={() => setShowAnkiExport(true)}
+                            disabled={content.flashcards.length === 0}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+                          >
+                            <Download size={14} /> Anki Deck
+                          </button>
+                        </div>
                       </div>
+                      {showMoreCards && (
+                        <div className="px-4 py-3 border-b border-slate-100 bg-indigo-50/50 flex flex-wrap items-center gap-2">
+                          <span className="text-sm text-slate-600">Generate</span>
+                          <select
+                            value={moreCardsCount}
+                            onChange={(e) => setMoreCardsCount(Number(e.target.value))}
+                            className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-sm"
+                          >
+                            {[3, 5, 10].map(n => <option key={n} value={n}>{n}</option>)}
+                          </select>
+                          <span className="text-sm text-slate-600">more cards about</span>
+                          <input
+                            value={moreCardsTopic}
+                            onChange={(e) => setMoreCardsTopic(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && handleGenerateMoreCards()}
+                            placeholder="e.g. the light-dependent reactions"
+                            autoFocus
+                            className="flex-1 min-w-[12rem] px-3 py-1.5 rounded-lg border border-slate-200 bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-sm"
+                          />
+                          <button
+                            onClick={handleGenerateMoreCards}
+                            disabled={!moreCardsTopic.trim() || isGeneratingCards}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+                          >
+                            {isGeneratingCards ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} Generate
+                          </button>
+                          {isGeneratingCards && (
+                            <button onClick={() => cardsAbortRef.current?.abort()} className="px-3 py-1.5 text-sm text-slate-500 hover:text-slate-700">
+                              Cancel
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {flashcardError && (
+                        <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-red-700 text-xs flex items-center gap-2">
+                          <AlertTriangle size={14} className="flex-shrink-0" />
+                          <span className="flex-1">{flashcardError}</span>
+                          <button onClick={() => setFlashcardError(null)} className="p-1 hover:bg-red-100 rounded">
+                            <X size={12} />
+                          </button>
+                        </div>
+                      )}
                       <div className="flex-1 overflow-y-auto p-6">
                         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-                          {content.flashcards.map((card) => (
-                            <div 
+                          {content.flashcards.map((card) => editingCardId === card.id ? (
+                            <FlashcardForm
+                              key={card.id}
+                              initialFront={card.front}
+                              initialBack={card.back}
+                              onSave={handleSaveCard}
+                              onCancel={() => setEditingCardId(null)}
+                            />
+                          ) : (
+                            <div
                               key={card.id}
                               onClick={() => toggleCardFlip(card.id)}
                               className="relative h-64 w-full perspective-1000 cursor-pointer group"
                             >
+                              <div className="absolute top-3 left-3 z-10 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                {[
+                                  { label: 'Edit card', icon: Edit2, action: () => setEditingCardId(card.id) },
+                                  { label: 'Regenerate card', icon: RefreshCcw, action: () => handleRegenerateCard(card) },
+                                  { label: 'Delete card', icon: Trash2, action: () => handleDeleteCard(card) },
+                                ].map(({ label, icon: Icon, action }) => (
+                                  <button
+                                    key={label}
+                                    title={label}
+                                    disabled={regeneratingCardId !== null}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      action();
+                                    }}
+                                    className="p-1.5 rounded-lg bg-white/90 border border-slate-200 text-slate-500 hover:text-indigo-600 disabled:opacity-50 shadow-sm transition-colors"
+                                  >
+                                    <Icon size={12} />
+                                  </button>
+                                ))}
+                              </div>
+                              {regeneratingCardId === card.id && (
+                                <div className="absolute inset-0 z-20 rounded-2xl bg-white/70 flex items-center justify-center">
+                                  <Loader2 size={24} className="animate-spin text-indigo-500" />
+                                </div>
+                              )}
                               <div className={`
                                 relative w-full h-full transition-transform duration-500 transform-style-3d
                                 ${flippedCards[card.id] ? 'rotate-y-180' : ''}
@@ -518,6 +1769,11 @@ const App: React.FC = () => {
                                 <div className="absolute inset-0 w-full h-full bg-white rounded-2xl shadow-sm border border-slate-200 p-6 flex flex-col items-center justify-center backface-hidden group-hover:shadow-md transition-shadow">
                                   <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-4">Question</span>
                                   <p className="text-center font-medium text-slate-800">{card.front}</p>
+                                  {content.sources && content.sources.length > 1 && card.sourceId && (
+                                    <span className="absolute top-4 right-4 max-w-[60%] truncate text-[10px] font-medium text-slate-500 bg-slate-100 px-2 py-0.5 rounded-full" title={sourceName(card.sourceId)}>
+                                      {sourceName(card.sourceId)}
+                                    </span>
+                                  )}
                                   <div className="absolute bottom-4 text-slate-400">
                                     <RotateCw size={16} />
                                   </div>
@@ -530,6 +1786,9 @@ const App: React.FC = () => {
                               </div>
                             </div>
                           ))}
+                          {editingCardId === 'new' && (
+                            <FlashcardForm onSave={handleSaveCard} onCancel={() => setEditingCardId(null)} />
+                          )}
                         </div>
                       </div>
                     </div>
@@ -542,13 +1801,73 @@ const App: React.FC = () => {
                <ChatPanel 
                  messages={chatMessages} 
                  onSendMessage={handleSendMessage}
+                 onStop={handleStopGeneration}
+                 onRegenerate={handleRegenerate}
                  isLoading={isChatLoading}
+                 sources={sessionSources}
+                 onOpenCitation={(citation) => setOpenCitation({ citation, sources: sessionSources })}
+                 prefill={chatPrefill}
+                 onHoverMessage={setHoveredMessage}
                />
              </div>
           </div>
         )}
       </div>
 
+      <LibrarySidebar
+        isOpen={showLibrary}
+        onClose={() => setShowLibrary(false)}
+        activeSessionId={activeSessionId}
+        onOpenSession={handleOpenSession}
+        onNewSession={handleNewSession}
+        onSessionDeleted={handleSessionDeleted}
+        onExportSession={setExportSession}
+        refreshKey={libraryRefreshKey}
+      />
+
+      {exportSession && (
+        <StudyPackExportDialog session={exportSession} onClose={() => setExportSession(null)} />
+      )}
+
+      {showUsage && (
+        <UsageDialog sessionId={activeSessionId} settings={providerSettings} onClose={() => setShowUsage(false)} />
+      )}
+
+      {showDiagramHistory && (
+        <DiagramHistoryDialog
+          history={diagramHistory}
+          onRestore={(id) => setDiagramHistory(history => restoreVersion(history, id))}
+          onRename={(id, name) => setDiagramHistory(history => nameVersion(history, id, name))}
+          onClose={() => setShowDiagramHistory(false)}
+        />
+      )}
+
+      {showDuplicates && (
+        <DuplicateCardsDialog
+          pairs={duplicatePairs}
+          onMerge={handleMergeCards}
+          onDismiss={(key) => setDismissedDuplicates(prev => new Set(prev).add(key))}
+          onClose={() => setShowDuplicates(false)}
+        />
+      )}
+
+      {showAnkiExport && content && (
+        <AnkiExportDialog
+          flashcards={content.flashcards}
+          defaultDeckName={`StudySketch::${deriveSessionTitle({ content, selectedFiles, inputText })}`}
+          defaultTags={['studysketch', content.diagramType, ...selectedFiles.map(f => f.name)]}
+          onClose={() => setShowAnkiExport(false)}
+        />
+      )}
+
+      {openCitation && (
+        <SourceViewer
+          source={citedSource || { id: openCitation.citation.sourceId, name: 'Unknown source', text: null }}
+          citation={openCitation.citation}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
+
       {/* Docs Modal */}
       {showDocs && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
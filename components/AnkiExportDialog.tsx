@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { Flashcard } from '../types';
+import { AnkiNoteType, buildApkg, toAnkiTag } from '../services/anki';
+import { downloadBlob, toFileName } from '../services/download';
+
+interface AnkiExportDialogProps {
+  flashcards: Flashcard[];
+  defaultDeckName: string;
+  defaultTags: string[];
+  onClose: () => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm";
+
+const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ flashcards, defaultDeckName, defaultTags, onClose }) => {
+  const [deckName, setDeckName] = useState(defaultDeckName);
+  const [tags, setTags] = useState(defaultTags.map(toAnkiTag).filter(Boolean).join(' '));
+  const [noteType, setNoteType] = useState<AnkiNoteType>('basic');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await buildApkg(flashcards, {
+        deckName: deckName.trim() || defaultDeckName,
+        noteType,
+        tags: tags.split(/\s+/).filter(Boolean)
+      });
+      downloadBlob(blob, `${toFileName(deckName, 'studysketch_deck')}.apkg`);
+      onClose();
+    } catch (err: any) {
+      console.error("Anki export error:", err);
+      setError(err?.message || 'Failed to build the Anki deck.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800">Export Anki Deck</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Deck name</span>
+            <input value={deckName} onChange={(e) => setDeckName(e.target.value)} className={`${inputClass} mt-1`} />
+            <span className="text-[11px] text-slate-400">Use "::" for sub-decks, e.g. Biology::Photosynthesis</span>
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Tags</span>
+            <input value={tags} onChange={(e) => setTags(e.target.value)} className={`${inputClass} mt-1 font-mono`} />
+          </label>
+
+          <div>
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Note type</span>
+            <div className="grid grid-cols-2 gap-2 mt-1">
+              {([['basic', 'Basic'], ['basic-reversed', 'Basic + Reversed']] as [AnkiNoteType, string][]).map(([id, label]) => (
+                <button
+                  key={id}
+                  onClick={() => setNoteType(id)}
+                  className={`p-2 rounded-lg border text-sm font-medium transition-all ${noteType === id ? 'border-indigo-600 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting || flashcards.length === 0}
+            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            Export {flashcards.length} {flashcards.length === 1 ? 'note' : 'notes'} (.apkg)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnkiExportDialog;
@@ -1,17 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, User, Bot, Loader2 } from 'lucide-react';
+import { Send, User, Bot, Loader2, Square, RefreshCw, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
 import { Message } from '../types';
-import ReactMarkdown from 'react-markdown';
+import CitedMarkdown from './CitedMarkdown';
+import { Citation, hasSupportingCitation } from '../services/citations';
+import { SourceDocument } from '../services/sources';
 
 interface ChatPanelProps {
   messages: Message[];
   onSendMessage: (message: string) => Promise<void>;
+  onStop?: () => void;
+  onRegenerate?: () => void;
   isLoading: boolean;
+  sources: SourceDocument[];
+  onOpenCitation: (citation: Citation) => void;
+  prefill?: { text: string; nonce: number } | null; // A new nonce puts the text in the input
+  onHoverMessage?: (message: Message | null) => void;
 }
 
-const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoading }) => {
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, onStop, onRegenerate, isLoading, sources, onOpenCitation, prefill, onHoverMessage }) => {
   const [input, setInput] = useState('');
+  const [expandedPassages, setExpandedPassages] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -21,6 +31,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoadin
     scrollToBottom();
   }, [messages]);
 
+  useEffect(() => {
+    if (!prefill) return;
+    setInput(prefill.text);
+    inputRef.current?.focus();
+  }, [prefill?.nonce]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -45,10 +61,12 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoadin
             <p className="text-xs mt-1">Try asking: "Summarize the main point" or "Explain the first concept"</p>
           </div>
         ) : (
-          messages.map((msg) => (
+          messages.map((msg, index) => msg.status === 'streaming' && !msg.content ? null : (
             <div 
               key={msg.id} 
-              className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+              className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
+              onMouseEnter={() => onHoverMessage?.(msg)}
+              onMouseLeave={() => onHoverMessage?.(null)}
             >
               <div 
                 className={`
@@ -61,22 +79,71 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoadin
               >
                 {msg.role === 'model' ? (
                    <div className="prose prose-sm prose-slate max-w-none dark:prose-invert">
-                     <ReactMarkdown 
+                     <CitedMarkdown
+                      content={msg.content}
+                      sources={sources}
+                      onOpenCitation={onOpenCitation}
                       components={{
                         p: ({node, ...props}) => <p className="mb-1 last:mb-0" {...props} />
                       }}
-                     >
-                       {msg.content}
-                     </ReactMarkdown>
+                     />
                    </div>
                 ) : (
                   msg.content
                 )}
+                {msg.status === 'streaming' && (
+                  <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-slate-400 animate-pulse" />
+                )}
               </div>
+              {msg.role === 'model' && !msg.status && sources.length > 0 && !hasSupportingCitation(msg.content, sources) && (
+                <span className="flex items-center gap-1 text-[10px] text-amber-600 mt-1 ml-1">
+                  <AlertTriangle size={10} /> No supporting passage found in your sources
+                </span>
+              )}
+              {msg.role === 'model' && msg.passages && msg.passages.length > 0 && (
+                <div className="max-w-[85%] mt-1 ml-1">
+                  <button
+                    onClick={() => setExpandedPassages(expandedPassages === msg.id ? null : msg.id)}
+                    className="flex items-center gap-1 text-[11px] text-slate-400 hover:text-indigo-600 transition-colors"
+                  >
+                    {expandedPassages === msg.id ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+                    {msg.passages.length} passage{msg.passages.length === 1 ? '' : 's'} used
+                  </button>
+                  {expandedPassages === msg.id && (
+                    <ul className="mt-1 space-y-1.5">
+                      {msg.passages.map(passage => (
+                        <li key={passage.chunkId} className="rounded-lg border border-slate-200 bg-white p-2 text-[11px] text-slate-600">
+                          <div className="flex justify-between gap-2 font-semibold text-slate-500 mb-1">
+                            <span className="truncate">
+                              [{passage.sourceId}] {passage.sourceName}{passage.page ? `, p.${passage.page}` : ''}
+                            </span>
+                            <span className="flex-shrink-0 font-mono font-normal">{passage.score.toFixed(2)}</span>
+                          </div>
+                          <p className="whitespace-pre-wrap max-h-32 overflow-y-auto">{passage.text}</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              {msg.cached && (
+                <span className="text-[10px] text-slate-400 mt-1 ml-1">Cached answer</span>
+              )}
+              {msg.status === 'stopped' && (
+                <span className="text-[10px] text-amber-600 mt-1 ml-1">Generation stopped</span>
+              )}
+              {onRegenerate && !isLoading && msg.role === 'model' && index === messages.length - 1 && (
+                <button
+                  onClick={onRegenerate}
+                  className="flex items-center gap-1 text-[11px] text-slate-400 hover:text-indigo-600 mt-1 ml-1 transition-colors"
+                >
+                  <RefreshCw size={11} /> Regenerate
+                </button>
+              )}
             </div>
           ))
         )}
-        {isLoading && (
+        {isLoading && !messages.some(msg => msg.status === 'streaming' && msg.content) && (
           <div className="flex justify-start">
             <div className="bg-slate-100 rounded-2xl rounded-bl-none p-3 flex items-center gap-2">
               <Loader2 size={16} className="animate-spin text-slate-400" />
@@ -90,6 +157,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoadin
       <form onSubmit={handleSubmit} className="p-3 border-t border-slate-100 bg-white">
         <div className="relative flex items-center">
           <input
+            ref={inputRef}
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
@@ -97,13 +165,24 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ messages, onSendMessage, isLoadin
             disabled={isLoading}
             className="w-full pl-4 pr-12 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm"
           />
-          <button 
-            type="submit" 
-            disabled={!input.trim() || isLoading}
-            className="absolute right-2 p-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-          >
-            <Send size={16} />
-          </button>
+          {isLoading && onStop ? (
+            <button
+              type="button"
+              onClick={onStop}
+              className="absolute right-2 p-1.5 bg-slate-700 text-white rounded-lg hover:bg-slate-800 transition-colors"
+              title="Stop generating"
+            >
+              <Square size={16} fill="currentColor" />
+            </button>
+          ) : (
+            <button 
+              type="submit" 
+              disabled={!input.trim() || isLoading}
+              className="absolute right-2 p-1.5 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <Send size={16} />
+            </button>
+          )}
         </div>
       </form>
     </div>
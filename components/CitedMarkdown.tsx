@@ -0,0 +1,52 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { Citation, extractCitations, isCitationSupported, linkCitations } from '../services/citations';
+import { SourceDocument } from '../services/sources';
+
+interface CitedMarkdownProps {
+  content: string;
+  sources: SourceDocument[];
+  onOpenCitation: (citation: Citation) => void;
+  components?: Components;
+}
+
+// Markdown with the model's [S1 p.3 "quote"] citations rendered as clickable chips
+const CitedMarkdown: React.FC<CitedMarkdownProps> = ({ content, sources, onOpenCitation, components }) => {
+  const citations = useMemo(() => extractCitations(content), [content]);
+  const linked = useMemo(() => linkCitations(content), [content]);
+
+  return (
+    <ReactMarkdown
+      components={{
+        ...components,
+        a: ({ node, href, children, ...props }) => {
+          const index = href?.match(/^#cite-(\d+)$/)?.[1];
+          const citation = index ? citations[Number(index) - 1] : undefined;
+          if (!citation) return <a href={href} target="_blank" rel="noreferrer" {...props}>{children}</a>;
+
+          const supported = isCitationSupported(citation, sources);
+          return (
+            <button
+              type="button"
+              onClick={() => onOpenCitation(citation)}
+              title={citation.quote ? `"${citation.quote}"` : 'Open source'}
+              className={`
+                not-prose inline-flex items-center align-baseline mx-0.5 px-1.5 rounded text-[10px] font-semibold leading-4 transition-colors
+                ${supported
+                  ? 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+                  : 'bg-amber-100 text-amber-700 hover:bg-amber-200 line-through decoration-amber-500/60'
+                }
+              `}
+            >
+              {children}
+            </button>
+          );
+        }
+      }}
+    >
+      {linked}
+    </ReactMarkdown>
+  );
+};
+
+export default CitedMarkdown;
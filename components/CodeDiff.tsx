@@ -0,0 +1,32 @@
+import React, { useMemo } from 'react';
+import { diffLines } from '../services/diff';
+
+interface CodeDiffProps {
+  before: string;
+  after: string;
+}
+
+const LINE_STYLES = {
+  same: 'text-slate-400',
+  added: 'bg-green-500/10 text-green-300',
+  removed: 'bg-red-500/10 text-red-300 line-through decoration-red-400/50',
+};
+
+const LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+const CodeDiff: React.FC<CodeDiffProps> = ({ before, after }) => {
+  const lines = useMemo(() => diffLines(before, after), [before, after]);
+
+  return (
+    <pre className="p-3 text-xs font-mono bg-slate-900 rounded-lg overflow-auto">
+      {lines.map((line, index) => (
+        <div key={index} className={`px-2 whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>
+          <span className="select-none opacity-60 mr-2">{LINE_PREFIX[line.type]}</span>
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  );
+};
+
+export default CodeDiff;
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { PdfLayout, PdfPageSize, exportPdf, exportPng, exportSvg } from '../services/diagramExport';
+
+interface DiagramExportMenuProps {
+  code: string;
+  fileName: string;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+const selectClass = "px-2 py-1 rounded border border-slate-200 bg-white text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500/20";
+
+const DiagramExportMenu: React.FC<DiagramExportMenuProps> = ({ code, fileName }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [pngScale, setPngScale] = useState(2);
+  const [pageSize, setPageSize] = useState<PdfPageSize>('a4');
+  const [pdfLayout, setPdfLayout] = useState<PdfLayout>('fit');
+  const [busyFormat, setBusyFormat] = useState<string | null>(null);
+
+  const runExport = async (format: string, action: () => Promise<void>) => {
+    setBusyFormat(format);
+    try {
+      await action();
+      setIsOpen(false);
+    } catch (error: any) {
+      console.error("Diagram export error:", error);
+      alert(`Export failed: ${error?.message || error}`);
+    } finally {
+      setBusyFormat(null);
+    }
+  };
+
+  const exportButton = (format: string, label: string, action: () => Promise<void>) => (
+    <button
+      onClick={() => runExport(format, action)}
+      disabled={busyFormat !== null}
+      className="px-3 py-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded text-xs font-medium flex items-center gap-1 transition-colors"
+    >
+      {busyFormat === format && <Loader2 size={12} className="animate-spin" />}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="p-2 hover:bg-slate-100 rounded text-slate-600" title="Export Diagram">
+        <Download size={18} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-lg shadow-lg border border-slate-200 p-3 space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-slate-700">SVG</span>
+            {exportButton('svg', 'Download', () => exportSvg(code, fileName))}
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-slate-700">PNG</span>
+            <select value={pngScale} onChange={(e) => setPngScale(Number(e.target.value))} className={selectClass}>
+              {PNG_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+            </select>
+            {exportButton('png', 'Download', () => exportPng(code, fileName, pngScale))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-slate-700">PDF</span>
+              <select value={pageSize} onChange={(e) => setPageSize(e.target.value as PdfPageSize)} className={selectClass}>
+                <option value="a4">A4</option>
+                <option value="letter">Letter</option>
+              </select>
+              <select value={pdfLayout} onChange={(e) => setPdfLayout(e.target.value as PdfLayout)} className={selectClass}>
+                <option value="fit">Fit page</option>
+                <option value="tile">Tile pages</option>
+              </select>
+            </div>
+            <div className="flex justify-end">
+              {exportButton('pdf', 'Download', () => exportPdf(code, fileName, pageSize, pdfLayout))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DiagramExportMenu;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { X, History, RotateCcw, Pencil, Check } from 'lucide-react';
+import { DiagramHistory, DiagramVersion } from '../types';
+import { VERSION_KIND_LABELS, findVersion } from '../services/diagramHistory';
+import MermaidDiagram from './MermaidDiagram';
+import CodeDiff from './CodeDiff';
+
+interface DiagramHistoryDialogProps {
+  history: DiagramHistory;
+  onRestore: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onClose: () => void;
+}
+
+const versionLabel = (version: DiagramVersion) => version.name || VERSION_KIND_LABELS[version.kind];
+
+const compareButton = (active: boolean) => `
+  w-6 h-6 rounded text-[10px] font-bold transition-colors
+  ${active ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}
+`;
+
+// Version list on the left, the two versions picked as A and B compared on the right
+const DiagramHistoryDialog: React.FC<DiagramHistoryDialogProps> = ({ history, onRestore, onRename, onClose }) => {
+  const current = findVersion(history, history.currentId);
+  const [baseId, setBaseId] = useState<string | null>(current?.parentId ?? null);
+  const [targetId, setTargetId] = useState<string | null>(history.currentId);
+  const [view, setView] = useState<'visual' | 'code'>('visual');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const base = findVersion(history, baseId);
+  const target = findVersion(history, targetId);
+
+  const startRename = (version: DiagramVersion) => {
+    setRenamingId(version.id);
+    setNameDraft(version.name || '');
+  };
+
+  const commitRename = () => {
+    if (renamingId) onRename(renamingId, nameDraft);
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-6xl h-[85vh] shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <History size={18} /> Diagram History ({history.versions.length})
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <ul className="w-80 flex-shrink-0 border-r border-slate-200 overflow-y-auto divide-y divide-slate-100">
+            {[...history.versions].reverse().map(version => (
+              <li key={version.id} className={`p-3 ${version.id === history.currentId ? 'bg-indigo-50/60' : ''}`}>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => setBaseId(version.id)} className={compareButton(version.id === baseId)} title="Compare from this version">A</button>
+                  <button onClick={() => setTargetId(version.id)} className={compareButton(version.id === targetId)} title="Compare to this version">B</button>
+                  {renamingId === version.id ? (
+                    <input
+                      value={nameDraft}
+                      onChange={(e) => setNameDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        else if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onBlur={commitRename}
+                      placeholder="Snapshot name"
+                      className="flex-1 min-w-0 px-2 py-1 rounded border border-slate-200 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                      autoFocus
+                    />
+                  ) : (
+                    <span className={`flex-1 min-w-0 truncate text-sm ${version.name ? 'font-semibold text-slate-800' : 'text-slate-600'}`}>
+                      {versionLabel(version)}
+                    </span>
+                  )}
+                  {renamingId === version.id ? (
+                    <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 text-slate-400 hover:text-indigo-600">
+                      <Check size={14} />
+                    </button>
+                  ) : (
+                    <button onClick={() => startRename(version)} className="p-1 text-slate-400 hover:text-indigo-600" title="Name this snapshot">
+                      <Pencil size={14} />
+                    </button>
+                  )}
+                </div>
+                <div className="flex items-center justify-between mt-1 pl-16 text-[11px] text-slate-400">
+                  <span>
+                    {version.name ? `${VERSION_KIND_LABELS[version.kind]} · ` : ''}
+                    {new Date(version.updatedAt).toLocaleString()}
+                  </span>
+                  {version.id === history.currentId ? (
+                    <span className="font-semibold text-indigo-600">Current</span>
+                  ) : (
+                    <button onClick={() => onRestore(version.id)} className="flex items-center gap-1 font-medium text-slate-500 hover:text-indigo-600">
+                      <RotateCcw size={11} /> Restore
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 min-w-0 flex flex-col p-4 gap-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm text-slate-600 truncate">
+                <span className="font-semibold">A:</span> {base ? versionLabel(base) : 'none'}
+                <span className="mx-2 text-slate-300">→</span>
+                <span className="font-semibold">B:</span> {target ? versionLabel(target) : 'none'}
+              </p>
+              <div className="flex bg-slate-100 rounded-lg p-1 flex-shrink-0">
+                {(['visual', 'code'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setView(mode)}
+                    className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${view === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                  >
+                    {mode === 'visual' ? 'Visual' : 'Code'}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {!base || !target ? (
+              <p className="flex-1 flex items-center justify-center text-sm text-slate-400">
+                Pick two versions with A and B to compare them.
+              </p>
+            ) : view === 'visual' ? (
+              <div className="flex-1 min-h-0 grid grid-cols-2 gap-3">
+                <div className="min-h-0 rounded-xl border border-slate-200 overflow-hidden">
+                  <MermaidDiagram code={base.code} />
+                </div>
+                <div className="min-h-0 rounded-xl border border-slate-200 overflow-hidden">
+                  <MermaidDiagram code={target.code} />
+                </div>
+              </div>
+            ) : (
+              <div className="flex-1 min-h-0 overflow-auto">
+                <CodeDiff before={base.code} after={target.code} />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramHistoryDialog;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { X, Copy } from 'lucide-react';
+import { Flashcard } from '../types';
+import { DuplicatePair } from '../services/flashcards';
+
+interface DuplicateCardsDialogProps {
+  pairs: DuplicatePair[];
+  onMerge: (keep: Flashcard, drop: Flashcard) => void;
+  onDismiss: (key: string) => void;
+  onClose: () => void;
+}
+
+const CardPreview: React.FC<{ card: Flashcard; onKeep: () => void }> = ({ card, onKeep }) => (
+  <div className="flex-1 min-w-0 rounded-xl border border-slate-200 p-3 flex flex-col gap-2">
+    <p className="text-sm font-medium text-slate-800">{card.front}</p>
+    <p className="text-sm text-slate-500 flex-1">{card.back}</p>
+    {card.schedule && (
+      <span className="text-[10px] text-slate-400">{card.schedule.reviews.length} reviews</span>
+    )}
+    <button
+      onClick={onKeep}
+      className="px-3 py-1.5 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-lg text-xs font-medium transition-colors"
+    >
+      Keep this one
+    </button>
+  </div>
+);
+
+const DuplicateCardsDialog: React.FC<DuplicateCardsDialogProps> = ({ pairs, onMerge, onDismiss, onClose }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+    <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] shadow-2xl overflow-hidden flex flex-col">
+      <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+        <h2 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+          <Copy size={18} /> Similar Cards ({pairs.length})
+        </h2>
+        <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {pairs.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center">No similar cards left.</p>
+        ) : pairs.map(pair => (
+          <div key={pair.key}>
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                {Math.round(pair.similarity * 100)}% similar
+              </span>
+              <button onClick={() => onDismiss(pair.key)} className="text-xs text-slate-500 hover:text-slate-800 hover:underline">
+                Not duplicates
+              </button>
+            </div>
+            <div className="flex gap-3">
+              <CardPreview card={pair.first} onKeep={() => onMerge(pair.first, pair.second)} />
+              <CardPreview card={pair.second} onKeep={() => onMerge(pair.second, pair.first)} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default DuplicateCardsDialog;
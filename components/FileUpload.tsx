@@ -1,44 +1,40 @@
 import React, { useRef, useState } from 'react';
-import { UploadCloud, FileText, X, FileType } from 'lucide-react';
+import { UploadCloud, FileText, X, FileType, ChevronUp, ChevronDown, Image as ImageIcon, BookOpen } from 'lucide-react';
 import { FileData } from '../types';
+import { ACCEPTED_EXTENSIONS, isAcceptedFile, readSourceFile } from '../services/ingest';
+import { selectedPages } from '../services/pdf';
+import PdfPagePicker from './PdfPagePicker';
 
 interface FileUploadProps {
-  onFileSelect: (file: FileData | null) => void;
-  selectedFile: FileData | null;
+  onFilesChange: (files: FileData[]) => void;
+  files: FileData[];
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFilesChange, files }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pickerIndex, setPickerIndex] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleFile = (file: File) => {
-    if (!file) return;
-    
-    // Check file type
-    const validTypes = ['application/pdf', 'text/plain', 'text/markdown'];
-    const validExtensions = ['.pdf', '.txt', '.md'];
-    
-    // Simple validation
-    const isValid = validTypes.includes(file.type) || validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
-    
-    if (!isValid) {
-      alert("Please upload a PDF or text file (.txt, .md)");
-      return;
+  const handleFiles = async (fileList: FileList) => {
+    const all = Array.from(fileList);
+    const errors: string[] = [];
+    const unsupported = all.filter(file => !isAcceptedFile(file));
+    if (unsupported.length) {
+      errors.push(`Unsupported file type: ${unsupported.map(f => f.name).join(', ')}`);
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const result = e.target?.result as string;
-      // Extract base64 part
-      const base64Data = result.split(',')[1];
-      
-      onFileSelect({
-        name: file.name,
-        mimeType: file.type || 'text/plain', // Fallback
-        data: base64Data
-      });
-    };
-    reader.readAsDataURL(file);
+    // Read every file, keeping the ones that worked when others fail
+    const results = await Promise.allSettled(all.filter(isAcceptedFile).map(readSourceFile));
+    const added: FileData[] = [];
+    results.forEach(result => {
+      if (result.status === 'fulfilled') added.push(result.value);
+      else errors.push(result.reason?.message || String(result.reason));
+    });
+
+    setError(errors.length ? errors.join(' ') : null);
+    if (added.length) onFilesChange([...files, ...added]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -54,41 +50,117 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile }) =
   const onDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      handleFiles(e.dataTransfer.files);
     }
   };
 
-  const clearFile = () => {
-    onFileSelect(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeFile = (index: number) => {
+    onFilesChange(files.filter((_, i) => i !== index));
+  };
+
+  const setPageSelection = (index: number, pageSelection: string | undefined) => {
+    onFilesChange(files.map((file, i) => i === index ? { ...file, pageSelection } : file));
+  };
+
+  const describeFile = (file: FileData) => {
+    const format = file.sourceFormat || file.mimeType.split('/')[1];
+    if (!file.pages) return format;
+    const count = selectedPages(file).length;
+    return `${format} · ${count === file.pages.length ? `${count} pages` : `${count}/${file.pages.length} pages`}`;
+  };
+
+  const moveFile = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= files.length) return;
+    const next = [...files];
+    [next[index], next[target]] = [next[target], next[index]];
+    onFilesChange(next);
   };
 
   return (
-    <div className="w-full">
-      {!selectedFile ? (
-        <div
-          onClick={() => fileInputRef.current?.click()}
-          onDragOver={onDragOver}
-          onDragLeave={onDragLeave}
-          onDrop={onDrop}
-          className={`
-            relative cursor-pointer group
-            flex flex-col items-center justify-center
-            w-full h-32 rounded-xl border-2 border-dashed transition-all duration-200
-            ${isDragging 
-              ? 'border-indigo-500 bg-indigo-50' 
-              : 'border-slate-300 hover:border-indigo-400 hover:bg-slate-50'
-            }
-          `}
-        >
-          <input
-            type="file"
-            ref={fileInputRef}
-            className="hidden"
-            accept=".pdf,.txt,.md"
-            onChange={(e) => e.target.files && handleFile(e.target.files[0])}
-          />
+    <div className="w-full space-y-2">
+      {files.map((file, index) => (
+        <div key={`${index}-${file.name}`} className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-lg shadow-sm">
+          <div className="flex items-center space-x-3 overflow-hidden">
+            <div className="p-2 bg-indigo-50 text-indigo-600 rounded-lg">
+              {file.mimeType.includes('pdf') ? <FileType size={20} /> : file.mimeType.startsWith('image/') ? <ImageIcon size={20} /> : <FileText size={20} />}
+            </div>
+            <div className="truncate">
+              <p className="text-sm font-medium text-slate-700 truncate max-w-[160px]">{file.name}</p>
+              <p className="text-xs text-slate-500 uppercase">S{index + 1} · {describeFile(file)}</p>
+            </div>
+          </div>
+          <div className="flex items-center">
+            {file.mimeType === 'application/pdf' && (
+              <button
+                onClick={() => setPickerIndex(index)}
+                className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                title="Preview and choose pages"
+              >
+                <BookOpen size={16} />
+              </button>
+            )}
+            {files.length > 1 && (
+              <div className="flex flex-col mr-1">
+                <button
+                  onClick={() => moveFile(index, -1)}
+                  disabled={index === 0}
+                  className="text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                  title="Move up"
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  onClick={() => moveFile(index, 1)}
+                  disabled={index === files.length - 1}
+                  className="text-slate-400 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-slate-400"
+                  title="Move down"
+                >
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+            )}
+            <button 
+              onClick={() => removeFile(index)}
+              className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
+              title="Remove"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={onDragOver}
+        onDragLeave={onDragLeave}
+        onDrop={onDrop}
+        className={`
+          relative cursor-pointer group
+          flex flex-col items-center justify-center
+          w-full ${files.length ? 'h-14' : 'h-32'} rounded-xl border-2 border-dashed transition-all duration-200
+          ${isDragging 
+            ? 'border-indigo-500 bg-indigo-50' 
+            : 'border-slate-300 hover:border-indigo-400 hover:bg-slate-50'
+          }
+        `}
+      >
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept={ACCEPTED_EXTENSIONS.join(',')}
+          multiple
+          onChange={(e) => e.target.files && handleFiles(e.target.files)}
+        />
+        {files.length > 0 ? (
+          <div className="flex items-center gap-2 text-sm text-slate-500 group-hover:text-indigo-500">
+            <UploadCloud size={18} />
+            <span className="font-medium">Add more documents</span>
+          </div>
+        ) : (
           <div className="flex flex-col items-center space-y-2 text-center p-4">
             <div className={`p-3 rounded-full ${isDragging ? 'bg-indigo-100 text-indigo-600' : 'bg-slate-100 text-slate-500 group-hover:bg-indigo-50 group-hover:text-indigo-500'} transition-colors`}>
               <UploadCloud size={24} />
@@ -97,27 +169,19 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile }) =
               <span className="font-medium text-slate-700">Click to upload</span>
               <span className="text-slate-500"> or drag and drop</span>
             </div>
-            <p className="text-xs text-slate-400">PDF, TXT, MD (Max 10MB)</p>
-          </div>
-        </div>
-      ) : (
-        <div className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-lg shadow-sm">
-          <div className="flex items-center space-x-3 overflow-hidden">
-            <div className="p-2 bg-indigo-50 text-indigo-600 rounded-lg">
-              {selectedFile.mimeType.includes('pdf') ? <FileType size={20} /> : <FileText size={20} />}
-            </div>
-            <div className="truncate">
-              <p className="text-sm font-medium text-slate-700 truncate max-w-[200px]">{selectedFile.name}</p>
-              <p className="text-xs text-slate-500 uppercase">{selectedFile.mimeType.split('/')[1]}</p>
-            </div>
+            <p className="text-xs text-slate-400">PDF, DOCX, EPUB, HTML, TXT, MD, PNG/JPG (Max 10MB each)</p>
           </div>
-          <button 
-            onClick={clearFile}
-            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-md transition-colors"
-          >
-            <X size={18} />
-          </button>
-        </div>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {pickerIndex !== null && files[pickerIndex] && (
+        <PdfPagePicker
+          file={files[pickerIndex]}
+          onChange={(pageSelection) => setPageSelection(pickerIndex, pageSelection)}
+          onClose={() => setPickerIndex(null)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Check, X } from 'lucide-react';
+
+interface FlashcardFormProps {
+  initialFront?: string;
+  initialBack?: string;
+  onSave: (front: string, back: string) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full flex-1 px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm resize-none";
+
+// In-place editor with the same footprint as a flashcard in the grid
+const FlashcardForm: React.FC<FlashcardFormProps> = ({ initialFront = '', initialBack = '', onSave, onCancel }) => {
+  const [front, setFront] = useState(initialFront);
+  const [back, setBack] = useState(initialBack);
+  const canSave = front.trim().length > 0 && back.trim().length > 0;
+
+  const save = () => {
+    if (canSave) onSave(front.trim(), back.trim());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') onCancel();
+    else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) save();
+  };
+
+  return (
+    <div className="h-64 w-full bg-white rounded-2xl shadow-md border-2 border-indigo-300 p-4 flex flex-col gap-2" onKeyDown={handleKeyDown}>
+      <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">Question</span>
+      <textarea value={front} onChange={(e) => setFront(e.target.value)} className={inputClass} autoFocus />
+      <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-wider">Answer</span>
+      <textarea value={back} onChange={(e) => setBack(e.target.value)} className={inputClass} />
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-medium transition-colors"
+        >
+          <X size={12} /> Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={!canSave}
+          className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-colors"
+        >
+          <Check size={12} /> Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardForm;
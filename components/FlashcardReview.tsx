@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import { X, CheckCircle2 } from 'lucide-react';
+import { Flashcard, ReviewGrade } from '../types';
+import { dueCards, formatInterval, previewIntervals } from '../services/scheduler';
+
+interface FlashcardReviewProps {
+  cards: Flashcard[];
+  onGrade: (cardId: string, grade: ReviewGrade) => void;
+  onExit: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; key: string; className: string }[] = [
+  { grade: 'again', label: 'Again', key: '1', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+  { grade: 'hard', label: 'Hard', key: '2', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { grade: 'good', label: 'Good', key: '3', className: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' },
+  { grade: 'easy', label: 'Easy', key: '4', className: 'bg-sky-50 text-sky-700 border-sky-200 hover:bg-sky-100' },
+];
+
+const FlashcardReview: React.FC<FlashcardReviewProps> = ({ cards, onGrade, onExit }) => {
+  // The queue is fixed when the session starts; cards graded "Again" are re-queued at the end
+  const [queue, setQueue] = useState<string[]>(() => dueCards(cards).map(card => card.id));
+  const [position, setPosition] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const currentId = queue[position];
+  const card = cards.find(c => c.id === currentId);
+  const intervals = card ? previewIntervals(card) : null;
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card || !revealed) return;
+    onGrade(card.id, grade);
+    if (grade === 'again') setQueue(prev => [...prev, card.id]);
+    setReviewedCount(count => count + 1);
+    setPosition(pos => pos + 1);
+    setRevealed(false);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      if (e.key === 'Escape') {
+        onExit();
+      } else if ((e.key === ' ' || e.key === 'Enter') && !revealed) {
+        e.preventDefault();
+        setRevealed(true);
+      } else {
+        const match = GRADES.find(g => g.key === e.key);
+        if (match) handleGrade(match.grade);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className="p-4 border-b border-slate-100 bg-white flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700">
+          Review {card ? `(${Math.min(position + 1, queue.length)} / ${queue.length})` : ''}
+        </h3>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+        >
+          <X size={14} /> End Review
+        </button>
+      </div>
+
+      {!card ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+          <CheckCircle2 size={48} className="text-green-500 mb-4" />
+          <h3 className="text-xl font-semibold text-slate-800 mb-2">
+            {reviewedCount ? 'Review complete' : 'Nothing due right now'}
+          </h3>
+          <p className="text-slate-500 text-sm mb-6">
+            {reviewedCount
+              ? `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'card' : 'cards'}.`
+              : 'All cards are scheduled for later. Come back when they are due.'}
+          </p>
+          <button
+            onClick={onExit}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Back to Cards
+          </button>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 gap-6">
+          <div className="w-full max-w-xl bg-white rounded-2xl shadow-sm border border-slate-200 p-8 min-h-[16rem] flex flex-col items-center justify-center text-center">
+            <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-4">Question</span>
+            <p className="font-medium text-slate-800 text-lg">{card.front}</p>
+            {revealed && (
+              <>
+                <div className="w-full border-t border-slate-100 my-6" />
+                <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider mb-4">Answer</span>
+                <p className="text-slate-700">{card.back}</p>
+              </>
+            )}
+          </div>
+
+          {!revealed ? (
+            <button
+              onClick={() => setRevealed(true)}
+              className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium transition-colors"
+            >
+              Show Answer <span className="text-indigo-200 text-xs ml-1">(Space)</span>
+            </button>
+          ) : (
+            <div className="grid grid-cols-4 gap-3 w-full max-w-xl">
+              {GRADES.map(({ grade, label, key, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`py-3 rounded-xl border text-sm font-medium transition-colors flex flex-col items-center ${className}`}
+                >
+                  {label}
+                  <span className="text-[10px] opacity-70">
+                    {intervals && formatInterval(intervals[grade])} · {key}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FlashcardReview;
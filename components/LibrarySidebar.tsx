@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Plus, Copy, Trash2, Edit2, Check, Library, Upload, Share2 } from 'lucide-react';
+import { StudySession } from '../types';
+import { deleteSession, duplicateSession, listSessions, renameSession, saveSession } from '../services/library';
+import { STUDY_PACK_EXTENSION, StudyPackError, parseStudyPack } from '../services/studyPack';
+
+interface LibrarySidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeSessionId: string | null;
+  onOpenSession: (session: StudySession) => void;
+  onNewSession: () => void;
+  onSessionDeleted: (id: string) => void;
+  onExportSession: (session: StudySession) => void;
+  refreshKey: number; // Bump to reload the list after the active session is saved
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
+  isOpen,
+  onClose,
+  activeSessionId,
+  onOpenSession,
+  onNewSession,
+  onSessionDeleted,
+  onExportSession,
+  refreshKey
+}) => {
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const reload = async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error("Library load error:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) reload();
+  }, [isOpen, refreshKey]);
+
+  const startRename = (session: StudySession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const commitRename = async () => {
+    if (renamingId && renameValue.trim()) {
+      await renameSession(renamingId, renameValue.trim());
+      await reload();
+    }
+    setRenamingId(null);
+  };
+
+  const handleDuplicate = async (id: string) => {
+    await duplicateSession(id);
+    await reload();
+  };
+
+  const handleDelete = async (session: StudySession) => {
+    if (!confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    await deleteSession(session.id);
+    onSessionDeleted(session.id);
+    await reload();
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const session = parseStudyPack(await file.text());
+      await saveSession(session);
+      await reload();
+      onOpenSession(session);
+    } catch (error) {
+      console.error("Study pack import error:", error);
+      setImportError(error instanceof StudyPackError ? error.message : 'Failed to import the study pack.');
+    }
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = normalizedQuery
+    ? sessions.filter(s =>
+        [s.title, s.inputText, ...s.selectedFiles.map(f => f.name), s.content?.summary]
+          .some(field => field?.toLowerCase().includes(normalizedQuery))
+      )
+    : sessions;
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <div className="w-full max-w-sm bg-white h-full shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <Library size={18} className="text-indigo-600" /> Study Library
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-slate-100">
+          <div className="flex gap-2">
+            <button
+              onClick={onNewSession}
+              className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New Session
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+              title={`Import a ${STUDY_PACK_EXTENSION} study pack`}
+            >
+              <Upload size={14} /> Import
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={`${STUDY_PACK_EXTENSION},application/json`}
+              onChange={handleImport}
+              className="hidden"
+            />
+          </div>
+          {importError && <p className="text-xs text-red-600">{importError}</p>}
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search sessions..."
+              className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {filtered.length === 0 ? (
+            <p className="text-center text-sm text-slate-400 py-10">
+              {sessions.length === 0 ? 'No saved sessions yet.' : 'No sessions match your search.'}
+            </p>
+          ) : (
+            filtered.map(session => (
+              <div
+                key={session.id}
+                className={`group p-3 rounded-lg mb-1 border transition-colors ${session.id === activeSessionId ? 'bg-indigo-50 border-indigo-200' : 'border-transparent hover:bg-slate-50'}`}
+              >
+                {renamingId === session.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 px-2 py-1 text-sm border border-indigo-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    />
+                    <button onClick={commitRename} className="p-1 text-indigo-600 hover:bg-indigo-100 rounded">
+                      <Check size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <button onClick={() => onOpenSession(session)} className="flex-1 text-left min-w-0">
+                      <p className="text-sm font-medium text-slate-800 truncate">{session.title}</p>
+                      <p className="text-xs text-slate-400">
+                        {formatDate(session.updatedAt)}
+                        {session.content ? ` · ${session.content.diagramType}` : ''}
+                        {session.chatMessages.length ? ` · ${session.chatMessages.length} messages` : ''}
+                      </p>
+                    </button>
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(session)} className="p-1 text-slate-400 hover:text-indigo-600 rounded" title="Rename">
+                        <Edit2 size={13} />
+                      </button>
+                      <button onClick={() => onExportSession(session)} className="p-1 text-slate-400 hover:text-indigo-600 rounded" title="Share">
+                        <Share2 size={13} />
+                      </button>
+                      <button onClick={() => handleDuplicate(session.id)} className="p-1 text-slate-400 hover:text-indigo-600 rounded" title="Duplicate">
+                        <Copy size={13} />
+                      </button>
+                      <button onClick={() => handleDelete(session)} className="p-1 text-slate-400 hover:text-red-500 rounded" title="Delete">
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+      <div className="flex-1 bg-black/30 backdrop-blur-sm" onClick={onClose} />
+    </div>
+  );
+};
+
+export default LibrarySidebar;
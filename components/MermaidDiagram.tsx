@@ -1,17 +1,54 @@
 import React, { useEffect, useRef, useState } from 'react';
 import mermaid from 'mermaid';
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch';
-import { ZoomIn, ZoomOut, Maximize, AlertTriangle, Code, Copy } from 'lucide-react';
+import { ZoomIn, ZoomOut, Maximize, AlertTriangle, Code, Copy, Wand2, Loader2 } from 'lucide-react';
+import DiagramExportMenu from './DiagramExportMenu';
+import { mapRenderedNodes, parseDiagram } from '../services/diagramModel';
+
+const HIGHLIGHT_FILTER = 'drop-shadow(0 0 3px #6366f1) drop-shadow(0 0 6px #6366f1)';
 
 interface MermaidDiagramProps {
   code: string;
   onError?: (error: any) => void;
+  // Self-healing: ask the model to repair code that fails to render
+  onFix?: () => void;
+  isFixing?: boolean;
+  fixError?: string | null;
+  autoFix?: boolean;
+  onAutoFixChange?: (enabled: boolean) => void;
+  exportFileName?: string;
+  // Node interaction, available for mindmaps and flowcharts
+  onNodeClick?: (nodeId: string, event: React.MouseEvent) => void;
+  onNodeDrop?: (sourceId: string, targetId: string) => void;
+  onBackgroundClick?: () => void;
+  highlightedNodeIds?: string[];
+  panningDisabled?: boolean;
 }
 
-const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({
+  code,
+  onError,
+  onFix,
+  isFixing = false,
+  fixError,
+  autoFix = false,
+  onAutoFixChange,
+  exportFileName = 'studysketch_diagram',
+  onNodeClick,
+  onNodeDrop,
+  onBackgroundClick,
+  highlightedNodeIds,
+  panningDisabled = false
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [svgContent, setSvgContent] = useState<string>('');
   const [renderError, setRenderError] = useState<string | null>(null);
+  const renderedCodeRef = useRef('');
+  const nodeMapRef = useRef<Map<Element, string>>(new Map());
+  const dragSourceRef = useRef<string | null>(null);
+  const suppressClickRef = useRef(false);
+  const highlightKey = (highlightedNodeIds || []).join('\n');
+  const isInteractive = Boolean(onNodeClick || onNodeDrop);
 
   useEffect(() => {
     mermaid.initialize({
@@ -30,15 +67,20 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
   }, []);
 
   useEffect(() => {
+    // A slow render of older code must not replace, or trigger a fix of, a newer one
+    let cancelled = false;
     const renderDiagram = async () => {
       setRenderError(null);
-      if (!code || !containerRef.current) return;
+      if (!code) return;
 
       try {
-        const id = `mermaid-${Date.now()}`;
+        const id = `mermaid-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
         const { svg } = await mermaid.render(id, code);
+        if (cancelled) return;
+        renderedCodeRef.current = code;
         setSvgContent(svg);
       } catch (error: any) {
+        if (cancelled) return;
         console.error("Mermaid Render Error:", error);
         setSvgContent('');
         setRenderError(error.message || "Failed to render diagram");
@@ -47,8 +89,62 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
     };
 
     renderDiagram();
+    return () => {
+      cancelled = true;
+    };
   }, [code, onError]);
 
+  // Map rendered node groups to model ids and apply highlight styles after every render
+  useEffect(() => {
+    const svg = containerRef.current?.querySelector('svg');
+    const model = svg ? parseDiagram(renderedCodeRef.current) : null;
+    nodeMapRef.current = svg && model ? mapRenderedNodes(svg, model) : new Map();
+
+    const highlighted = new Set(highlightKey ? highlightKey.split('\n') : []);
+    nodeMapRef.current.forEach((nodeId, element) => {
+      const el = element as SVGGElement;
+      el.style.filter = highlighted.has(nodeId) ? HIGHLIGHT_FILTER : '';
+      el.style.cursor = isInteractive ? 'pointer' : '';
+    });
+  }, [svgContent, highlightKey, isInteractive]);
+
+  const nodeIdAt = (target: EventTarget | null): string | null => {
+    let element = target instanceof Element ? target : null;
+    while (element && element !== containerRef.current) {
+      const nodeId = nodeMapRef.current.get(element);
+      if (nodeId) return nodeId;
+      element = element.parentElement;
+    }
+    return null;
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
+    const nodeId = nodeIdAt(e.target);
+    if (nodeId) onNodeClick?.(nodeId, e);
+    else onBackgroundClick?.();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragSourceRef.current = onNodeDrop ? nodeIdAt(e.target) : null;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const sourceId = dragSourceRef.current;
+    dragSourceRef.current = null;
+    if (!sourceId || !onNodeDrop) return;
+
+    // Pointer capture can retarget the event, so hit-test the release point instead
+    const targetId = nodeIdAt(document.elementFromPoint(e.clientX, e.clientY));
+    if (targetId && targetId !== sourceId) {
+      suppressClickRef.current = true;
+      onNodeDrop(sourceId, targetId);
+    }
+  };
+
   const handleCopyCode = () => {
     navigator.clipboard.writeText(code);
     alert("Mermaid code copied to clipboard");
@@ -69,9 +165,35 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
            <AlertTriangle size={32} />
          </div>
          <h3 className="text-lg font-semibold text-red-800 mb-2">Visualization Error</h3>
-         <p className="text-red-600 mb-6 max-w-md text-sm">
-           The AI generated diagram code contains syntax errors. Please try generating again with a clearer prompt, or copy the code below to fix it manually.
+         <p className="text-red-600 mb-2 max-w-md text-sm">
+           The AI generated diagram code contains syntax errors. Let the AI fix it, try generating again with a clearer prompt, or copy the code below to fix it manually.
          </p>
+         <p className="text-red-500 mb-6 max-w-md text-xs font-mono break-words">{renderError}</p>
+
+         {onFix && (
+           <div className="flex flex-col items-center gap-3 mb-6">
+             <button
+               onClick={onFix}
+               disabled={isFixing}
+               className="flex items-center gap-2 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg text-sm font-medium shadow-sm transition-colors"
+             >
+               {isFixing ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+               {isFixing ? 'Fixing diagram...' : 'Fix diagram'}
+             </button>
+             {onAutoFixChange && (
+               <label className="flex items-center gap-2 text-xs text-red-700 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={autoFix}
+                   onChange={(e) => onAutoFixChange(e.target.checked)}
+                   className="rounded border-red-300 text-red-600 focus:ring-red-500"
+                 />
+                 Fix render errors automatically
+               </label>
+             )}
+             {fixError && <p className="text-xs text-red-700 max-w-md">{fixError}</p>}
+           </div>
+         )}
          
          <div className="w-full max-w-lg bg-white rounded-lg border border-red-200 overflow-hidden text-left shadow-sm">
            <div className="bg-red-50 px-4 py-2 border-b border-red-100 flex justify-between items-center">
@@ -101,6 +223,7 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
         maxScale={4}
         centerOnInit={true}
         wheel={{ step: 0.1 }}
+        panning={{ disabled: panningDisabled }}
       >
         {({ zoomIn, zoomOut, resetTransform }) => (
            <>
@@ -114,6 +237,7 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
                <button onClick={() => resetTransform()} className="p-2 hover:bg-slate-100 rounded text-slate-600" title="Fit to Screen">
                  <Maximize size={18} />
                </button>
+               <DiagramExportMenu code={code} fileName={exportFileName} />
             </div>
             
             <TransformComponent
@@ -125,6 +249,9 @@ const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code, onError }) => {
                 className="mermaid-container w-full h-full flex items-center justify-center p-8"
                 dangerouslySetInnerHTML={{ __html: svgContent }}
                 style={{ minHeight: '400px' }}
+                onClick={isInteractive || onBackgroundClick ? handleClick : undefined}
+                onPointerDown={onNodeDrop ? handlePointerDown : undefined}
+                onPointerUp={onNodeDrop ? handlePointerUp : undefined}
               />
             </TransformComponent>
           </>
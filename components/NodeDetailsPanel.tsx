@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { X, Loader2, GitBranchPlus, MessageCircleQuestion, RotateCw } from 'lucide-react';
+import { Flashcard } from '../types';
+import CitedMarkdown from './CitedMarkdown';
+import { Citation } from '../services/citations';
+import { SourceDocument } from '../services/sources';
+import { cardsMentioning, summaryExcerpts } from '../services/concepts';
+
+interface NodeDetailsPanelProps {
+  label: string;
+  explanation?: string;
+  isExplaining: boolean;
+  isExpanding: boolean;
+  error: string | null;
+  summary: string;
+  flashcards: Flashcard[];
+  sources: SourceDocument[]; // Cited by the explanation
+  summarySources: SourceDocument[]; // Cited by the summary excerpts
+  onOpenCitation: (citation: Citation, sources: SourceDocument[]) => void;
+  onRetry: () => void;
+  onExpand: () => void;
+  onAsk: () => void;
+  onClose: () => void;
+}
+
+const sectionTitle = "text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5";
+
+// What the study material says about one diagram node
+const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
+  label,
+  explanation,
+  isExplaining,
+  isExpanding,
+  error,
+  summary,
+  flashcards,
+  sources,
+  summarySources,
+  onOpenCitation,
+  onRetry,
+  onExpand,
+  onAsk,
+  onClose
+}) => {
+  const excerpts = useMemo(() => summaryExcerpts(summary, label), [summary, label]);
+  const cards = useMemo(() => cardsMentioning(flashcards, label), [flashcards, label]);
+
+  return (
+    <div className="w-80 max-h-full bg-white rounded-xl shadow-lg border border-slate-200 flex flex-col overflow-hidden">
+      <div className="px-4 py-3 border-b border-slate-100 bg-slate-50/50 flex items-start justify-between gap-2">
+        <h3 className="font-semibold text-slate-800 text-sm">{label}</h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-200 rounded-full transition-colors flex-shrink-0">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div>
+          <p className={sectionTitle}>Explanation</p>
+          {isExplaining ? (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 size={14} className="animate-spin" /> Explaining...
+            </div>
+          ) : explanation ? (
+            <div className="prose prose-sm prose-slate max-w-none">
+              <CitedMarkdown
+                content={explanation}
+                sources={sources}
+                onOpenCitation={(citation) => onOpenCitation(citation, sources)}
+              />
+            </div>
+          ) : (
+            <button onClick={onRetry} className="flex items-center gap-1 text-xs text-indigo-600 hover:underline">
+              <RotateCw size={12} /> Try again
+            </button>
+          )}
+        </div>
+
+        {excerpts.length > 0 && (
+          <div>
+            <p className={sectionTitle}>In the summary</p>
+            <div className="space-y-2">
+              {excerpts.map((excerpt, i) => (
+                <div key={i} className="prose prose-sm prose-slate max-w-none border-l-2 border-indigo-200 pl-3">
+                  <CitedMarkdown
+                    content={excerpt}
+                    sources={summarySources}
+                    onOpenCitation={(citation) => onOpenCitation(citation, summarySources)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {cards.length > 0 && (
+          <div>
+            <p className={sectionTitle}>Flashcards ({cards.length})</p>
+            <ul className="space-y-2">
+              {cards.map(card => (
+                <li key={card.id} className="rounded-lg border border-slate-200 p-2 text-xs">
+                  <p className="font-medium text-slate-800">{card.front}</p>
+                  <p className="text-slate-500 mt-1">{card.back}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg px-3 py-2">{error}</p>
+        )}
+      </div>
+
+      <div className="p-3 border-t border-slate-100 flex gap-2">
+        <button
+          onClick={onExpand}
+          disabled={isExpanding}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-colors"
+        >
+          {isExpanding ? <Loader2 size={12} className="animate-spin" /> : <GitBranchPlus size={12} />} Expand this node
+        </button>
+        <button
+          onClick={onAsk}
+          className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-xs font-medium transition-colors"
+        >
+          <MessageCircleQuestion size={12} /> Ask about this
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NodeDetailsPanel;
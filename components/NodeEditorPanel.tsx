@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Merge, MousePointerClick } from 'lucide-react';
+import { DiagramModel } from '../services/diagramModel';
+
+interface NodeEditorPanelProps {
+  model: DiagramModel;
+  selectedNodeIds: string[];
+  onRename: (nodeId: string, label: string) => void;
+  onAddChild: (parentId: string) => void;
+  onDelete: (nodeId: string) => void;
+  onMerge: (targetId: string, sourceId: string) => void;
+}
+
+const NodeEditorPanel: React.FC<NodeEditorPanelProps> = ({
+  model,
+  selectedNodeIds,
+  onRename,
+  onAddChild,
+  onDelete,
+  onMerge
+}) => {
+  const selected = selectedNodeIds
+    .map(id => model.nodes.find(n => n.id === id))
+    .filter((n): n is NonNullable<typeof n> => Boolean(n));
+  const primary = selected[0];
+  const [label, setLabel] = useState(primary?.label || '');
+
+  useEffect(() => {
+    setLabel(primary?.label || '');
+  }, [primary?.id, primary?.label]);
+
+  const commitRename = () => {
+    if (primary && label.trim() && label !== primary.label) onRename(primary.id, label.trim());
+  };
+
+  if (!primary) {
+    return (
+      <div className="bg-white/90 backdrop-blur rounded-xl shadow border border-slate-200 px-4 py-3 text-xs text-slate-500 flex items-center gap-2">
+        <MousePointerClick size={14} className="text-indigo-500" />
+        Click a node to edit it. Shift-click a second node to merge. Drag a node onto another to re-parent it.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white/95 backdrop-blur rounded-xl shadow border border-slate-200 p-3 space-y-2 w-80">
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commitRename}
+        onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+        className="w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-sm"
+        placeholder="Node label"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onAddChild(primary.id)}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-lg text-xs font-medium transition-colors"
+        >
+          <Plus size={12} /> Add child
+        </button>
+        <button
+          onClick={() => onDelete(primary.id)}
+          className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-red-50 hover:bg-red-100 text-red-700 rounded-lg text-xs font-medium transition-colors"
+        >
+          <Trash2 size={12} /> Delete
+        </button>
+        {selected.length === 2 && (
+          <button
+            onClick={() => onMerge(selected[0].id, selected[1].id)}
+            className="flex-1 flex items-center justify-center gap-1 px-2 py-1.5 bg-purple-50 hover:bg-purple-100 text-purple-700 rounded-lg text-xs font-medium transition-colors"
+            title={`Merge "${selected[1].label}" into "${selected[0].label}"`}
+          >
+            <Merge size={12} /> Merge
+          </button>
+        )}
+      </div>
+      {selected.length === 2 && (
+        <p className="text-[11px] text-slate-500 truncate">
+          Merge "{selected[1].label}" into "{selected[0].label}"
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NodeEditorPanel;
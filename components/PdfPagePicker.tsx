@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { RenderTask } from 'pdfjs-dist/types/src/display/api';
+import { FileData } from '../types';
+import { formatPageSelection, openPdf, parsePageSelection, renderPdfPage } from '../services/pdf';
+
+interface PdfPagePickerProps {
+  file: FileData;
+  onChange: (pageSelection: string | undefined) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_WIDTH = 420;
+
+const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, onChange, onClose }) => {
+  const [doc, setDoc] = useState<PDFDocumentProxy | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [previewPage, setPreviewPage] = useState(1);
+  const [selection, setSelection] = useState(file.pageSelection || '');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const pages = file.pages || [];
+  const pageCount = doc?.numPages || pages.length;
+  const selected = selection.trim() ? parsePageSelection(selection, pageCount) : null;
+  const isValid = !selection.trim() || selected !== null;
+
+  useEffect(() => {
+    let loaded: PDFDocumentProxy | null = null;
+    let cancelled = false;
+    openPdf(file.data)
+      .then(pdf => {
+        if (cancelled) {
+          pdf.destroy();
+          return;
+        }
+        loaded = pdf;
+        setDoc(pdf);
+      })
+      .catch(error => {
+        console.error("PDF Preview Error:", error);
+        setLoadError('Could not open this PDF for preview.');
+      });
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [file.data]);
+
+  useEffect(() => {
+    if (!doc || !canvasRef.current) return;
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    renderPdfPage(doc, previewPage, canvasRef.current, PREVIEW_WIDTH)
+      .then(renderTask => {
+        task = renderTask;
+        if (cancelled) renderTask.cancel();
+        return renderTask.promise;
+      })
+      .catch(error => {
+        if (error?.name !== 'RenderingCancelledException') console.error("PDF Render Error:", error);
+      });
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [doc, previewPage]);
+
+  const togglePage = (page: number) => {
+    const current = new Set(selected || Array.from({ length: pageCount }, (_, i) => i + 1));
+    if (current.has(page)) current.delete(page);
+    else current.add(page);
+    // At least one page has to stay selected, an empty selection means every page
+    if (current.size === 0) return;
+    setSelection(current.size === pageCount ? '' : formatPageSelection(Array.from(current)));
+  };
+
+  const isSelected = (page: number) => !selected || selected.includes(page);
+
+  const handleDone = () => {
+    if (!isValid) return;
+    onChange(selection.trim() ? formatPageSelection(selected!) : undefined);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-4xl h-[85vh] shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 truncate">Pages · {file.name}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          <div className="w-72 border-r border-slate-200 flex flex-col">
+            <div className="p-3 border-b border-slate-100 space-y-1">
+              <label className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Pages to process</label>
+              <input
+                value={selection}
+                onChange={(e) => setSelection(e.target.value)}
+                disabled={pages.length === 0}
+                placeholder={pageCount ? `All (1-${pageCount})` : 'All'}
+                className={`w-full px-3 py-2 rounded-lg border bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 text-sm font-mono ${isValid ? 'border-slate-200 focus:border-indigo-500' : 'border-red-300 focus:border-red-500'}`}
+              />
+              {!isValid && <p className="text-[11px] text-red-600">Use page numbers and ranges between 1 and {pageCount}, e.g. 3-5, 9</p>}
+              {pages.length === 0 && (
+                <p className="text-[11px] text-slate-500">No text layer was found, so the whole PDF is sent to the model.</p>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => {
+                const headings = pages[page - 1]?.headings || [];
+                return (
+                  <div
+                    key={page}
+                    onClick={() => setPreviewPage(page)}
+                    className={`px-3 py-2 flex items-start gap-2 cursor-pointer border-b border-slate-50 ${previewPage === page ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    {pages.length > 0 && (
+                      <input
+                        type="checkbox"
+                        checked={isSelected(page)}
+                        onChange={() => togglePage(page)}
+                        onClick={(e) => e.stopPropagation()}
+                        className="mt-0.5 accent-indigo-600"
+                      />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-slate-700">Page {page}</p>
+                      {headings.slice(0, 2).map((heading, i) => (
+                        <p key={i} className="text-[11px] text-slate-500 truncate">{heading}</p>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-auto bg-slate-100 flex items-start justify-center p-6">
+            {loadError ? (
+              <p className="text-sm text-red-600">{loadError}</p>
+            ) : !doc ? (
+              <Loader2 size={24} className="animate-spin text-indigo-500 mt-12" />
+            ) : (
+              <canvas ref={canvasRef} className="bg-white shadow-md" />
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-200 flex items-center justify-between">
+          <span className="text-sm text-slate-500">
+            {pages.length > 0 && `${selected ? selected.length : pageCount} of ${pageCount} pages selected`}
+          </span>
+          <button
+            onClick={handleDone}
+            disabled={!isValid}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Server, Database } from 'lucide-react';
+import { ProviderId, ProviderSettings as Settings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/providers';
+import { cacheStats, clearResponseCache } from '../services/responseCache';
+
+interface ProviderSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+}
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm";
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ settings, onChange }) => {
+  const [cache, setCache] = useState<{ entries: number; bytes: number } | null>(null);
+
+  const loadCacheStats = async () => {
+    try {
+      setCache(await cacheStats());
+    } catch (error) {
+      console.error("Cache stats error:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadCacheStats();
+  }, []);
+
+  const handleClearCache = async () => {
+    await clearResponseCache();
+    await loadCacheStats();
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    const option = PROVIDER_OPTIONS.find(p => p.id === id)!;
+    onChange({
+      provider: id,
+      model: option.defaultModel,
+      baseUrl: option.defaultBaseUrl,
+      apiKey: id === settings.provider ? settings.apiKey : undefined,
+      embeddingModel: id === settings.provider ? settings.embeddingModel : undefined
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Server size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+        <select
+          value={settings.provider}
+          onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+          className={`${inputClass} pl-9`}
+        >
+          {PROVIDER_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.provider !== 'mock' && (
+        <input
+          type="text"
+          value={settings.model}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          placeholder="Model name"
+          className={inputClass}
+        />
+      )}
+
+      {settings.provider === 'openai' && (
+        <>
+          <input
+            type="text"
+            value={settings.baseUrl || ''}
+            onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+            placeholder="http://localhost:11434/v1"
+            className={`${inputClass} font-mono`}
+          />
+          <input
+            type="password"
+            value={settings.apiKey || ''}
+            onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+            placeholder="API key (optional)"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={settings.embeddingModel || ''}
+            onChange={(e) => onChange({ ...settings, embeddingModel: e.target.value })}
+            placeholder="Embedding model (optional), e.g. nomic-embed-text"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      {cache && (
+        <div className="flex items-center gap-2 text-[11px] text-slate-500">
+          <Database size={12} className="flex-shrink-0" />
+          <span className="flex-1">
+            Response cache: {cache.entries} {cache.entries === 1 ? 'entry' : 'entries'}, {(cache.bytes / 1024 / 1024).toFixed(1)} MB
+          </span>
+          <button
+            onClick={handleClearCache}
+            disabled={cache.entries === 0}
+            className="font-medium text-indigo-600 hover:underline disabled:text-slate-400 disabled:no-underline"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
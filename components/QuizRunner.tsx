@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { X, Timer, CheckCircle2, XCircle, Trophy, RotateCcw, RefreshCw, BookOpen, GitBranch, Loader2 } from 'lucide-react';
+import { QuizQuestion, QuizResponse } from '../types';
+import { DiagramModel } from '../services/diagramModel';
+import {
+  QuizResult,
+  SECONDS_PER_QUESTION,
+  correctAnswerText,
+  findDiagramNode,
+  findSummaryHeading,
+  isCorrect,
+  quizScore,
+  responseText
+} from '../services/quiz';
+
+interface QuizRunnerProps {
+  questions: QuizQuestion[];
+  result: QuizResult | null;
+  summary: string;
+  diagramModel: DiagramModel | null;
+  isGenerating: boolean;
+  onFinish: (result: QuizResult) => void;
+  onRetake: () => void;
+  onNewQuiz: () => void;
+  onShowSummaryHeading: (heading: string) => void;
+  onShowDiagramNode: (nodeId: string) => void;
+}
+
+const TYPE_LABELS: Record<QuizQuestion['type'], string> = {
+  'multiple-choice': 'Multiple choice',
+  'cloze': 'Fill in the blank',
+  'true-false': 'True or false',
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.max(0, seconds) % 60).padStart(2, '0')}`;
+
+const QuizRunner: React.FC<QuizRunnerProps> = ({
+  questions,
+  result,
+  summary,
+  diagramModel,
+  isGenerating,
+  onFinish,
+  onRetake,
+  onNewQuiz,
+  onShowSummaryHeading,
+  onShowDiagramNode
+}) => {
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [position, setPosition] = useState(0);
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [checked, setChecked] = useState(false);
+
+  const timeLimit = questions.length * SECONDS_PER_QUESTION;
+  const elapsed = startedAt ? Math.floor((now - startedAt) / 1000) : 0;
+  const remaining = timeLimit - elapsed;
+  const question = questions[position];
+  const response = question ? responses[question.id] : undefined;
+
+  const finish = (timedOut: boolean) => {
+    onFinish({ responses, elapsedSeconds: Math.min(elapsed, timeLimit), timedOut });
+    setStartedAt(null);
+  };
+
+  const start = () => {
+    setResponses({});
+    setPosition(0);
+    setChecked(false);
+    setNow(Date.now());
+    setStartedAt(Date.now());
+    onRetake();
+  };
+
+  useEffect(() => {
+    if (!startedAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [startedAt]);
+
+  useEffect(() => {
+    if (startedAt && remaining <= 0) finish(true);
+  });
+
+  const respond = (value: QuizResponse) => {
+    if (checked || !question) return;
+    setResponses(prev => ({ ...prev, [question.id]: value }));
+  };
+
+  const next = () => {
+    if (position + 1 >= questions.length) {
+      finish(false);
+    } else {
+      setPosition(position + 1);
+      setChecked(false);
+    }
+  };
+
+  // Results screen
+  if (result && !startedAt) {
+    const score = quizScore(questions, result);
+    const missed = questions.filter(q => !isCorrect(q, result.responses[q.id]));
+    return (
+      <div className="absolute inset-0 flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-white flex justify-between items-center">
+          <h3 className="font-semibold text-slate-700">Quiz Results</h3>
+          <div className="flex gap-2">
+            <button
+              onClick={start}
+              className="flex items-center gap-2 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              <RotateCcw size={14} /> Retake
+            </button>
+            <button
+              onClick={onNewQuiz}
+              disabled={isGenerating}
+              className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+            >
+              {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />} New Quiz
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="max-w-2xl mx-auto">
+            <div className="bg-white rounded-2xl border border-slate-200 p-6 text-center mb-6">
+              <Trophy size={40} className={`mx-auto mb-3 ${score === questions.length ? 'text-amber-500' : 'text-indigo-400'}`} />
+              <p className="text-3xl font-bold text-slate-800">{score} / {questions.length}</p>
+              <p className="text-sm text-slate-500 mt-1">
+                {Math.round((score / questions.length) * 100)}% correct in {formatTime(result.elapsedSeconds)}
+                {result.timedOut && ' · time ran out'}
+              </p>
+            </div>
+
+            {missed.length === 0 ? (
+              <p className="text-center text-sm text-slate-500">No mistakes, nothing to review.</p>
+            ) : (
+              <>
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Review missed questions ({missed.length})</h4>
+                <ul className="space-y-3">
+                  {missed.map(q => {
+                    const heading = q.summaryHeading ? findSummaryHeading(summary, q.summaryHeading) : null;
+                    const nodeId = q.diagramNode && diagramModel ? findDiagramNode(diagramModel, q.diagramNode) : null;
+                    return (
+                      <li key={q.id} className="bg-white rounded-xl border border-slate-200 p-4 text-sm">
+                        <p className="font-medium text-slate-800 mb-2">{q.prompt}</p>
+                        <p className="text-red-600 flex items-start gap-1.5">
+                          <XCircle size={14} className="mt-0.5 flex-shrink-0" /> Your answer: {responseText(q, result.responses[q.id])}
+                        </p>
+                        <p className="text-green-700 flex items-start gap-1.5">
+                          <CheckCircle2 size={14} className="mt-0.5 flex-shrink-0" /> Correct answer: {correctAnswerText(q)}
+                        </p>
+                        <p className="text-slate-600 mt-2">{q.explanation}</p>
+                        {(heading || nodeId) && (
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {heading && (
+                              <button
+                                onClick={() => onShowSummaryHeading(heading)}
+                                className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-50 text-indigo-700 hover:bg-indigo-100 text-xs font-medium transition-colors"
+                              >
+                                <BookOpen size={12} /> {heading}
+                              </button>
+                            )}
+                            {nodeId && (
+                              <button
+                                onClick={() => onShowDiagramNode(nodeId)}
+                                className="flex items-center gap-1 px-2 py-1 rounded-md bg-indigo-50 text-indigo-700 hover:bg-indigo-100 text-xs font-medium transition-colors"
+                              >
+                                <GitBranch size={12} /> Show in diagram
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Start screen
+  if (!startedAt || !question) {
+    const counts = questions.reduce<Record<string, number>>((acc, q) => ({ ...acc, [q.type]: (acc[q.type] || 0) + 1 }), {});
+    return (
+      <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center">
+        <Timer size={48} className="text-indigo-400 mb-4" />
+        <h3 className="text-xl font-semibold text-slate-800 mb-2">{questions.length} question quiz</h3>
+        <p className="text-slate-500 text-sm mb-1">
+          {Object.entries(counts).map(([type, count]) => `${count} ${TYPE_LABELS[type as QuizQuestion['type']].toLowerCase()}`).join(' · ')}
+        </p>
+        <p className="text-slate-500 text-sm mb-6">You have {formatTime(timeLimit)} to finish.</p>
+        <div className="flex gap-3">
+          <button
+            onClick={start}
+            className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-medium transition-colors"
+          >
+            Start Quiz
+          </button>
+          <button
+            onClick={onNewQuiz}
+            disabled={isGenerating}
+            className="flex items-center gap-2 px-4 py-3 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 rounded-xl font-medium transition-colors"
+          >
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} New Quiz
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const correct = checked && isCorrect(question, response);
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className="p-4 border-b border-slate-100 bg-white flex justify-between items-center">
+        <h3 className="font-semibold text-slate-700">Question {position + 1} / {questions.length}</h3>
+        <div className="flex items-center gap-3">
+          <span className={`flex items-center gap-1 font-mono text-sm ${remaining <= 30 ? 'text-red-600' : 'text-slate-600'}`}>
+            <Timer size={14} /> {formatTime(remaining)}
+          </span>
+          <button
+            onClick={() => finish(false)}
+            className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            <X size={14} /> End Quiz
+          </button>
+        </div>
+      </div>
+      <div className="h-1 bg-slate-100">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(position / questions.length) * 100}%` }} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-6 gap-6">
+        <div className="w-full max-w-xl bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
+          <span className="text-xs font-bold text-indigo-500 uppercase tracking-wider">{TYPE_LABELS[question.type]}</span>
+          <p className="font-medium text-slate-800 text-lg mt-3 mb-6">{question.prompt}</p>
+
+          {question.type === 'multiple-choice' && (
+            <div className="space-y-2">
+              {question.options.map((option, index) => {
+                const state = checked
+                  ? index === question.answerIndex ? 'border-green-400 bg-green-50' : index === response ? 'border-red-300 bg-red-50' : 'border-slate-200'
+                  : index === response ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50';
+                return (
+                  <button
+                    key={index}
+                    onClick={() => respond(index)}
+                    className={`w-full text-left px-4 py-3 rounded-xl border text-sm transition-colors ${state}`}
+                  >
+                    <span className="font-semibold text-slate-400 mr-2">{String.fromCharCode(65 + index)}.</span>
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {question.type === 'true-false' && (
+            <div className="grid grid-cols-2 gap-3">
+              {[true, false].map(value => {
+                const state = checked
+                  ? value === question.answer ? 'border-green-400 bg-green-50' : value === response ? 'border-red-300 bg-red-50' : 'border-slate-200'
+                  : value === response ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50';
+                return (
+                  <button
+                    key={String(value)}
+                    onClick={() => respond(value)}
+                    className={`py-3 rounded-xl border text-sm font-medium transition-colors ${state}`}
+                  >
+                    {value ? 'True' : 'False'}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {question.type === 'cloze' && (
+            <input
+              type="text"
+              autoFocus
+              value={typeof response === 'string' ? response : ''}
+              onChange={(e) => respond(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && typeof response === 'string' && response.trim()) {
+                  checked ? next() : setChecked(true);
+                }
+              }}
+              disabled={checked}
+              placeholder="Type the missing term..."
+              className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 text-sm"
+            />
+          )}
+
+          {checked && (
+            <div className={`mt-6 p-4 rounded-xl text-sm ${correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+              <p className="font-semibold flex items-center gap-1.5 mb-1">
+                {correct ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+                {correct ? 'Correct' : `Incorrect · ${correctAnswerText(question)}`}
+              </p>
+              <p>{question.explanation}</p>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => checked ? next() : setChecked(true)}
+          disabled={response === undefined || response === ''}
+          className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+        >
+          {!checked ? 'Check Answer' : position + 1 >= questions.length ? 'See Results' : 'Next Question'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default QuizRunner;
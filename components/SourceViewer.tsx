@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { Citation, citationLabel, locateCitation } from '../services/citations';
+import { SourceDocument } from '../services/sources';
+import { openPdf, renderPdfPage } from '../services/pdf';
+
+interface SourceViewerProps {
+  source: SourceDocument;
+  citation: Citation;
+  onClose: () => void;
+}
+
+const PDF_PAGE_WIDTH = 640;
+
+// Scanned PDFs have no text to highlight, so show the cited page instead
+const PdfPageView: React.FC<{ data: string; page: number }> = ({ data, page }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let destroy = () => {};
+    openPdf(data)
+      .then(async doc => {
+        if (cancelled) {
+          doc.destroy();
+          return;
+        }
+        destroy = () => doc.destroy();
+        if (!canvasRef.current) return;
+        await (await renderPdfPage(doc, Math.min(page, doc.numPages), canvasRef.current, PDF_PAGE_WIDTH)).promise;
+      })
+      .catch(err => {
+        console.error("PDF Render Error:", err);
+        setError('Could not render this page.');
+      });
+    return () => {
+      cancelled = true;
+      destroy();
+    };
+  }, [data, page]);
+
+  return error ? <p className="text-sm text-red-600">{error}</p> : <canvas ref={canvasRef} className="mx-auto bg-white shadow-md" />;
+};
+
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, citation, onClose }) => {
+  const markRef = useRef<HTMLElement>(null);
+  const match = locateCitation(citation, [source]);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ block: 'center' });
+  }, [source, citation]);
+
+  const renderBody = () => {
+    if (source.text !== null) {
+      return (
+        <div className="whitespace-pre-wrap text-sm leading-relaxed text-slate-700">
+          {match ? (
+            <>
+              {source.text.slice(0, match.start)}
+              <mark ref={markRef} className="bg-yellow-200 rounded px-0.5">{source.text.slice(match.start, match.end)}</mark>
+              {source.text.slice(match.end)}
+            </>
+          ) : source.text}
+        </div>
+      );
+    }
+    if (source.file?.mimeType.startsWith('image/')) {
+      return <img src={`data:${source.file.mimeType};base64,${source.file.data}`} alt={source.name} className="max-w-full mx-auto rounded shadow-md" />;
+    }
+    if (source.file?.mimeType === 'application/pdf') {
+      return <PdfPageView data={source.file.data} page={citation.page || 1} />;
+    }
+    return <p className="text-sm text-slate-500">This source is no longer available in the current session.</p>;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-3xl h-[85vh] shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <div className="min-w-0">
+            <h2 className="font-bold text-lg text-slate-800 truncate">{source.name}</h2>
+            <p className="text-xs text-slate-500">{citationLabel(citation)}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {citation.quote && (
+          <div className={`px-4 py-2 text-sm border-b flex items-start gap-2 ${match || source.text === null ? 'bg-indigo-50 border-indigo-100 text-indigo-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+            {!match && source.text !== null && <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />}
+            <span>
+              {!match && source.text !== null && 'This passage could not be found in the source: '}
+              <q className="italic">{citation.quote}</q>
+            </span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2 } from 'lucide-react';
+import { StudySession } from '../types';
+import { STUDY_PACK_EXTENSION, buildStudyPack, buildStudyPackHtml } from '../services/studyPack';
+import { downloadBlob, toFileName } from '../services/download';
+import { buildObsidianVault, vaultZip, writeVaultFiles } from '../services/obsidian';
+
+interface StudyPackExportDialogProps {
+  session: StudySession;
+  onClose: () => void;
+}
+
+type PackFormat = 'pack' | 'html' | 'obsidian';
+
+const FORMATS: [PackFormat, string, string][] = [
+  ['pack', `Study pack (${STUDY_PACK_EXTENSION})`, 'Everything, including chat and diagram history. Can be imported again.'],
+  ['html', 'Web page (.html)', 'Diagram, summary and flippable flashcards. Opens offline in any browser.'],
+  ['obsidian', 'Obsidian vault (.zip)', 'Markdown note with a mermaid diagram, [[wikilinked]] concepts and Spaced Repetition flashcards.'],
+];
+
+// File System Access API, Chromium only; elsewhere the vault is downloaded as a zip
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+const canPickFolder = typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm";
+
+// Base64 length to bytes, for showing how much the source files add
+const formatSize = (files: StudySession['selectedFiles']): string => {
+  const bytes = files.reduce((total, file) => total + file.data.length * 0.75, 0);
+  return bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+};
+
+const StudyPackExportDialog: React.FC<StudyPackExportDialogProps> = ({ session, onClose }) => {
+  const [title, setTitle] = useState(session.title);
+  const [format, setFormat] = useState<PackFormat>('pack');
+  const [includeSourceFiles, setIncludeSourceFiles] = useState(true);
+  const [saveToFolder, setSaveToFolder] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const named = { ...session, title: title.trim() || session.title };
+      const fileName = toFileName(named.title, 'studysketch_pack');
+      if (format === 'pack') {
+        const pack = buildStudyPack(named, { includeSourceFiles });
+        downloadBlob(new Blob([JSON.stringify(pack)], { type: 'application/json' }), `${fileName}${STUDY_PACK_EXTENSION}`);
+      } else if (format === 'html') {
+        const html = await buildStudyPackHtml(named);
+        downloadBlob(new Blob([html], { type: 'text/html' }), `${fileName}.html`);
+      } else if (saveToFolder && window.showDirectoryPicker) {
+        const root = await window.showDirectoryPicker({ mode: 'readwrite' });
+        await writeVaultFiles(root, buildObsidianVault(named));
+      } else {
+        downloadBlob(vaultZip(buildObsidianVault(named)), `${fileName}.zip`);
+      }
+      onClose();
+    } catch (err: any) {
+      // Closing the folder picker is not an error
+      if (err?.name === 'AbortError') return;
+      console.error("Study pack export error:", err);
+      setError(err?.message || 'Failed to export the study pack.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-md shadow-2xl overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800">Share Study Set</h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Title</span>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+
+          <div>
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Format</span>
+            <div className="space-y-2 mt-1">
+              {FORMATS.map(([id, label, description]) => (
+                <button
+                  key={id}
+                  onClick={() => setFormat(id)}
+                  className={`w-full p-3 rounded-lg border text-left transition-all ${format === id ? 'border-indigo-600 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                >
+                  <span className={`block text-sm font-medium ${format === id ? 'text-indigo-700' : 'text-slate-700'}`}>{label}</span>
+                  <span className="block text-xs text-slate-500 mt-0.5">{description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === 'pack' && session.selectedFiles.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeSourceFiles}
+                onChange={(e) => setIncludeSourceFiles(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Include source files ({session.selectedFiles.length}, {formatSize(session.selectedFiles)})
+            </label>
+          )}
+
+          {format === 'obsidian' && canPickFolder && (
+            <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={saveToFolder}
+                onChange={(e) => setSaveToFolder(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Write straight into a vault folder
+            </label>
+          )}
+
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2"
+          >
+            {isExporting ? <Loader2 size={14} className="animate-spin" /> : <Download size={14} />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StudyPackExportDialog;
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { X, Gauge } from 'lucide-react';
+import { ProviderSettings, UsageBudget, UsageTotals } from '../types';
+import {
+  clearUsage,
+  dailyUsage,
+  formatCost,
+  loadUsageBudget,
+  recentDailyUsage,
+  saveUsageBudget,
+  sessionUsage,
+  subscribeUsage,
+  totalTokens,
+  usageCost
+} from '../services/usage';
+
+interface UsageDialogProps {
+  sessionId: string | null;
+  settings: ProviderSettings;
+  onClose: () => void;
+}
+
+const RECENT_DAYS = 7;
+
+const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-200 bg-slate-50 focus:bg-white focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 transition-all text-sm";
+
+const UsageCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="flex-1 p-4 rounded-xl border border-slate-200 bg-slate-50">
+    <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider">{title}</p>
+    <p className="text-2xl font-bold text-slate-800 mt-1">{totalTokens(totals).toLocaleString()}</p>
+    <p className="text-xs text-slate-500">tokens in {totals.requests} request{totals.requests === 1 ? '' : 's'}</p>
+    <p className="text-xs text-slate-500 mt-2">
+      {totals.promptTokens.toLocaleString()} in · {totals.outputTokens.toLocaleString()} out
+      {totals.cost > 0 && <> · {formatCost(totals.cost)}</>}
+    </p>
+  </div>
+);
+
+// Empty inputs mean no limit
+const parseLimit = (value: string): number | undefined => {
+  const limit = Math.floor(Number(value));
+  return value.trim() && limit > 0 ? limit : undefined;
+};
+
+const UsageDialog: React.FC<UsageDialogProps> = ({ sessionId, settings, onClose }) => {
+  const [, setRevision] = useState(0);
+  const [budget, setBudget] = useState<UsageBudget>(loadUsageBudget);
+
+  // Totals change while requests finish in the background
+  useEffect(() => subscribeUsage(() => setRevision(revision => revision + 1)), []);
+
+  const updateBudget = (changes: Partial<UsageBudget>) => {
+    const next = { ...budget, ...changes };
+    setBudget(next);
+    saveUsageBudget(next);
+  };
+
+  const handleClear = () => {
+    if (confirm('Clear all recorded usage? Budgets start counting from zero again.')) clearUsage();
+  };
+
+  const priced = usageCost({ promptTokens: 1_000_000, outputTokens: 0 }, settings) > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] shadow-2xl overflow-hidden flex flex-col">
+        <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50">
+          <h2 className="font-bold text-lg text-slate-800 flex items-center gap-2">
+            <Gauge size={18} /> Usage
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-slate-200 rounded-full transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex gap-3">
+            <UsageCard title="This session" totals={sessionUsage(sessionId)} />
+            <UsageCard title="Today" totals={dailyUsage()} />
+          </div>
+
+          <div>
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Last {RECENT_DAYS} days</span>
+            <table className="w-full mt-1 text-sm">
+              <tbody className="divide-y divide-slate-100">
+                {recentDailyUsage(RECENT_DAYS).map(([day, totals]) => (
+                  <tr key={day}>
+                    <td className="py-1.5 text-slate-600">{day}</td>
+                    <td className="py-1.5 text-right text-slate-800 font-medium">{totalTokens(totals).toLocaleString()} tokens</td>
+                    <td className="py-1.5 text-right text-slate-500 w-24">{totals.cost > 0 ? formatCost(totals.cost) : ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {recentDailyUsage(1).length === 0 && <p className="text-sm text-slate-400 mt-1">No requests recorded yet.</p>}
+          </div>
+
+          <div className="space-y-3">
+            <span className="text-xs font-semibold text-slate-600 uppercase tracking-wider">Budget</span>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-xs text-slate-500">Tokens per day</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={budget.dailyTokens ?? ''}
+                  onChange={(e) => updateBudget({ dailyTokens: parseLimit(e.target.value) })}
+                  placeholder="No limit"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-slate-500">Tokens per session</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={budget.sessionTokens ?? ''}
+                  onChange={(e) => updateBudget({ sessionTokens: parseLimit(e.target.value) })}
+                  placeholder="No limit"
+                  className={`${inputClass} mt-1`}
+                />
+              </label>
+            </div>
+            <div className="flex bg-slate-100 rounded-lg p-1">
+              {(['warn', 'block'] as const).map(action => (
+                <button
+                  key={action}
+                  onClick={() => updateBudget({ action })}
+                  className={`flex-1 px-3 py-1.5 rounded-md text-xs font-medium transition-all ${budget.action === action ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {action === 'warn' ? 'Warn before going over' : 'Block requests over budget'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400">
+              Every request to the model is checked against its estimated tokens first. Answers from the response cache are free and not checked.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 pt-1">
+            <p className="text-xs text-slate-400">
+              {priced
+                ? 'Costs are estimated from Gemini list prices.'
+                : 'No cost is shown for this model: local models are free and unknown models are unpriced.'}
+            </p>
+            <button onClick={handleClear} className="text-xs font-medium text-slate-500 hover:text-red-600 flex-shrink-0">
+              Clear history
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDialog;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { toAnkiTag, toGuid } from './anki';
+
+describe('toGuid', () => {
+  it('gives a card the same GUID on every export', () => {
+    expect(toGuid('fc-1')).toBe(toGuid('fc-1'));
+    expect(toGuid('fc-1')).not.toBe(toGuid('fc-2'));
+  });
+
+  it('keeps GUIDs the same across releases', () => {
+    // Pinned so a change to the hash or alphabet, which would duplicate every note on re-import, fails here
+    expect(toGuid('fc-1')).toMatchInlineSnapshot(`"bznCBEiLY"`);
+  });
+
+  it('uses only characters from Anki\'s base91 alphabet', () => {
+    expect(toGuid('a card id with spaces')).toMatch(/^[\w!#$%&()*+,\-./:;<=>?@[\]^`{|}~]+$/);
+  });
+});
+
+describe('toAnkiTag', () => {
+  it('replaces spaces and drops file extensions', () => {
+    expect(toAnkiTag('  Cell biology notes.pdf ')).toBe('Cell_biology_notes');
+    expect(toAnkiTag('mindmap')).toBe('mindmap');
+  });
+
+  it('keeps "::" hierarchies and trims each level', () => {
+    expect(toAnkiTag('Biology::Cells')).toBe('Biology::Cells');
+    expect(toAnkiTag('Biology :: Cell structure')).toBe('Biology::Cell_structure');
+    expect(toAnkiTag('Bio.Chem::Enzymes')).toBe('BioChem::Enzymes');
+  });
+
+  it('drops empty levels and characters Anki cannot use', () => {
+    expect(toAnkiTag('::Biology:: ::"Cells"')).toBe('Biology::Cells');
+    expect(toAnkiTag('a:b')).toBe('ab');
+    expect(toAnkiTag(' .pdf')).toBe('');
+  });
+});
@@ -0,0 +1,207 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { strToU8, zipSync } from 'fflate';
+import { Flashcard } from '../types';
+import { hashString } from './hash';
+
+// Builds an Anki .apkg (zipped legacy `collection.anki2` SQLite database) in the browser.
+// Note GUIDs, note ids and note type ids are derived from stable inputs so re-importing
+// an updated deck updates the existing notes instead of duplicating them.
+
+export type AnkiNoteType = 'basic' | 'basic-reversed';
+
+export interface AnkiExportOptions {
+  deckName: string;
+  noteType: AnkiNoteType;
+  tags: string[];
+}
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_SEPARATOR = '\x1f';
+
+// Fixed ids so every export uses the same note types and Anki can match them on re-import
+const NOTE_TYPE_IDS: Record<AnkiNoteType, number> = {
+  'basic': 1733000000001,
+  'basic-reversed': 1733000000002,
+};
+
+const CARD_CSS = `.card {
+  font-family: Inter, Arial, sans-serif;
+  font-size: 20px;
+  text-align: center;
+  color: #1e293b;
+  background-color: white;
+}`;
+
+// Ids in the range of millisecond timestamps, like the ones Anki generates itself
+const stableId = (value: string): number => 1_000_000_000_000 + (hashString(value) % 1_000_000_000_000);
+
+const BASE91 = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~';
+
+// Derived from the card id only, so edits to a card update the same note on re-import
+export const toGuid = (cardId: string): string => {
+  let n = hashString(`studysketch:${cardId}`);
+  let guid = '';
+  while (n > 0) {
+    guid = BASE91[n % 91] + guid;
+    n = Math.floor(n / 91);
+  }
+  return guid;
+};
+
+const markdownToHtml = (markdown: string): string =>
+  renderToStaticMarkup(createElement(ReactMarkdown, null, markdown));
+
+const stripHtml = (html: string): string => html.replace(/<[^>]*>/g, '').trim();
+
+// Anki's duplicate-check checksum: first 8 hex digits of the SHA-1 of the stripped sort field
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+// Anki tags cannot contain spaces; "::" separates levels of a hierarchical tag
+export const toAnkiTag = (value: string): string =>
+  value.trim().replace(/\.\w+$/, '').split('::')
+    .map(level => level.trim().replace(/\s+/g, '_').replace(/[^\w\-]/g, ''))
+    .filter(Boolean)
+    .join('::');
+
+const buildNoteType = (noteType: AnkiNoteType, deckId: number, now: number) => {
+  const templates = [
+    { name: 'Card 1', qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id=answer>{{Back}}' },
+    ...(noteType === 'basic-reversed'
+      ? [{ name: 'Card 2', qfmt: '{{Back}}', afmt: '{{FrontSide}}<hr id=answer>{{Front}}' }]
+      : []),
+  ];
+
+  return {
+    id: NOTE_TYPE_IDS[noteType],
+    name: noteType === 'basic' ? 'StudySketch Basic' : 'StudySketch Basic (and reversed card)',
+    type: 0,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: templates.map((t, ord) => ({ ...t, ord, did: null, bqfmt: '', bafmt: '' })),
+    flds: ['Front', 'Back'].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: templates.map((_, ord) => [ord, 'any', [ord]]),
+  };
+};
+
+const buildDeck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  lrnToday: [0, 0],
+  revToday: [0, 0],
+  newToday: [0, 0],
+  timeToday: [0, 0],
+  collapsed: false,
+  desc: 'Exported from StudySketch AI',
+  dyn: 0,
+  conf: 1,
+  extendNew: 10,
+  extendRev: 50,
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', replayq: true, timer: 0, maxTaken: 60, usn: 0, mod: 0, autoplay: true, dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+  }
+};
+
+export const buildApkg = async (flashcards: Flashcard[], options: AnkiExportOptions): Promise<Blob> => {
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+
+  try {
+    db.run(SCHEMA);
+
+    const deckId = stableId(`deck:${options.deckName}`);
+    const noteType = buildNoteType(options.noteType, deckId, now);
+    const conf = { nextPos: flashcards.length + 1, estTimes: true, activeDecks: [1], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: noteType.id, collapseTime: 1200 };
+
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSeconds,
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify({ [noteType.id]: noteType }),
+      JSON.stringify({ 1: buildDeck(1, 'Default', now), [deckId]: buildDeck(deckId, options.deckName, now) }),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ]);
+
+    const tags = options.tags.map(toAnkiTag).filter(Boolean);
+    const tagField = tags.length ? ` ${tags.join(' ')} ` : '';
+    const templateCount = noteType.tmpls.length;
+
+    for (const [index, card] of flashcards.entries()) {
+      const front = markdownToHtml(card.front);
+      const back = markdownToHtml(card.back);
+      const noteId = stableId(`note:${card.id}`);
+      const sortField = stripHtml(front);
+
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        toGuid(card.id),
+        noteType.id,
+        nowSeconds,
+        tagField,
+        [front, back].join(FIELD_SEPARATOR),
+        sortField,
+        await fieldChecksum(sortField),
+      ]);
+
+      for (let ord = 0; ord < templateCount; ord++) {
+        // New cards: type 0, queue 0, due is the position in the new queue
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+          stableId(`card:${card.id}:${ord}`),
+          noteId,
+          deckId,
+          ord,
+          nowSeconds,
+          index + 1,
+        ]);
+      }
+    }
+
+    const zip = zipSync({
+      'collection.anki2': db.export(),
+      'media': strToU8('{}'),
+    });
+    return new Blob([zip], { type: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64Text, encodeBase64Text, splitIntoSections } from './chunking';
+
+const paragraph = (word: string, chars: number) => `${word} `.repeat(Math.ceil(chars / (word.length + 1))).slice(0, chars).trim();
+
+describe('splitIntoSections', () => {
+  it('keeps short text as one section named after the document', () => {
+    expect(splitIntoSections('Just a few lines.', 'notes.txt')).toEqual([{ title: 'notes.txt', text: 'Just a few lines.' }]);
+  });
+
+  it('splits on headings and titles sections by them', () => {
+    const text = `# Cells\n${paragraph('cell', 80)}\n## Tissues\n${paragraph('tissue', 80)}`;
+    const sections = splitIntoSections(text, 'bio.md', 100);
+    expect(sections.map(s => s.title)).toEqual(['Cells', 'Tissues']);
+    expect(sections[1].text.startsWith('## Tissues')).toBe(true);
+  });
+
+  it('packs small neighbouring blocks into one section', () => {
+    const text = '# One\nshort\n# Two\nshort\n# Three\nshort';
+    const sections = splitIntoSections(text, 'doc', 1000);
+    expect(sections).toHaveLength(1);
+    expect(sections[0].title).toBe('One');
+  });
+
+  it('falls back to paragraphs, then hard cuts, and never exceeds the limit', () => {
+    const text = [paragraph('alpha', 60), paragraph('beta', 60), paragraph('gamma', 250)].join('\n\n');
+    const sections = splitIntoSections(text, 'plain.txt', 100);
+    expect(sections.length).toBeGreaterThan(3);
+    for (const section of sections) expect(section.text.length).toBeLessThanOrEqual(100);
+    expect(sections.map(s => s.title)).toContain('plain.txt (part 2)');
+  });
+
+  it('loses no text when splitting', () => {
+    const text = [paragraph('alpha', 300), paragraph('beta', 300)].join('\n\n');
+    const joined = splitIntoSections(text, 'doc', 120).map(s => s.text).join('');
+    expect(joined.replace(/\s/g, '')).toBe(text.replace(/\s/g, ''));
+  });
+});
+
+describe('base64 text', () => {
+  it('round-trips non-ASCII text', () => {
+    const text = 'Zellatmung – ATP, 细胞, 🧬';
+    expect(decodeBase64Text(encodeBase64Text(text))).toBe(text);
+  });
+});
@@ -0,0 +1,84 @@
+// Splits long text into sections small enough to send to the model one at a time.
+// Sections follow the document's own headings where it has them and fall back to
+// paragraph, then hard character boundaries.
+
+export interface TextSection {
+  title: string;
+  text: string;
+}
+
+// Roughly 3-4k tokens per section, leaving room for the prompt and the response
+export const SECTION_CHARS = 12000;
+
+// Inputs with more text than this are processed section by section
+export const CHUNKED_INPUT_CHARS = 40000;
+
+const HEADING = /^#{1,3}\s+(.+)$/;
+
+export const decodeBase64Bytes = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+export const decodeBase64Text = (data: string): string =>
+  new TextDecoder().decode(decodeBase64Bytes(data));
+
+export const encodeBase64Text = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Breaks one oversized block on paragraph boundaries, cutting single huge paragraphs outright
+const splitBlock = (block: string, maxChars: number): string[] => {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const paragraph of block.split(/\n\s*\n/)) {
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+export const splitIntoSections = (text: string, name: string, maxChars: number = SECTION_CHARS): TextSection[] => {
+  // Heading-delimited blocks first
+  const blocks: string[] = [];
+  let current: string[] = [];
+  text.split('\n').forEach(line => {
+    if (HEADING.test(line) && current.join('').trim()) {
+      blocks.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  });
+  if (current.join('').trim()) blocks.push(current.join('\n'));
+
+  // Then pack small neighbouring blocks together and split the large ones
+  const chunks: string[] = [];
+  let pending = '';
+  blocks.flatMap(block => block.length > maxChars ? splitBlock(block, maxChars) : [block]).forEach(block => {
+    if (pending && pending.length + block.length + 2 > maxChars) {
+      chunks.push(pending);
+      pending = '';
+    }
+    pending = pending ? `${pending}\n\n${block}` : block;
+  });
+  if (pending.trim()) chunks.push(pending);
+
+  return chunks.map((chunk, index) => {
+    const heading = chunk.split('\n').map(line => line.match(HEADING)?.[1]).find(Boolean);
+    return {
+      title: heading?.trim() || (chunks.length > 1 ? `${name} (part ${index + 1})` : name),
+      text: chunk.trim()
+    };
+  });
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { extractCitations, hasSupportingCitation, isCitationSupported, linkCitations, locateCitation } from './citations';
+import { SourceDocument } from './sources';
+
+const NOTES = `[Page 1]
+Mitochondria are the   powerhouse of the cell.
+[Page 2]
+They produce ATP through cellular respiration in the “inner membrane”.`;
+
+const SOURCES: SourceDocument[] = [
+  { id: 'S1', name: 'biology.pdf', text: NOTES },
+  { id: 'S2', name: 'diagram.png', text: null }
+];
+
+describe('extractCitations', () => {
+  it('reads source ids, pages and quotes', () => {
+    const text = 'Cells need energy [S1 p.2 "They produce ATP"], see also [S2] and [S1, page 1].';
+    expect(extractCitations(text)).toEqual([
+      { index: 1, sourceId: 'S1', page: 2, quote: 'They produce ATP' },
+      { index: 2, sourceId: 'S2' },
+      { index: 3, sourceId: 'S1', page: 1 }
+    ]);
+  });
+
+  it('accepts curly quotes', () => {
+    expect(extractCitations('[S1 “the powerhouse of the cell”]')[0].quote).toBe('the powerhouse of the cell');
+  });
+
+  it('ignores ordinary markdown links and brackets', () => {
+    expect(extractCitations('See [the docs](https://example.com) and [note 1].')).toEqual([]);
+  });
+});
+
+describe('linkCitations', () => {
+  it('turns citations into numbered links without their quotes', () => {
+    expect(linkCitations('A [S1 p.2 "They produce ATP"] and B [S2].')).toBe('A [S1 p.2](#cite-1) and B [S2](#cite-2).');
+  });
+});
+
+describe('locateCitation', () => {
+  it('finds quotes regardless of whitespace and case', () => {
+    const [citation] = extractCitations('[S1 "mitochondria are the powerhouse"]');
+    const match = locateCitation(citation, SOURCES)!;
+    expect(NOTES.slice(match.start, match.end)).toBe('Mitochondria are the   powerhouse');
+  });
+
+  it('falls back to the opening words of a reworded quote', () => {
+    const [citation] = extractCitations('[S1 "They produce ATP through cellular respiration in the mitochondrial matrix"]');
+    expect(locateCitation(citation, SOURCES)).not.toBeNull();
+  });
+
+  it('falls back to the cited page when the quote is not found', () => {
+    const [citation] = extractCitations('[S1 p.2 "something the source never says"]');
+    const match = locateCitation(citation, SOURCES)!;
+    expect(NOTES.slice(match.start, match.end).startsWith('[Page 2]')).toBe(true);
+  });
+});
+
+describe('citation support', () => {
+  it('only counts citations whose passage can be found', () => {
+    const [found, missing, unknown] = extractCitations('[S1 "powerhouse of the cell"] [S1 "made up quote about nothing"] [S9]');
+    expect(isCitationSupported(found, SOURCES)).toBe(true);
+    expect(isCitationSupported(missing, SOURCES)).toBe(false);
+    expect(isCitationSupported(unknown, SOURCES)).toBe(false);
+  });
+
+  it('takes citations of sources without text on trust', () => {
+    expect(hasSupportingCitation('Shown in the figure [S2].', SOURCES)).toBe(true);
+    expect(hasSupportingCitation('No citation here.', SOURCES)).toBe(false);
+  });
+});
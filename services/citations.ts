@@ -0,0 +1,107 @@
+import { SourceDocument } from './sources';
+
+// Citations are written by the model inline as [S1 p.3 "short exact quote"]: the source id,
+// an optional page and an optional quote copied from the source. Quotes are checked against
+// the source text, so a citation only counts as support when its passage can be found.
+
+export interface Citation {
+  index: number; // 1-based position in the text
+  sourceId: string;
+  page?: number;
+  quote?: string;
+}
+
+export interface PassageMatch {
+  start: number; // Offsets into the source text
+  end: number;
+}
+
+const CITATION = /\[(S\d+)(?:[\s,]*p(?:age|\.)?\s*(\d+))?(?:[\s,:]*["“]([^"”\]]+)["”])?\]/g;
+
+// Quotes shorter than this many words are not searched for on their own
+const MIN_QUOTE_WORDS = 4;
+
+export const extractCitations = (text: string): Citation[] =>
+  Array.from(text.matchAll(CITATION), (match, i) => ({
+    index: i + 1,
+    sourceId: match[1],
+    ...(match[2] ? { page: Number(match[2]) } : {}),
+    ...(match[3] ? { quote: match[3].trim() } : {})
+  }));
+
+export const citationLabel = (citation: Citation): string =>
+  citation.page ? `${citation.sourceId} p.${citation.page}` : citation.sourceId;
+
+// Replaces each citation with a "#cite-N" markdown link so it can be rendered as a button
+export const linkCitations = (text: string): string => {
+  let index = 0;
+  return text.replace(CITATION, (_, sourceId: string, page?: string) => {
+    index++;
+    return `[${page ? `${sourceId} p.${page}` : sourceId}](#cite-${index})`;
+  });
+};
+
+const normalizeChar = (c: string) =>
+  c.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[–—]/g, '-').toLowerCase();
+
+// Whitespace-collapsed, lowercased text with a map back to the original offsets
+const normalize = (text: string): { value: string; offsets: number[] } => {
+  let value = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (value.endsWith(' ') || value === '') continue;
+      value += ' ';
+    } else {
+      value += normalizeChar(text[i]);
+    }
+    offsets.push(i);
+  }
+  return { value, offsets };
+};
+
+const findQuote = (text: string, quote: string): PassageMatch | null => {
+  const haystack = normalize(text);
+  const words = normalize(quote).value.trim().replace(/[.…]+$/, '').split(' ');
+
+  // Models often trim or slightly reword the end of a quote, so fall back to its opening words
+  const candidates = [words, words.slice(0, 8), words.slice(0, 5)].filter(w => w.length >= Math.min(MIN_QUOTE_WORDS, words.length));
+  for (const candidate of candidates) {
+    const needle = candidate.join(' ');
+    const at = haystack.value.indexOf(needle);
+    if (needle && at !== -1) {
+      return { start: haystack.offsets[at], end: haystack.offsets[at + needle.length - 1] + 1 };
+    }
+  }
+  return null;
+};
+
+// Extracted PDF text marks each page with a "[Page N]" line
+const findPage = (text: string, page: number): PassageMatch | null => {
+  const marker = `[Page ${page}]`;
+  const start = text.indexOf(marker);
+  if (start === -1) return null;
+  const next = text.indexOf('[Page ', start + marker.length);
+  return { start, end: next === -1 ? text.length : next };
+};
+
+export const locateCitation = (citation: Citation, sources: SourceDocument[]): PassageMatch | null => {
+  const source = sources.find(s => s.id === citation.sourceId);
+  if (!source?.text) return null;
+  if (citation.quote) {
+    const match = findQuote(source.text, citation.quote);
+    if (match) return match;
+  }
+  return citation.page ? findPage(source.text, citation.page) : null;
+};
+
+// A citation supports the text when its passage is found. Sources without text (images,
+// scanned PDFs) can't be checked, so citing one of them is taken on trust.
+export const isCitationSupported = (citation: Citation, sources: SourceDocument[]): boolean => {
+  const source = sources.find(s => s.id === citation.sourceId);
+  if (!source) return false;
+  return source.text === null || locateCitation(citation, sources) !== null;
+};
+
+export const hasSupportingCitation = (text: string, sources: SourceDocument[]): boolean =>
+  extractCitations(text).some(citation => isCitationSupported(citation, sources));
@@ -0,0 +1,38 @@
+import { Flashcard } from '../types';
+import { DiagramModel } from './diagramModel';
+
+// Finds where a diagram concept is mentioned in the summary, flashcards and chat by
+// matching node labels as whole words against normalized text.
+
+// Labels shorter than this match too much text to be useful
+const MIN_LABEL_LENGTH = 3;
+
+// Lowercased, markdown and punctuation stripped, whitespace collapsed
+export const normalizeText = (text: string): string =>
+  text.toLowerCase().replace(/[*_`"'“”‘’]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+export const mentions = (text: string, label: string): boolean => {
+  const needle = normalizeText(label);
+  return needle.length >= MIN_LABEL_LENGTH && ` ${normalizeText(text)} `.includes(` ${needle} `);
+};
+
+export const mentionedNodeIds = (model: DiagramModel, text: string): string[] => {
+  const haystack = ` ${normalizeText(text)} `;
+  return model.nodes
+    .filter(node => {
+      const needle = normalizeText(node.label);
+      return needle.length >= MIN_LABEL_LENGTH && haystack.includes(` ${needle} `);
+    })
+    .map(node => node.id);
+};
+
+// Summary bullets and paragraphs that mention the label, headings excluded
+export const summaryExcerpts = (summary: string, label: string, limit: number = 3): string[] =>
+  summary
+    .split(/\n\s*\n|\n(?=\s*(?:[-*+]|\d+\.)\s)/)
+    .map(block => block.trim())
+    .filter(block => block && !/^#{1,6}\s/.test(block) && mentions(block, label))
+    .slice(0, limit);
+
+export const cardsMentioning = (cards: Flashcard[], label: string): Flashcard[] =>
+  cards.filter(card => mentions(`${card.front} ${card.back}`, label));
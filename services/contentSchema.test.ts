@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CONTENT_FIELDS,
+  ValidatedContent,
+  describeIssues,
+  mergeValidated,
+  parseModelJson,
+  validateGeneratedContent,
+  validateQuiz
+} from './contentSchema';
+
+const VALID = {
+  summary: '# Cells',
+  diagramCode: 'mindmap\n  root((Cells))',
+  flashcards: [{ front: 'Unit of life?', back: 'The cell', source: 'S1' }]
+};
+
+describe('parseModelJson', () => {
+  it('reads plain JSON', () => {
+    expect(parseModelJson('{"a": 1}')).toEqual({ a: 1 });
+  });
+
+  it('reads JSON inside code fences', () => {
+    expect(parseModelJson('Here you go:\n```json\n{"a": 1}\n```\nEnjoy!')).toEqual({ a: 1 });
+    expect(parseModelJson('```\n{"a": 2}\n```')).toEqual({ a: 2 });
+  });
+
+  it('ignores prose around the object', () => {
+    expect(parseModelJson('Sure! {"a": {"b": 1}} Let me know if you need more.')).toEqual({ a: { b: 1 } });
+  });
+
+  it('throws when there is no JSON object', () => {
+    expect(() => parseModelJson('I cannot help with that.')).toThrow(SyntaxError);
+    expect(() => parseModelJson('{"a": ')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateGeneratedContent', () => {
+  it('accepts complete content and trims its fields', () => {
+    const result = validateGeneratedContent({
+      ...VALID,
+      diagramCode: '```mermaid\nmindmap\n  root((Cells))\n```',
+      flashcards: [{ front: ' Unit of life? ', back: ' The cell ', source: ' S1 ' }]
+    });
+    expect(result).toEqual({ ...VALID, issues: [] });
+  });
+
+  it('reports missing fields', () => {
+    const result = validateGeneratedContent({ summary: '# Cells' });
+    expect(result.summary).toBe('# Cells');
+    expect(result.issues).toEqual([
+      { field: 'diagramCode', message: 'missing' },
+      { field: 'flashcards', message: 'missing' }
+    ]);
+  });
+
+  it('reports fields of the wrong type', () => {
+    const result = validateGeneratedContent({ summary: 42, diagramCode: '  ', flashcards: {} });
+    expect(result.issues).toEqual([
+      { field: 'summary', message: 'must be a non-empty string' },
+      { field: 'diagramCode', message: 'must be a non-empty string' },
+      { field: 'flashcards', message: 'must be an array' }
+    ]);
+  });
+
+  it('keeps the usable cards and reports the rest', () => {
+    const result = validateGeneratedContent({ ...VALID, flashcards: [VALID.flashcards[0], { front: 'No answer' }, null] });
+    expect(result.flashcards).toEqual(VALID.flashcards);
+    expect(result.issues.map(issue => issue.message)).toEqual([
+      'card 2 needs non-empty "front" and "back" strings',
+      'card 3 needs non-empty "front" and "back" strings'
+    ]);
+  });
+
+  it('rejects responses that are not objects', () => {
+    expect(validateGeneratedContent([VALID]).issues).toEqual([{ field: 'response', message: 'Response is not a JSON object' }]);
+  });
+});
+
+describe('mergeValidated', () => {
+  const validated = (json: unknown): ValidatedContent => validateGeneratedContent(json);
+
+  it('keeps fields that a repair attempt broke', () => {
+    const first = validated({ ...VALID, diagramCode: undefined });
+    const repair = validated({ diagramCode: VALID.diagramCode, summary: 7 });
+    const merged = mergeValidated(first, repair, CONTENT_FIELDS);
+    expect(merged).toEqual({ ...VALID, diagramType: undefined, diagramTypeReason: undefined, issues: [] });
+  });
+
+  it('prefers the attempt with fewer issues for each field', () => {
+    const first = validated({ ...VALID, flashcards: [VALID.flashcards[0], { front: 'Q' }] });
+    const repair = validated({ ...VALID, flashcards: [{ front: 'Q2', back: 'A2' }] });
+    const merged = mergeValidated(first, repair, CONTENT_FIELDS);
+    expect(merged.flashcards).toEqual([{ front: 'Q2', back: 'A2' }]);
+    expect(merged.issues).toEqual([]);
+  });
+
+  it('keeps the diagram type with the diagram it came with', () => {
+    const first = validated({ ...VALID, diagramType: 'mindmap', diagramTypeReason: 'Hierarchy' });
+    const repair = validated({ summary: '# Better', diagramType: 'flowchart' });
+    const merged = mergeValidated(first, repair, CONTENT_FIELDS);
+    expect(merged).toMatchObject({ summary: '# Better', diagramType: 'mindmap', diagramTypeReason: 'Hierarchy' });
+  });
+
+  it('only merges the requested fields', () => {
+    const merged = mergeValidated({ issues: [] }, validated(VALID), ['flashcards']);
+    expect(merged).toEqual({ flashcards: VALID.flashcards, issues: [] });
+  });
+
+  it('reports an unreadable response when no field is usable', () => {
+    const unreadable: ValidatedContent = { issues: [{ field: 'response', message: 'Response is not valid JSON' }] };
+    expect(mergeValidated({ issues: [] }, unreadable, CONTENT_FIELDS).issues).toEqual(unreadable.issues);
+  });
+});
+
+describe('validateQuiz', () => {
+  it('keeps valid questions and reports the rest', () => {
+    const result = validateQuiz({
+      questions: [
+        { type: 'multiple-choice', prompt: 'Powerhouse?', options: ['Nucleus', 'Mitochondria'], answerIndex: 1, explanation: 'ATP' },
+        { type: 'cloze', prompt: 'No gap here', answer: 'ATP', explanation: 'x' },
+        { type: 'true-false', prompt: 'Cells live.', answer: 'yes', explanation: 'x' }
+      ]
+    });
+    expect(result.questions).toHaveLength(1);
+    expect(describeIssues(result.issues)).toBe(
+      'Quiz: question 2 prompt must mark the gap with "____"; question 3 "answer" must be true or false'
+    );
+  });
+});
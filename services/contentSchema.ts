@@ -0,0 +1,220 @@
+import { ContentField, QuizQuestion, ValidationIssue } from '../types';
+
+// Validates the raw `{summary, diagramCode, flashcards}` object returned by the model.
+// Valid parts are kept even when others fail so callers can fall back to partial results.
+
+export interface RawFlashcard {
+  front: string;
+  back: string;
+  source?: string;
+}
+
+export interface ValidatedContent {
+  summary?: string;
+  diagramCode?: string;
+  diagramType?: string; // Only returned when the model was asked to pick the type
+  diagramTypeReason?: string;
+  flashcards?: RawFlashcard[];
+  issues: ValidationIssue[];
+}
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Models sometimes wrap the JSON in code fences or add prose around it.
+export const parseModelJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/);
+    if (fenced) return JSON.parse(fenced[1]);
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) return JSON.parse(text.slice(start, end + 1));
+    throw e;
+  }
+};
+
+export const validateGeneratedContent = (json: unknown): ValidatedContent => {
+  const issues: ValidationIssue[] = [];
+
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { issues: [{ field: 'response', message: 'Response is not a JSON object' }] };
+  }
+  const obj = json as Record<string, unknown>;
+  const result: ValidatedContent = { issues };
+
+  if (isNonEmptyString(obj.summary)) {
+    result.summary = obj.summary;
+  } else {
+    issues.push({ field: 'summary', message: obj.summary === undefined ? 'missing' : 'must be a non-empty string' });
+  }
+
+  if (isNonEmptyString(obj.diagramCode)) {
+    result.diagramCode = obj.diagramCode.replace(/^```(?:mermaid)?\s*\n|\n?```\s*$/g, '').trim();
+  } else {
+    issues.push({ field: 'diagramCode', message: obj.diagramCode === undefined ? 'missing' : 'must be a non-empty string' });
+  }
+
+  if (isNonEmptyString(obj.diagramType)) result.diagramType = obj.diagramType.trim();
+  if (isNonEmptyString(obj.diagramTypeReason)) result.diagramTypeReason = obj.diagramTypeReason.trim();
+
+  if (!Array.isArray(obj.flashcards)) {
+    issues.push({ field: 'flashcards', message: obj.flashcards === undefined ? 'missing' : 'must be an array' });
+  } else {
+    const cards: RawFlashcard[] = [];
+    obj.flashcards.forEach((card: any, index: number) => {
+      if (card && isNonEmptyString(card.front) && isNonEmptyString(card.back)) {
+        cards.push({
+          front: card.front.trim(),
+          back: card.back.trim(),
+          ...(isNonEmptyString(card.source) ? { source: card.source.trim() } : {})
+        });
+      } else {
+        issues.push({ field: 'flashcards', message: `card ${index + 1} needs non-empty "front" and "back" strings` });
+      }
+    });
+    if (cards.length === 0 && obj.flashcards.length === 0) {
+      issues.push({ field: 'flashcards', message: 'must contain at least one card' });
+    }
+    if (cards.length > 0) result.flashcards = cards;
+  }
+
+  return result;
+};
+
+export const CONTENT_FIELDS = ['summary', 'diagramCode', 'flashcards'] as const satisfies readonly (keyof ValidatedContent)[];
+export type GeneratedField = typeof CONTENT_FIELDS[number];
+
+const copyField = <K extends GeneratedField>(target: ValidatedContent, source: ValidatedContent, field: K) => {
+  target[field] = source[field];
+};
+
+// Keep the cleanest version of each field across attempts so a repair that breaks
+// a different field doesn't lose what was already valid.
+export const mergeValidated = (
+  previous: ValidatedContent,
+  next: ValidatedContent,
+  fields: readonly GeneratedField[]
+): ValidatedContent => {
+  const merged: ValidatedContent = { issues: [] };
+  const issuesFor = (v: ValidatedContent, field: ContentField) => v.issues.filter(i => i.field === field);
+
+  fields.forEach(field => {
+    const nextIsBetter = next[field] !== undefined
+      && (previous[field] === undefined || issuesFor(next, field).length <= issuesFor(previous, field).length);
+    const source = nextIsBetter || previous[field] === undefined ? next : previous;
+    copyField(merged, source, field);
+    merged.issues.push(...issuesFor(source, field));
+    // The chosen type belongs to the diagram it was returned with
+    if (field === 'diagramCode') {
+      merged.diagramType = source.diagramType;
+      merged.diagramTypeReason = source.diagramTypeReason;
+    }
+  });
+
+  if (fields.every(field => merged[field] === undefined)) {
+    merged.issues.push(...issuesFor(next, 'response'));
+  }
+  return merged;
+};
+
+// Questions as returned by `generateQuiz`'s prompt, before ids are assigned
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+export type RawQuizQuestion = WithoutId<QuizQuestion>;
+
+export interface ValidatedQuiz {
+  questions?: RawQuizQuestion[];
+  issues: ValidationIssue[];
+}
+
+const optionalString = (key: string, value: unknown) =>
+  isNonEmptyString(value) ? { [key]: value.trim() } : {};
+
+const validateQuestion = (q: any): RawQuizQuestion | string => {
+  if (!q || typeof q !== 'object') return 'must be an object';
+  if (!isNonEmptyString(q.prompt)) return 'needs a non-empty "prompt"';
+  if (!isNonEmptyString(q.explanation)) return 'needs a non-empty "explanation"';
+  const base = {
+    prompt: q.prompt.trim(),
+    explanation: q.explanation.trim(),
+    ...optionalString('summaryHeading', q.summaryHeading),
+    ...optionalString('diagramNode', q.diagramNode)
+  };
+
+  switch (q.type) {
+    case 'multiple-choice': {
+      if (!Array.isArray(q.options) || q.options.length < 2 || !q.options.every(isNonEmptyString)) {
+        return 'needs at least two non-empty "options"';
+      }
+      if (!Number.isInteger(q.answerIndex) || q.answerIndex < 0 || q.answerIndex >= q.options.length) {
+        return '"answerIndex" must point at one of the options';
+      }
+      return { ...base, type: 'multiple-choice', options: q.options.map((o: string) => o.trim()), answerIndex: q.answerIndex };
+    }
+    case 'cloze':
+      if (!isNonEmptyString(q.answer)) return 'needs a non-empty "answer"';
+      if (!q.prompt.includes('____')) return 'prompt must mark the gap with "____"';
+      return { ...base, type: 'cloze', answer: q.answer.trim() };
+    case 'true-false':
+      if (typeof q.answer !== 'boolean') return '"answer" must be true or false';
+      return { ...base, type: 'true-false', answer: q.answer };
+    default:
+      return '"type" must be "multiple-choice", "cloze" or "true-false"';
+  }
+};
+
+// Validates the raw `{questions}` object returned for a quiz request, keeping the usable questions
+export const validateQuiz = (json: unknown): ValidatedQuiz => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return { issues: [{ field: 'response', message: 'Response is not a JSON object' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const questions = (json as Record<string, unknown>).questions;
+  if (!Array.isArray(questions)) {
+    return { issues: [{ field: 'quiz', message: questions === undefined ? 'missing "questions"' : '"questions" must be an array' }] };
+  }
+
+  const valid: RawQuizQuestion[] = [];
+  questions.forEach((q, index) => {
+    const result = validateQuestion(q);
+    if (typeof result === 'string') {
+      issues.push({ field: 'quiz', message: `question ${index + 1} ${result}` });
+    } else {
+      valid.push(result);
+    }
+  });
+  if (valid.length === 0 && questions.length === 0) {
+    issues.push({ field: 'quiz', message: 'must contain at least one question' });
+  }
+  return valid.length > 0 ? { questions: valid, issues } : { issues };
+};
+
+const FIELD_LABELS: Record<ContentField, string> = {
+  response: 'Response',
+  summary: 'Summary',
+  diagramCode: 'Diagram',
+  flashcards: 'Flashcards',
+  quiz: 'Quiz',
+};
+
+export const describeIssues = (issues: ValidationIssue[]): string => {
+  const byField = new Map<ContentField, string[]>();
+  issues.forEach(issue => {
+    byField.set(issue.field, [...(byField.get(issue.field) || []), issue.message]);
+  });
+  return Array.from(byField.entries())
+    .map(([field, messages]) => `${FIELD_LABELS[field]}: ${messages.join('; ')}`)
+    .join('. ');
+};
+
+export class ContentValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`The model returned unusable content. ${describeIssues(issues)}`);
+    this.name = 'ContentValidationError';
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,109 @@
+// Thin promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'studysketch';
+const DB_VERSION = 3;
+
+export const STORES = {
+  sessions: 'sessions',
+  responses: 'responses',
+  meta: 'meta', // Small bookkeeping records, e.g. the response cache's running totals
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Each case falls through so databases created by older versions get every later store
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        switch (event.oldVersion) {
+          case 0:
+            db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+          case 1:
+            db.createObjectStore(STORES.responses, { keyPath: 'key' });
+          case 2: {
+            // The cache is only an optimisation, so it starts over instead of being re-measured
+            const responses = request.transaction!.objectStore(STORES.responses);
+            responses.clear();
+            responses.createIndex('lastUsedAt', 'lastUsedAt');
+            db.createObjectStore(STORES.meta, { keyPath: 'key' });
+          }
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+export const getOne = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const put = async <T>(store: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).put(value));
+};
+
+export const remove = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const clear = async (store: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
+
+// Runs `run` in one transaction over `stores`, resolving once the transaction has committed.
+// `run` must only await requests made on `tx`, or the transaction closes early.
+export const withTransaction = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  let result: T;
+  try {
+    result = await run(tx);
+  } catch (error) {
+    // Undo the writes made so far; a failed request may already have ended the transaction
+    try {
+      tx.abort();
+    } catch {
+      // Already finished
+    }
+    committed.catch(() => undefined);
+    throw error;
+  }
+  await committed;
+  return result;
+};
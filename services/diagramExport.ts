@@ -0,0 +1,204 @@
+import mermaid from 'mermaid';
+import { downloadBlob } from './download';
+
+// Diagram export renders the code again off-screen instead of copying the on-screen SVG,
+// so the output is independent of the pan/zoom transform and always reflects the edited code.
+
+export type PdfPageSize = 'a4' | 'letter';
+export type PdfLayout = 'fit' | 'tile';
+
+export interface RenderedSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const EXPORT_PADDING = 16;
+
+// Canvas rasterization refuses SVGs with HTML labels in some browsers, so export with SVG text labels
+const EXPORT_DIRECTIVE = '%%{init: {"htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%\n';
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fontFamiliesIn = (css: string): Set<string> => {
+  const families = new Set<string>();
+  for (const match of css.matchAll(/font-family\s*:\s*([^;}]+)/g)) {
+    match[1].split(',').forEach(f => families.add(f.trim().replace(/^["']|["']$/g, '').toLowerCase()));
+  }
+  return families;
+};
+
+// Cross-origin stylesheets (e.g. Google Fonts) don't expose cssRules, so fetch their text instead
+const fontFaceBlocks = async (sheet: CSSStyleSheet): Promise<string[]> => {
+  try {
+    const blocks: string[] = [];
+    for (const rule of Array.from(sheet.cssRules)) {
+      if (rule instanceof CSSFontFaceRule) blocks.push(rule.cssText);
+      if (rule instanceof CSSImportRule && rule.styleSheet) blocks.push(...await fontFaceBlocks(rule.styleSheet));
+    }
+    return blocks;
+  } catch (e) {
+    if (!sheet.href) return [];
+    const css = await (await fetch(sheet.href)).text();
+    return css.match(/@font-face\s*{[^}]*}/g) || [];
+  }
+};
+
+// Embeds the @font-face rules for every font the SVG uses, with font files as data URIs
+const inlineFontCss = async (svgCss: string): Promise<string> => {
+  const used = fontFamiliesIn(svgCss);
+  const blocks = (await Promise.all(Array.from(document.styleSheets).map(fontFaceBlocks))).flat();
+  const inlined: string[] = [];
+
+  for (const block of blocks) {
+    const family = block.match(/font-family\s*:\s*["']?([^;"']+)/)?.[1]?.trim().toLowerCase();
+    if (!family || !used.has(family)) continue;
+
+    let css = block;
+    for (const [, url] of block.matchAll(/url\(["']?([^"')]+)["']?\)/g)) {
+      if (url.startsWith('data:')) continue;
+      try {
+        css = css.replace(url, await blobToDataUrl(await (await fetch(url)).blob()));
+      } catch (e) {
+        console.warn("Could not inline font", url, e);
+      }
+    }
+    inlined.push(css);
+  }
+  return inlined.join('\n');
+};
+
+export const renderExportSvg = async (code: string): Promise<RenderedSvg> => {
+  const { svg } = await mermaid.render(`mermaid-export-${Date.now()}`, EXPORT_DIRECTIVE + code);
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+
+  const viewBox = (root.getAttribute('viewBox') || '0 0 800 600').split(/[\s,]+/).map(Number);
+  const [x, y, w, h] = viewBox;
+  const width = Math.ceil(w + EXPORT_PADDING * 2);
+  const height = Math.ceil(h + EXPORT_PADDING * 2);
+
+  // Explicit size and a solid background so the file looks the same outside the app
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('viewBox', `${x - EXPORT_PADDING} ${y - EXPORT_PADDING} ${width} ${height}`);
+  root.setAttribute('width', String(width));
+  root.setAttribute('height', String(height));
+  root.removeAttribute('style');
+
+  const background = doc.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(x - EXPORT_PADDING));
+  background.setAttribute('y', String(y - EXPORT_PADDING));
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  background.setAttribute('fill', '#ffffff');
+  root.insertBefore(background, root.firstChild);
+
+  const styles = Array.from(root.querySelectorAll('style')).map(s => s.textContent || '').join('\n');
+  try {
+    const fontCss = await inlineFontCss(styles);
+    if (fontCss) {
+      const style = doc.createElementNS(SVG_NS, 'style');
+      style.textContent = fontCss;
+      root.insertBefore(style, root.firstChild);
+    }
+  } catch (e) {
+    console.warn("Font inlining failed, exporting without embedded fonts", e);
+  }
+
+  return { svg: new XMLSerializer().serializeToString(root), width, height };
+};
+
+const rasterize = async ({ svg, width, height }: RenderedSvg, scale: number): Promise<HTMLCanvasElement> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Could not load the diagram image"));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas is not supported in this browser");
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode PNG")), 'image/png');
+  });
+
+export const exportSvg = async (code: string, fileName: string) => {
+  const rendered = await renderExportSvg(code);
+  downloadBlob(new Blob([rendered.svg], { type: 'image/svg+xml' }), `${fileName}.svg`);
+};
+
+export const exportPng = async (code: string, fileName: string, scale: number) => {
+  const canvas = await rasterize(await renderExportSvg(code), scale);
+  downloadBlob(await canvasToBlob(canvas), `${fileName}.png`);
+};
+
+const PAGE_MARGIN_PT = 24;
+// Tiles print the diagram at its natural size: 1 CSS pixel = 0.75pt
+const TILE_PT_PER_PX = 0.75;
+const PDF_RASTER_SCALE = 2;
+
+export const exportPdf = async (code: string, fileName: string, pageSize: PdfPageSize, layout: PdfLayout) => {
+  const { jsPDF } = await import('jspdf');
+  const rendered = await renderExportSvg(code);
+  const canvas = await rasterize(rendered, PDF_RASTER_SCALE);
+  const landscape = rendered.width > rendered.height;
+  const pdf = new jsPDF({ unit: 'pt', format: pageSize, orientation: landscape ? 'landscape' : 'portrait' });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const usableWidth = pageWidth - PAGE_MARGIN_PT * 2;
+  const usableHeight = pageHeight - PAGE_MARGIN_PT * 2;
+
+  if (layout === 'fit') {
+    const ratio = Math.min(usableWidth / rendered.width, usableHeight / rendered.height);
+    const w = rendered.width * ratio;
+    const h = rendered.height * ratio;
+    pdf.addImage(canvas, 'PNG', (pageWidth - w) / 2, (pageHeight - h) / 2, w, h);
+  } else {
+    // Slice the raster into page-sized tiles, left to right then top to bottom
+    const tileWidthPx = (usableWidth / TILE_PT_PER_PX) * PDF_RASTER_SCALE;
+    const tileHeightPx = (usableHeight / TILE_PT_PER_PX) * PDF_RASTER_SCALE;
+    const columns = Math.ceil(canvas.width / tileWidthPx);
+    const rows = Math.ceil(canvas.height / tileHeightPx);
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const sw = Math.min(tileWidthPx, canvas.width - col * tileWidthPx);
+        const sh = Math.min(tileHeightPx, canvas.height - row * tileHeightPx);
+        const tile = document.createElement('canvas');
+        tile.width = Math.ceil(sw);
+        tile.height = Math.ceil(sh);
+        tile.getContext('2d')!.drawImage(canvas, col * tileWidthPx, row * tileHeightPx, sw, sh, 0, 0, sw, sh);
+
+        if (row > 0 || col > 0) pdf.addPage(pageSize, landscape ? 'landscape' : 'portrait');
+        const scale = TILE_PT_PER_PX / PDF_RASTER_SCALE;
+        pdf.addImage(tile, 'PNG', PAGE_MARGIN_PT, PAGE_MARGIN_PT, sw * scale, sh * scale);
+        pdf.setFontSize(8);
+        pdf.setTextColor(148, 163, 184);
+        pdf.text(`Row ${row + 1}, column ${col + 1} of ${rows} x ${columns}`, PAGE_MARGIN_PT, pageHeight - PAGE_MARGIN_PT / 2);
+      }
+    }
+  }
+
+  pdf.save(`${fileName}.pdf`);
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_DIAGRAM_HISTORY,
+  canRedo,
+  canUndo,
+  currentCode,
+  historyFromCodes,
+  nameVersion,
+  recordVersion,
+  redo,
+  restoreVersion,
+  undo
+} from './diagramHistory';
+
+const T = Date.UTC(2025, 0, 1);
+
+const generated = () => recordVersion(EMPTY_DIAGRAM_HISTORY, 'graph TD\n  A', 'generated', T);
+
+describe('recordVersion', () => {
+  it('folds quick successive code edits into one version', () => {
+    let history = recordVersion(generated(), 'graph TD\n  A-', 'code', T + 100);
+    history = recordVersion(history, 'graph TD\n  A--', 'code', T + 600);
+    history = recordVersion(history, 'graph TD\n  A-->B', 'code', T + 1200);
+    expect(history.versions).toHaveLength(2);
+    expect(currentCode(history)).toBe('graph TD\n  A-->B');
+  });
+
+  it('starts a new version after a pause in editing', () => {
+    let history = recordVersion(generated(), 'graph TD\n  A-', 'code', T + 100);
+    history = recordVersion(history, 'graph TD\n  A-->B', 'code', T + 5000);
+    expect(history.versions).toHaveLength(3);
+  });
+
+  it('never folds other kinds of change or named versions', () => {
+    let history = recordVersion(generated(), 'graph TD\n  A-->B', 'nodes', T + 100);
+    history = recordVersion(history, 'graph TD\n  A-->C', 'code', T + 200);
+    expect(history.versions).toHaveLength(3);
+
+    history = nameVersion(history, history.currentId!, 'Checkpoint');
+    history = recordVersion(history, 'graph TD\n  A-->D', 'code', T + 300);
+    expect(history.versions).toHaveLength(4);
+  });
+
+  it('ignores code that did not change', () => {
+    const history = generated();
+    expect(recordVersion(history, 'graph TD\n  A', 'code', T + 100)).toBe(history);
+  });
+});
+
+describe('undo and redo', () => {
+  const edited = () => recordVersion(recordVersion(generated(), 'graph TD\n  A-->B', 'nodes', T + 100), 'graph TD\n  A-->B-->C', 'nodes', T + 200);
+
+  it('walks back and forward along the versions', () => {
+    let history = edited();
+    history = undo(undo(history));
+    expect(currentCode(history)).toBe('graph TD\n  A');
+    expect(canUndo(history)).toBe(false);
+    history = redo(history);
+    expect(currentCode(history)).toBe('graph TD\n  A-->B');
+    history = redo(history);
+    expect(currentCode(history)).toBe('graph TD\n  A-->B-->C');
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('clears redo on a new edit but keeps the abandoned branch restorable', () => {
+    let history = undo(edited());
+    const abandoned = history.redo[0];
+    history = recordVersion(history, 'graph TD\n  A-->X', 'nodes', T + 300);
+    expect(canRedo(history)).toBe(false);
+    history = restoreVersion(history, abandoned);
+    expect(currentCode(history)).toBe('graph TD\n  A-->B-->C');
+    expect(history.versions.at(-1)?.kind).toBe('restore');
+  });
+
+  it('does not fold an edit into a version that was undone to', () => {
+    let history = recordVersion(generated(), 'graph TD\n  A-', 'code', T + 100);
+    history = recordVersion(history, 'graph TD\n  A-->B', 'code', T + 5000);
+    history = recordVersion(undo(history), 'graph TD\n  A-->C', 'code', T + 5100);
+    expect(history.versions).toHaveLength(4);
+  });
+});
+
+describe('pruning', () => {
+  it('drops the oldest unnamed versions past the limit', () => {
+    let history = generated();
+    history = nameVersion(history, history.currentId!, 'Original');
+    for (let i = 0; i < 120; i++) history = recordVersion(history, `graph TD\n  A-->N${i}`, 'nodes', T + 2000 * (i + 1));
+    expect(history.versions).toHaveLength(100);
+    expect(history.versions[0].name).toBe('Original');
+    expect(history.versions[1].parentId).toBe(history.versions[0].id);
+  });
+});
+
+describe('historyFromCodes', () => {
+  it('rebuilds generated and edited versions for older sessions', () => {
+    const history = historyFromCodes('graph TD\n  A', 'graph TD\n  A-->B', T);
+    expect(history.versions.map(v => v.kind)).toEqual(['generated', 'code']);
+    expect(currentCode(undo(history))).toBe('graph TD\n  A');
+  });
+});
@@ -0,0 +1,117 @@
+import { DiagramHistory, DiagramVersion, DiagramVersionKind } from '../types';
+
+// Versions of the diagram code. Every change appends a version pointing at the one it was
+// made from, so undo walks back along that chain while older branches stay restorable.
+
+// Code edits this close together are folded into one version instead of one per keystroke
+const EDIT_COALESCE_MS = 1500;
+
+// Oldest unnamed versions are dropped beyond this
+const MAX_VERSIONS = 100;
+
+export const VERSION_KIND_LABELS: Record<DiagramVersionKind, string> = {
+  generated: 'Generated',
+  code: 'Code edit',
+  nodes: 'Node edit',
+  fix: 'Auto-fix',
+  expand: 'Expanded node',
+  restore: 'Restored'
+};
+
+export const EMPTY_DIAGRAM_HISTORY: DiagramHistory = { versions: [], currentId: null, redo: [] };
+
+const createVersionId = (): string =>
+  `v-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const findVersion = (history: DiagramHistory, id: string | null): DiagramVersion | undefined =>
+  history.versions.find(version => version.id === id);
+
+export const currentCode = (history: DiagramHistory): string =>
+  findVersion(history, history.currentId)?.code ?? '';
+
+export const canUndo = (history: DiagramHistory): boolean =>
+  Boolean(findVersion(history, findVersion(history, history.currentId)?.parentId ?? null));
+
+export const canRedo = (history: DiagramHistory): boolean => history.redo.length > 0;
+
+// Drops the oldest unnamed versions, re-pointing their children at their parents
+const prune = (history: DiagramHistory): DiagramHistory => {
+  let { versions, redo } = history;
+  while (versions.length > MAX_VERSIONS) {
+    const dropped = versions.find(version => !version.name && version.id !== history.currentId);
+    if (!dropped) break;
+    versions = versions
+      .filter(version => version !== dropped)
+      .map(version => version.parentId === dropped.id ? { ...version, parentId: dropped.parentId } : version);
+    redo = redo.filter(id => id !== dropped.id);
+  }
+  return { ...history, versions, redo };
+};
+
+export const recordVersion = (
+  history: DiagramHistory,
+  code: string,
+  kind: DiagramVersionKind,
+  now: number = Date.now()
+): DiagramHistory => {
+  const current = findVersion(history, history.currentId);
+  if (current?.code === code) return history;
+
+  const canCoalesce = current
+    && kind === 'code'
+    && current.kind === 'code'
+    && !current.name
+    && now - current.updatedAt < EDIT_COALESCE_MS
+    && !history.versions.some(version => version.parentId === current.id);
+  if (canCoalesce) {
+    return {
+      ...history,
+      versions: history.versions.map(version => version === current ? { ...version, code, updatedAt: now } : version),
+      redo: []
+    };
+  }
+
+  const version: DiagramVersion = {
+    id: createVersionId(),
+    code,
+    kind,
+    createdAt: now,
+    updatedAt: now,
+    ...(current ? { parentId: current.id } : {})
+  };
+  return prune({ versions: [...history.versions, version], currentId: version.id, redo: [] });
+};
+
+export const undo = (history: DiagramHistory): DiagramHistory => {
+  const current = findVersion(history, history.currentId);
+  if (!current || !canUndo(history)) return history;
+  return { ...history, currentId: current.parentId!, redo: [current.id, ...history.redo] };
+};
+
+export const redo = (history: DiagramHistory): DiagramHistory => {
+  const [next, ...rest] = history.redo;
+  return next ? { ...history, currentId: next, redo: rest } : history;
+};
+
+// Restoring appends a copy, so it can itself be undone
+export const restoreVersion = (history: DiagramHistory, id: string): DiagramHistory => {
+  const version = findVersion(history, id);
+  return version ? recordVersion(history, version.code, 'restore') : history;
+};
+
+export const nameVersion = (history: DiagramHistory, id: string, name: string): DiagramHistory => ({
+  ...history,
+  versions: history.versions.map(version => {
+    if (version.id !== id) return version;
+    const { name: _, ...rest } = version;
+    return name.trim() ? { ...rest, name: name.trim() } : rest;
+  })
+});
+
+// History for sessions saved before versions were kept: the generated code, then the edited code
+export const historyFromCodes = (generatedCode: string | undefined, editedCode: string, at: number): DiagramHistory => {
+  let history = EMPTY_DIAGRAM_HISTORY;
+  if (generatedCode) history = recordVersion(history, generatedCode, 'generated', at);
+  if (editedCode) history = recordVersion(history, editedCode, 'code', at);
+  return history;
+};
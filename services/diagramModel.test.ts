@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { addChildNode, deleteNode, mergeNodes, parseDiagram, renameNode, reparentNode, serializeDiagram } from './diagramModel';
+
+const GRAPH = `%%{init: {'theme': 'base'}}%%
+flowchart TD
+    A[Start] --> B(Process)
+    subgraph S1 [Inner]
+        B --> C{Decide}
+        style C fill:#f9f
+    end
+    %% trailing note
+    C -->|yes| D((Done))
+    classDef hot fill:#f00
+    class D hot`;
+
+const MINDMAP = `mindmap
+  root((Topic))
+    A[Alpha]
+      A1(One)
+    B
+      ::icon(fa fa-book)`;
+
+const parse = (code: string) => {
+  const model = parseDiagram(code);
+  if (!model) throw new Error('Diagram did not parse');
+  return model;
+};
+
+const roundTrip = (code: string) => serializeDiagram(parse(code));
+
+describe('parseDiagram', () => {
+  it('reads graph nodes, edges and subgraphs', () => {
+    const model = parse(GRAPH);
+    expect(model.kind).toBe('graph');
+    expect(model.nodes.map(n => [n.id, n.label, n.group])).toEqual([
+      ['A', 'Start', undefined],
+      ['B', 'Process', undefined],
+      ['C', 'Decide', 'S1'],
+      ['D', 'Done', undefined]
+    ]);
+    expect(model.edges).toContainEqual({ from: 'C', to: 'D', link: '-->', label: 'yes' });
+    expect(model.subgraphs.map(s => s.id)).toEqual(['S1']);
+  });
+
+  it('reads the mindmap hierarchy from indentation', () => {
+    expect(parse(MINDMAP).nodes.map(n => [n.id, n.parentId])).toEqual([
+      ['root', undefined],
+      ['A', 'root'],
+      ['A1', 'A'],
+      ['B', 'root']
+    ]);
+  });
+
+  it('leaves diagram types the editor does not model alone', () => {
+    expect(parseDiagram('sequenceDiagram\n    A->>B: Hi')).toBeNull();
+  });
+});
+
+describe('serializeDiagram', () => {
+  it.each([['graph', GRAPH], ['mindmap', MINDMAP]])('round-trips %s code without further changes', (_, code) => {
+    const once = roundTrip(code);
+    expect(roundTrip(once)).toBe(once);
+  });
+
+  it('keeps the preamble and unmodelled statements', () => {
+    const code = roundTrip(GRAPH);
+    expect(code.startsWith("%%{init: {'theme': 'base'}}%%\nflowchart TD")).toBe(true);
+    for (const line of ['classDef hot fill:#f00', 'class D hot', '%% trailing note']) expect(code).toContain(line);
+  });
+
+  it('writes statements back inside their subgraph', () => {
+    const lines = roundTrip(GRAPH).split('\n').map(line => line.trim());
+    const style = lines.indexOf('style C fill:#f9f');
+    expect(style).toBeGreaterThan(lines.indexOf('subgraph S1 [Inner]'));
+    expect(style).toBeLessThan(lines.indexOf('end'));
+  });
+
+  it('keeps mindmap decorations with their node', () => {
+    expect(roundTrip(MINDMAP)).toContain('    B\n      ::icon(fa fa-book)');
+  });
+});
+
+describe('editing', () => {
+  it('adds child nodes with fresh ids', () => {
+    const { model, id } = addChildNode(parse(GRAPH), 'C', 'Next step');
+    expect(model.nodes.find(n => n.id === id)).toMatchObject({ label: 'Next step', group: 'S1' });
+    expect(model.edges).toContainEqual({ from: 'C', to: id, link: '-->' });
+  });
+
+  it('gives renamed graph nodes a shape so the label shows', () => {
+    const model = renameNode(parse('graph TD\n    A --> B'), 'B', 'Bee');
+    expect(serializeDiagram(model)).toContain('B["Bee"]');
+  });
+
+  it('drops edges and statements that refer to a deleted graph node', () => {
+    const code = serializeDiagram(deleteNode(parse(GRAPH), 'C'));
+    expect(code).not.toMatch(/\bC\b/);
+    expect(code).toContain('A --> B');
+  });
+
+  it('moves the children of a deleted mindmap node up a level', () => {
+    const model = deleteNode(parse(MINDMAP), 'A');
+    expect(model.nodes.find(n => n.id === 'A1')?.parentId).toBe('root');
+  });
+
+  it('refuses to delete a mindmap root that has children', () => {
+    const model = parse(MINDMAP);
+    expect(deleteNode(model, 'root')).toBe(model);
+  });
+
+  it('moves a node under a new parent but never under its own descendant', () => {
+    const model = parse(MINDMAP);
+    expect(reparentNode(model, 'A', 'B').nodes.find(n => n.id === 'A')?.parentId).toBe('B');
+    expect(reparentNode(model, 'A', 'A1')).toBe(model);
+  });
+
+  it('merges labels and moves children to the kept node', () => {
+    const model = mergeNodes(parse(MINDMAP), 'B', 'A');
+    expect(model.nodes.find(n => n.id === 'B')?.label).toBe('B / Alpha');
+    expect(model.nodes.find(n => n.id === 'A1')?.parentId).toBe('B');
+    expect(model.nodes.some(n => n.id === 'A')).toBe(false);
+  });
+});
@@ -0,0 +1,522 @@
+// In-memory node/edge model for Mermaid `mindmap` and `graph`/`flowchart` code.
+// The visual editor edits this model and serializes it back, so the code editor and the
+// rendered diagram stay in sync through `currentDiagramCode` in both directions.
+
+export interface NodeShape {
+  open: string;
+  close: string;
+}
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  shape: NodeShape | null; // null: mindmap default node, or graph node referenced without a shape
+  parentId?: string; // Mindmap only
+  group?: string; // Graph only: id of the enclosing subgraph
+  decorations: string[]; // Mindmap only: `::icon(...)` and `:::class` lines kept with the node
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  link: string; // e.g. "-->", "-.->", "==>"
+  label?: string;
+}
+
+export interface Subgraph {
+  id: string;
+  header: string; // The full `subgraph ...` line
+  parent?: string;
+}
+
+// A graph statement kept verbatim, written back where it was found
+export interface PassthroughLine {
+  text: string;
+  group?: string; // Id of the enclosing subgraph
+  after?: string; // The node ("node:<id>") or subgraph ("subgraph:<id>") it followed in that group
+}
+
+export interface DiagramModel {
+  kind: 'mindmap' | 'graph';
+  preamble: string[]; // Directives, front matter and comments before the header
+  header: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  subgraphs: Subgraph[];
+  passthrough: PassthroughLine[]; // Graph statements the editor doesn't model (style, classDef, click, comments, ...)
+}
+
+// Longest delimiters first so "((" isn't read as "("
+const MINDMAP_SHAPES: NodeShape[] = [
+  { open: '((', close: '))' },
+  { open: '))', close: '((' },
+  { open: '{{', close: '}}' },
+  { open: '(', close: ')' },
+  { open: ')', close: '(' },
+  { open: '[', close: ']' },
+];
+
+const GRAPH_SHAPES: NodeShape[] = [
+  { open: '(((', close: ')))' },
+  { open: '((', close: '))' },
+  { open: '([', close: '])' },
+  { open: '[[', close: ']]' },
+  { open: '[(', close: ')]' },
+  { open: '{{', close: '}}' },
+  { open: '[/', close: '/]' },
+  { open: '[\\', close: '\\]' },
+  { open: '[/', close: '\\]' },
+  { open: '[\\', close: '/]' },
+  { open: '(', close: ')' },
+  { open: '[', close: ']' },
+  { open: '{', close: '}' },
+  { open: '>', close: ']' },
+];
+
+const unquote = (text: string): string => {
+  const trimmed = text.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+    ? trimmed.slice(1, -1).replace(/#quot;/g, '"')
+    : trimmed;
+};
+
+const quote = (label: string): string => `"${label.replace(/"/g, '#quot;')}"`;
+
+const isPreambleLine = (line: string) => /^\s*(%%|---|$)/.test(line);
+
+// ---------------------------------------------------------------------------
+// Mindmap
+// ---------------------------------------------------------------------------
+
+const parseMindmapNode = (text: string, index: number): Omit<DiagramNode, 'parentId' | 'decorations'> => {
+  for (const shape of MINDMAP_SHAPES) {
+    const openAt = text.indexOf(shape.open);
+    if (openAt === -1 || !text.endsWith(shape.close) || openAt + shape.open.length > text.length - shape.close.length) continue;
+    const id = text.slice(0, openAt).trim();
+    if (/\s/.test(id)) continue;
+    return {
+      id: id || `node${index}`,
+      label: unquote(text.slice(openAt + shape.open.length, text.length - shape.close.length)),
+      shape
+    };
+  }
+  return { id: text, label: unquote(text), shape: null };
+};
+
+const parseMindmap = (lines: string[], preamble: string[], header: string): DiagramModel => {
+  const nodes: DiagramNode[] = [];
+  const stack: { indent: number; id: string }[] = [];
+  const usedIds = new Set<string>();
+
+  lines.forEach(line => {
+    if (!line.trim() || line.trim().startsWith('%%')) return;
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (text.startsWith('::icon(') || text.startsWith(':::')) {
+      nodes[nodes.length - 1]?.decorations.push(text);
+      return;
+    }
+
+    while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+
+    const parsed = parseMindmapNode(text, nodes.length);
+    // Mindmap ids only need to be unique for the editor, Mermaid itself allows repeats
+    let id = parsed.id;
+    for (let n = 2; usedIds.has(id); n++) id = `${parsed.id}_${n}`;
+    usedIds.add(id);
+
+    nodes.push({ ...parsed, id, parentId: stack[stack.length - 1]?.id, decorations: [] });
+    stack.push({ indent, id });
+  });
+
+  return {
+    kind: 'mindmap',
+    preamble,
+    header,
+    nodes,
+    edges: nodes.filter(n => n.parentId).map(n => ({ from: n.parentId!, to: n.id, link: '---' })),
+    subgraphs: [],
+    passthrough: []
+  };
+};
+
+const serializeMindmapNode = (node: DiagramNode): string => {
+  if (!node.shape) return node.label;
+  return `${/^node\d+$/.test(node.id) ? '' : node.id}${node.shape.open}${quote(node.label)}${node.shape.close}`;
+};
+
+const serializeMindmap = (model: DiagramModel): string => {
+  const lines = [...model.preamble, model.header];
+  const visit = (parentId: string | undefined, depth: number) => {
+    model.nodes.filter(n => n.parentId === parentId).forEach(node => {
+      const indent = '  '.repeat(depth + 1);
+      lines.push(indent + serializeMindmapNode(node));
+      node.decorations.forEach(d => lines.push(indent + '  ' + d));
+      visit(node.id, depth + 1);
+    });
+  };
+  visit(undefined, 0);
+  return lines.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Graph / flowchart
+// ---------------------------------------------------------------------------
+
+// Dashes and dots only inside ids, so `A-->B` splits into id, link, id
+const NODE_ID = /^([A-Za-z0-9_]+(?:[-.][A-Za-z0-9_]+)*)/;
+const LINK = /^\s*(<?(?:-{2,}|={2,}|-\.+-|~{3})(?:>|o|x)?)\s*(?:\|([^|]*)\|)?\s*/;
+const TEXT_LINK = /^\s*(--|==)\s+([^-=>][^>]*?)\s+(-{2,}>|={2,}>|-{3,}|={3,})\s*/;
+
+interface NodeToken {
+  id: string;
+  label?: string;
+  shape?: NodeShape;
+}
+
+// Reads `id` or `id<open>label<close>` from the start of `text`
+const readGraphNode = (text: string): { token: NodeToken; rest: string } | null => {
+  const idMatch = text.match(NODE_ID);
+  if (!idMatch) return null;
+  const id = idMatch[1];
+  let rest = text.slice(id.length);
+
+  for (const shape of GRAPH_SHAPES) {
+    if (!rest.startsWith(shape.open)) continue;
+    const body = rest.slice(shape.open.length);
+    // Quoted labels may contain the closing delimiter
+    const closeAt = body.trimStart().startsWith('"')
+      ? body.indexOf(shape.close, body.indexOf('"', body.indexOf('"') + 1))
+      : body.indexOf(shape.close);
+    if (closeAt === -1) continue;
+    return {
+      token: { id, label: unquote(body.slice(0, closeAt)), shape },
+      rest: body.slice(closeAt + shape.close.length)
+    };
+  }
+  return { token: { id }, rest };
+};
+
+// Parses `A --> B["x"] -.->|y| C`; returns null for statements the editor doesn't model
+const parseGraphStatement = (statement: string): { tokens: NodeToken[]; links: { link: string; label?: string }[] } | null => {
+  const tokens: NodeToken[] = [];
+  const links: { link: string; label?: string }[] = [];
+  let rest = statement.trim();
+
+  const first = readGraphNode(rest);
+  if (!first) return null;
+  tokens.push(first.token);
+  rest = first.rest;
+
+  while (rest.trim()) {
+    const textLink = rest.match(TEXT_LINK);
+    const linkMatch = textLink || rest.match(LINK);
+    if (!linkMatch) return null;
+    links.push(textLink
+      ? { link: textLink[3], label: textLink[2].trim() }
+      : { link: linkMatch[1], label: linkMatch[2]?.trim() });
+    rest = rest.slice(linkMatch[0].length);
+
+    const next = readGraphNode(rest);
+    if (!next) return null;
+    tokens.push(next.token);
+    rest = next.rest;
+  }
+  return { tokens, links };
+};
+
+const PASSTHROUGH_KEYWORDS = /^(style|classDef|class|click|linkStyle|direction)\b/;
+
+const parseGraph = (lines: string[], preamble: string[], header: string): DiagramModel => {
+  const nodes = new Map<string, DiagramNode>();
+  const edges: DiagramEdge[] = [];
+  const subgraphs: Subgraph[] = [];
+  const passthrough: PassthroughLine[] = [];
+  const groupStack: string[] = [];
+  // The latest node or subgraph started in each group, keyed by group id ('' at the top level)
+  const lastEntry = new Map<string, string>();
+  const currentGroup = () => groupStack[groupStack.length - 1];
+  const keep = (text: string) => {
+    const group = currentGroup();
+    passthrough.push({ text, group, after: lastEntry.get(group ?? '') });
+  };
+
+  const addNode = (token: NodeToken) => {
+    const existing = nodes.get(token.id);
+    if (existing) {
+      if (token.shape) {
+        existing.shape = token.shape;
+        existing.label = token.label ?? existing.label;
+      }
+      return;
+    }
+    const group = currentGroup();
+    nodes.set(token.id, {
+      id: token.id,
+      label: token.label ?? token.id,
+      shape: token.shape ?? null,
+      group,
+      decorations: []
+    });
+    lastEntry.set(group ?? '', `node:${token.id}`);
+  };
+
+  lines.forEach(line => {
+    const text = line.trim().replace(/;$/, '');
+    if (!text) return;
+    if (text.startsWith('%%')) {
+      keep(text);
+      return;
+    }
+
+    const subgraph = text.match(/^subgraph\s+([A-Za-z0-9_\-.]+)?/);
+    if (subgraph) {
+      const id = subgraph[1] || `subgraph${subgraphs.length}`;
+      const parent = currentGroup();
+      subgraphs.push({ id, header: text, parent });
+      lastEntry.set(parent ?? '', `subgraph:${id}`);
+      groupStack.push(id);
+      return;
+    }
+    if (text === 'end') {
+      groupStack.pop();
+      return;
+    }
+    if (PASSTHROUGH_KEYWORDS.test(text)) {
+      keep(text);
+      return;
+    }
+
+    // `A & B --> C` and similar are kept verbatim rather than expanded
+    const parsed = text.includes('&') ? null : parseGraphStatement(text);
+    if (!parsed) {
+      keep(text);
+      return;
+    }
+    parsed.tokens.forEach(addNode);
+    parsed.links.forEach((link, i) => {
+      edges.push({ from: parsed.tokens[i].id, to: parsed.tokens[i + 1].id, ...link });
+    });
+  });
+
+  return { kind: 'graph', preamble, header, nodes: Array.from(nodes.values()), edges, subgraphs, passthrough };
+};
+
+const serializeGraphNode = (node: DiagramNode): string =>
+  node.shape ? `${node.id}${node.shape.open}${quote(node.label)}${node.shape.close}` : node.id;
+
+const serializeGraph = (model: DiagramModel): string => {
+  const lines = [...model.preamble, model.header];
+
+  // Passthrough lines follow the entry they came after; lines whose entry was deleted end the group
+  const writeGroup = (group: string | undefined, depth: number, afterEntries: () => void = () => {}) => {
+    const indent = '    '.repeat(depth);
+    const groupLines = model.passthrough.filter(line => line.group === group);
+    const writeLines = (after: string | undefined) =>
+      groupLines.filter(line => line.after === after).forEach(line => lines.push(indent + line.text));
+    const entries = [
+      ...model.nodes.filter(n => n.group === group).map(n => `node:${n.id}`),
+      ...model.subgraphs.filter(s => s.parent === group).map(s => `subgraph:${s.id}`)
+    ];
+
+    writeLines(undefined);
+    model.nodes.filter(n => n.group === group).forEach(n => {
+      lines.push(indent + serializeGraphNode(n));
+      writeLines(`node:${n.id}`);
+    });
+    model.subgraphs.filter(s => s.parent === group).forEach(s => {
+      lines.push(indent + s.header);
+      writeGroup(s.id, depth + 1);
+      lines.push(indent + 'end');
+      writeLines(`subgraph:${s.id}`);
+    });
+    afterEntries();
+    groupLines
+      .filter(line => line.after !== undefined && !entries.includes(line.after))
+      .forEach(line => lines.push(indent + line.text));
+  };
+  writeGroup(undefined, 1, () => model.edges.forEach(edge => {
+    lines.push(`    ${edge.from} ${edge.link}${edge.label ? `|${edge.label}|` : ''} ${edge.to}`);
+  }));
+  return lines.join('\n');
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export const parseDiagram = (code: string): DiagramModel | null => {
+  const lines = code.split('\n');
+  let headerIndex = 0;
+  let inFrontMatter = false;
+  while (headerIndex < lines.length) {
+    const line = lines[headerIndex].trim();
+    if (line === '---') inFrontMatter = !inFrontMatter;
+    else if (!inFrontMatter && !isPreambleLine(line)) break;
+    headerIndex++;
+  }
+
+  const header = lines[headerIndex]?.trim() || '';
+  const preamble = lines.slice(0, headerIndex);
+  const body = lines.slice(headerIndex + 1);
+
+  if (header === 'mindmap') return parseMindmap(body, preamble, header);
+  if (/^(graph|flowchart)\b/.test(header)) return parseGraph(body, preamble, header);
+  return null;
+};
+
+export const serializeDiagram = (model: DiagramModel): string =>
+  model.kind === 'mindmap' ? serializeMindmap(model) : serializeGraph(model);
+
+const descendantsOf = (model: DiagramModel, id: string): Set<string> => {
+  const result = new Set<string>();
+  const visit = (parent: string) => {
+    model.edges.filter(e => e.from === parent && !result.has(e.to)).forEach(e => {
+      result.add(e.to);
+      visit(e.to);
+    });
+  };
+  visit(id);
+  return result;
+};
+
+// Mindmap edges are derived from parentId, so rebuild them after structural changes
+const syncMindmapEdges = (model: DiagramModel): DiagramModel =>
+  model.kind === 'mindmap'
+    ? { ...model, edges: model.nodes.filter(n => n.parentId).map(n => ({ from: n.parentId!, to: n.id, link: '---' })) }
+    : model;
+
+const referencesNode = (line: string, id: string) =>
+  new RegExp(`(^|[\\s,])${id.replace(/[.\-]/g, '\\$&')}([\\s,;]|$)`).test(line);
+
+export const renameNode = (model: DiagramModel, id: string, label: string): DiagramModel => ({
+  ...model,
+  nodes: model.nodes.map(n => {
+    if (n.id !== id) return n;
+    // Graph nodes without a shape only show their id, so give them a box to carry the label
+    const shape = n.shape || (model.kind === 'graph' ? { open: '[', close: ']' } : null);
+    return { ...n, label, shape };
+  })
+});
+
+export const addChildNode = (model: DiagramModel, parentId: string, label: string): { model: DiagramModel; id: string } => {
+  const ids = new Set(model.nodes.map(n => n.id));
+  let n = model.nodes.length + 1;
+  while (ids.has(`n${n}`)) n++;
+  const id = `n${n}`;
+  const parent = model.nodes.find(node => node.id === parentId);
+
+  const node: DiagramNode = model.kind === 'mindmap'
+    ? { id, label, shape: { open: '(', close: ')' }, parentId, decorations: [] }
+    : { id, label, shape: { open: '[', close: ']' }, group: parent?.group, decorations: [] };
+
+  const next = model.kind === 'mindmap'
+    ? syncMindmapEdges({ ...model, nodes: [...model.nodes, node] })
+    : { ...model, nodes: [...model.nodes, node], edges: [...model.edges, { from: parentId, to: id, link: '-->' }] };
+  return { model: next, id };
+};
+
+export const deleteNode = (model: DiagramModel, id: string): DiagramModel => {
+  if (model.kind === 'mindmap') {
+    // Children move up to the deleted node's parent instead of disappearing with it
+    const node = model.nodes.find(n => n.id === id);
+    if (!node?.parentId && model.nodes.some(n => n.parentId === id)) return model; // The root must stay
+    return syncMindmapEdges({
+      ...model,
+      nodes: model.nodes
+        .filter(n => n.id !== id)
+        .map(n => n.parentId === id ? { ...n, parentId: node?.parentId } : n)
+    });
+  }
+  return {
+    ...model,
+    nodes: model.nodes.filter(n => n.id !== id),
+    edges: model.edges.filter(e => e.from !== id && e.to !== id),
+    passthrough: model.passthrough.filter(line => !referencesNode(line.text, id))
+  };
+};
+
+// Returns the model unchanged when the move would create a cycle
+export const reparentNode = (model: DiagramModel, id: string, newParentId: string): DiagramModel => {
+  if (id === newParentId || descendantsOf(model, id).has(newParentId)) return model;
+
+  if (model.kind === 'mindmap') {
+    return syncMindmapEdges({
+      ...model,
+      nodes: model.nodes.map(n => n.id === id ? { ...n, parentId: newParentId } : n)
+    });
+  }
+  const incoming = model.edges.filter(e => e.to === id);
+  const link = incoming[0]?.link || '-->';
+  return {
+    ...model,
+    edges: [...model.edges.filter(e => e.to !== id), { from: newParentId, to: id, link }]
+  };
+};
+
+// Folds `sourceId` into `targetId`: edges and children move over, the labels are combined
+export const mergeNodes = (model: DiagramModel, targetId: string, sourceId: string): DiagramModel => {
+  if (targetId === sourceId) return model;
+  const source = model.nodes.find(n => n.id === sourceId);
+  const target = model.nodes.find(n => n.id === targetId);
+  if (!source || !target) return model;
+
+  const label = target.label === source.label ? target.label : `${target.label} / ${source.label}`;
+  const merged = renameNode(model, targetId, label);
+
+  if (model.kind === 'mindmap') {
+    if (descendantsOf(model, sourceId).has(targetId)) {
+      // Merging an ancestor into its descendant: the target takes the source's place
+      return syncMindmapEdges({
+        ...merged,
+        nodes: merged.nodes
+          .filter(n => n.id !== sourceId)
+          .map(n => n.id === targetId ? { ...n, parentId: source.parentId } : n.parentId === sourceId ? { ...n, parentId: targetId } : n)
+      });
+    }
+    return syncMindmapEdges({
+      ...merged,
+      nodes: merged.nodes
+        .filter(n => n.id !== sourceId)
+        .map(n => n.parentId === sourceId ? { ...n, parentId: targetId } : n)
+    });
+  }
+
+  const seen = new Set<string>();
+  const edges = merged.edges
+    .map(e => ({ ...e, from: e.from === sourceId ? targetId : e.from, to: e.to === sourceId ? targetId : e.to }))
+    .filter(e => {
+      const key = `${e.from}|${e.to}|${e.label || ''}`;
+      if (e.from === e.to || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+
+  return {
+    ...merged,
+    nodes: merged.nodes.filter(n => n.id !== sourceId),
+    edges,
+    passthrough: merged.passthrough.filter(line => !referencesNode(line.text, sourceId))
+  };
+};
+
+// Maps rendered SVG node groups back to model node ids. Mermaid names flowchart nodes
+// `flowchart-<id>-<n>` and mindmap nodes `node_<n>` in definition order.
+export const mapRenderedNodes = (svg: SVGSVGElement, model: DiagramModel): Map<Element, string> => {
+  const result = new Map<Element, string>();
+  const graphIds = new Set(model.nodes.map(n => n.id));
+
+  svg.querySelectorAll('g[id]').forEach(element => {
+    const domId = element.getAttribute('id') || '';
+    if (model.kind === 'mindmap') {
+      const index = domId.match(/(?:^|[-_])node_(\d+)$/)?.[1];
+      const node = index !== undefined ? model.nodes[Number(index)] : undefined;
+      if (node) result.set(element, node.id);
+    } else {
+      const id = domId.match(/flowchart-(.+)-\d+$/)?.[1];
+      if (id && graphIds.has(id)) result.set(element, id);
+    }
+  });
+  return result;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard } from '../types';
+import { cardSimilarity, findDuplicatePairs, mergeCards, pairKey } from './flashcards';
+import { gradeCard } from './scheduler';
+
+const NOW = Date.UTC(2025, 0, 1);
+
+const CHLOROPLAST: Flashcard = { id: 'fc-1', front: 'What is the function of chloroplasts?', back: 'Photosynthesis' };
+const REPHRASED: Flashcard = { id: 'fc-2', front: 'Function of the chloroplast?', back: 'They carry out photosynthesis' };
+const MITOCHONDRIA: Flashcard = { id: 'fc-3', front: 'Where is ATP made?', back: 'In the mitochondria' };
+
+describe('findDuplicatePairs', () => {
+  it('pairs rephrased copies of the same card', () => {
+    const pairs = findDuplicatePairs([CHLOROPLAST, MITOCHONDRIA, REPHRASED]);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ key: 'fc-1|fc-2', first: CHLOROPLAST, second: REPHRASED });
+    expect(pairs[0].similarity).toBeGreaterThanOrEqual(0.55);
+  });
+
+  it('leaves distinct cards alone', () => {
+    expect(cardSimilarity(CHLOROPLAST, MITOCHONDRIA)).toBe(0);
+    expect(findDuplicatePairs([CHLOROPLAST, MITOCHONDRIA])).toEqual([]);
+  });
+
+  it('does not pair cards that only share stop words', () => {
+    const a: Flashcard = { id: 'a', front: 'What is the cell?', back: 'A unit' };
+    const b: Flashcard = { id: 'b', front: 'What is the atom?', back: 'A particle' };
+    expect(findDuplicatePairs([a, b])).toEqual([]);
+  });
+
+  it('skips dismissed pairs whichever way round they were stored', () => {
+    expect(pairKey(REPHRASED, CHLOROPLAST)).toBe(pairKey(CHLOROPLAST, REPHRASED));
+    expect(findDuplicatePairs([REPHRASED, CHLOROPLAST], new Set(['fc-1|fc-2']))).toEqual([]);
+  });
+
+  it('lists the most similar pairs first', () => {
+    const loose: Flashcard = { id: 'fc-4', front: 'Chloroplast function in leaf cells', back: 'Photosynthesis' };
+    const pairs = findDuplicatePairs([loose, CHLOROPLAST, REPHRASED]);
+    expect(pairs[0]).toMatchObject({ key: 'fc-1|fc-2', similarity: 1 });
+    expect(pairs.length).toBeGreaterThan(1);
+    expect(pairs.slice(1).every(pair => pair.similarity < 1)).toBe(true);
+  });
+});
+
+describe('mergeCards', () => {
+  it('keeps the text of the kept card', () => {
+    const merged = mergeCards(CHLOROPLAST, REPHRASED);
+    expect(merged).toEqual(CHLOROPLAST);
+  });
+
+  it('keeps the longer review history from either card', () => {
+    const reviewed = gradeCard(gradeCard(REPHRASED, 'good', NOW), 'good', NOW);
+    const merged = mergeCards(gradeCard(CHLOROPLAST, 'hard', NOW), reviewed);
+    expect(merged).toMatchObject({ id: 'fc-1', front: CHLOROPLAST.front });
+    expect(merged.schedule).toEqual(reviewed.schedule);
+  });
+
+  it('keeps its own schedule when the dropped card was never reviewed', () => {
+    const reviewed = gradeCard(CHLOROPLAST, 'good', NOW);
+    expect(mergeCards(reviewed, REPHRASED).schedule).toEqual(reviewed.schedule);
+  });
+
+  it('fills in source and section from the dropped card', () => {
+    const merged = mergeCards(CHLOROPLAST, { ...REPHRASED, sourceId: 'S2', sectionId: 'section-1' });
+    expect(merged).toMatchObject({ sourceId: 'S2', sectionId: 'section-1' });
+    expect(mergeCards({ ...CHLOROPLAST, sourceId: 'S1' }, { ...REPHRASED, sourceId: 'S2' }).sourceId).toBe('S1');
+  });
+});
@@ -0,0 +1,74 @@
+import { Flashcard } from '../types';
+
+// Near-duplicate detection for flashcards. Cards are compared by word overlap, on the question
+// alone and on question and answer together, so rephrased copies of the same fact are caught.
+
+// Similarity from 0 to 1 above which two cards are offered for merging
+export const DUPLICATE_THRESHOLD = 0.55;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'that', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with'
+]);
+
+export interface DuplicatePair {
+  key: string; // Stable for the pair regardless of order, used to remember dismissals
+  first: Flashcard;
+  second: Flashcard;
+  similarity: number;
+}
+
+// Plural "s" is dropped so "chloroplast" and "chloroplasts" match
+const words = (text: string): Set<string> =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(w => !STOP_WORDS.has(w))
+    .map(w => w.length > 3 ? w.replace(/s$/, '') : w));
+
+// Dice coefficient: shared words relative to the average set size
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return (2 * shared) / (a.size + b.size);
+};
+
+export const pairKey = (a: Flashcard, b: Flashcard): string =>
+  [a.id, b.id].sort().join('|');
+
+export const cardSimilarity = (a: Flashcard, b: Flashcard): number =>
+  Math.max(
+    dice(words(a.front), words(b.front)),
+    dice(words(`${a.front} ${a.back}`), words(`${b.front} ${b.back}`))
+  );
+
+// Most similar pairs first; pairs in `dismissed` were marked as "not duplicates" by the user
+export const findDuplicatePairs = (cards: Flashcard[], dismissed: Set<string> = new Set()): DuplicatePair[] => {
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < cards.length; i++) {
+    for (let j = i + 1; j < cards.length; j++) {
+      const key = pairKey(cards[i], cards[j]);
+      if (dismissed.has(key)) continue;
+      const similarity = cardSimilarity(cards[i], cards[j]);
+      if (similarity >= DUPLICATE_THRESHOLD) {
+        pairs.push({ key, first: cards[i], second: cards[j], similarity });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+};
+
+// Keeps one card's text and whichever review history is longer, so merging never loses progress
+export const mergeCards = (keep: Flashcard, drop: Flashcard): Flashcard => {
+  const schedule = (drop.schedule?.reviews.length || 0) > (keep.schedule?.reviews.length || 0)
+    ? drop.schedule
+    : keep.schedule;
+  return {
+    ...keep,
+    sourceId: keep.sourceId ?? drop.sourceId,
+    sectionId: keep.sectionId ?? drop.sectionId,
+    ...(schedule ? { schedule } : {})
+  };
+};
+
+export const replaceCard = (cards: Flashcard[], card: Flashcard): Flashcard[] =>
+  cards.map(c => c.id === card.id ? card : c);
@@ -1,53 +1,45 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { DiagramType, GeneratedContent, FileData, Message, Flashcard } from '../types';
+import {
+  ContentField,
+  ContentSection,
+  DiagramFixResult,
+  DiagramType,
+  DiagramTypeChoice,
+  GenerationProgress,
+  GenerationResult,
+  FileData,
+  GeneratedContent,
+  Message,
+  QuizQuestion,
+  Flashcard,
+  RetrievalIndex,
+  RetrievedPassage,
+  SourceRef,
+  TokenEstimate,
+  ValidationIssue
+} from '../types';
+import { getProvider, getProviderSettings, isCancellation, RequestPart } from './providers';
+import { detectDiagramType, diagramTypeMismatch, validateMermaid } from './mermaid';
+import { CHUNKED_INPUT_CHARS, splitIntoSections } from './chunking';
+import { SourceDocument, listSources } from './sources';
+import { CHUNK_CHARS, TOP_K, retrievePassages } from './retrieval';
+import { cacheKey, isCached, readCache, writeCache } from './responseCache';
+import { estimateCharTokens, estimateTextTokens } from './usage';
+import {
+  ContentValidationError,
+  RawFlashcard,
+  ValidatedContent,
+  ValidatedQuiz,
+  CONTENT_FIELDS,
+  GeneratedField,
+  describeIssues,
+  mergeValidated,
+  parseModelJson,
+  validateGeneratedContent,
+  validateQuiz
+} from './contentSchema';
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
-
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// Helper to extract code from markdown blocks
-const extractCodeBlock = (text: string): string => {
-  const codeBlockRegex = /```(?:mermaid)?\n([\s\S]*?)\n```/;
-  const match = text.match(codeBlockRegex);
-  return match ? match[1].trim() : text.trim();
-};
-
-export const generateDiagramAndSummary = async (
-  input: string, 
-  file: FileData | null, 
-  type: DiagramType
-): Promise<GeneratedContent> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
-  const parts: any[] = [];
-  
-  if (file) {
-    parts.push({
-      inlineData: {
-        mimeType: file.mimeType,
-        data: file.data
-      }
-    });
-  }
-
-  if (input) {
-    parts.push({ text: input });
-  }
-
-  if (parts.length === 0) {
-    throw new Error("No input provided");
-  }
-
-  const prompt = `
-    Analyze the provided content (text or document) and perform three tasks:
-    1. Create a concise summary of the key concepts (max 300 words).
-    2. Generate a Mermaid.js diagram code block that visually represents the information.
-    3. Create 5-10 study flashcards (Question and Answer pairs) based on the most important facts.
-    
-    The diagram type must be: ${type}.
-    
+const DIAGRAM_SYNTAX_RULES = `
     SPECIFIC INSTRUCTIONS FOR DIAGRAM TYPE:
     - ${DiagramType.MINDMAP}: Use 'mindmap' syntax. 
       IMPORTANT: STRICTLY Enclose ALL multi-word labels in double quotes. 
@@ -73,98 +65,939 @@ export const generateDiagramAndSummary = async (
       title Project Schedule
       section Phase 1
       Task Name : active, t1, 2024-01-01, 30d
+    - ${DiagramType.CLASS}: Use 'classDiagram' syntax. Class names must be single words (no spaces or quotes).
+      Members go inside braces, relationships use <|-- (inheritance), *-- (composition), o-- (aggregation), --> (association).
+      Example:
+      classDiagram
+        class Animal {
+          +String name
+          +eat() void
+        }
+        Animal <|-- Dog
+        Dog "1" --> "*" Toy : plays with
+    - ${DiagramType.ER}: Use 'erDiagram' syntax. Entity names must be single words (use underscores), attributes
+      are "type name" pairs with optional PK/FK, relationship labels are quoted.
+      Example:
+      erDiagram
+        CUSTOMER ||--o{ ORDER : "places"
+        ORDER {
+          int id PK
+          date created
+        }
+    - ${DiagramType.STATE}: Use 'stateDiagram-v2' syntax. State ids have NO spaces; give longer names with
+      'state "Long Name" as Id'. Use [*] for the start and end states.
+      Example:
+      stateDiagram-v2
+        [*] --> Solid
+        Solid --> Liquid : melting
+        Liquid --> Gas : boiling
+        Gas --> [*]
+    - ${DiagramType.PIE}: Use 'pie' syntax with a title and one quoted label per slice followed by a positive number.
+      Only use it for parts of a whole with real quantities from the content.
+      Example:
+      pie title Composition of Air
+        "Nitrogen" : 78
+        "Oxygen" : 21
+        "Other" : 1
+    - ${DiagramType.QUADRANT}: Use 'quadrantChart' syntax. Define both axes and all four quadrants, then place
+      points with coordinates between 0 and 1. Point names must not contain colons.
+      Example:
+      quadrantChart
+        title Study Techniques
+        x-axis Low Effort --> High Effort
+        y-axis Low Retention --> High Retention
+        quadrant-1 Worth it
+        quadrant-2 Best value
+        quadrant-3 Avoid
+        quadrant-4 Costly
+        Spaced repetition: [0.4, 0.9]
+        Rereading: [0.2, 0.2]
+    - ${DiagramType.JOURNEY}: Use 'journey' syntax: a title, sections, and tasks as "Task: score: Actor"
+      where score is 1-5.
+      Example:
+      journey
+        title Writing a Lab Report
+        section Research
+          Read the literature: 3: Student
+        section Writing
+          Draft the results: 2: Student, Supervisor
+`;
+
+// When the user picks "Auto", the model chooses from these
+const AUTO_TYPE_GUIDE = `
+    - ${DiagramType.MINDMAP}: concepts branching from one central topic
+    - ${DiagramType.FLOWCHART}: processes, decisions and cause and effect
+    - ${DiagramType.SEQUENCE}: messages or interactions between participants over time
+    - ${DiagramType.TIMELINE}: dated historical events or phases
+    - ${DiagramType.ORGCHART}: hierarchies of people, groups or taxonomies
+    - ${DiagramType.GANTT}: schedules and plans with durations
+    - ${DiagramType.CLASS}: object-oriented designs, types and their members
+    - ${DiagramType.ER}: data models, entities and their relationships
+    - ${DiagramType.STATE}: systems or objects that move between states
+    - ${DiagramType.PIE}: proportions of a whole with numbers given in the content
+    - ${DiagramType.QUADRANT}: items compared along two dimensions
+    - ${DiagramType.JOURNEY}: a person's experience across the steps of a task
+`;
+
+const diagramTypeInstruction = (type: DiagramTypeChoice): string => type === 'auto'
+  ? `Choose the diagram type that fits this content best from:
+    ${AUTO_TYPE_GUIDE}
+    Set "diagramType" to the chosen id and "diagramTypeReason" to one sentence explaining why it fits.`
+  : `The diagram type must be: ${type}.`;
+
+const AUTO_TYPE_OUTPUT = `
+      "diagramType": "The chosen diagram type id",
+      "diagramTypeReason": "Why this type fits the content",`;
+
+// The type the diagram should have: the requested one, or the one the model says it picked
+const resolveDiagramType = (type: DiagramTypeChoice, content: ValidatedContent): DiagramType | null => {
+  if (type !== 'auto') return type;
+  return Object.values(DiagramType).includes(content.diagramType as DiagramType) ? content.diagramType as DiagramType : null;
+};
+
+// Diagram problems the schema can't see: the wrong diagram type, or code Mermaid can't parse
+const checkDiagram = async (content: ValidatedContent, type: DiagramTypeChoice): Promise<ValidationIssue[]> => {
+  if (!content.diagramCode) return [];
+  const resolved = resolveDiagramType(type, content);
+  if (!resolved) {
+    return [{ field: 'diagramCode', message: `"diagramType" must be one of: ${Object.values(DiagramType).join(', ')}` }];
+  }
+  const problem = diagramTypeMismatch(content.diagramCode, resolved) ?? await validateMermaid(content.diagramCode);
+  return problem ? [{ field: 'diagramCode', message: problem }] : [];
+};
+
+// How many times the model is asked to fix output that fails validation
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Part of every cache key; bump it when prompts change so responses to older prompts aren't reused
+const PROMPT_VERSION = 1;
+
+// Which model answers, for cache keys
+const modelFingerprint = () => {
+  const { provider, model, baseUrl } = getProviderSettings();
+  return [provider, model, baseUrl || ''];
+};
+
+const filesFingerprint = (files: FileData[]) =>
+  files.map(file => [file.name, file.mimeType, file.pageSelection || '', file.data]);
+
+// How many times the model is asked to fix diagram code that Mermaid cannot parse
+export const DIAGRAM_FIX_ATTEMPTS = 3;
+
+// Helper to extract code from markdown blocks
+const extractCodeBlock = (text: string): string => {
+  const codeBlockRegex = /```(?:mermaid)?\n([\s\S]*?)\n```/;
+  const match = text.match(codeBlockRegex);
+  return match ? match[1].trim() : text.trim();
+};
+
+// Each source becomes a "[S1] name" label followed by its text, or by the file itself when
+// there is no text to send, so the model can say where an item came from.
+const sourceParts = (source: SourceDocument): RequestPart[] =>
+  source.text === null && source.file
+    ? [{ text: `[${source.id}] ${source.name}` }, { inlineData: { mimeType: source.file.mimeType, data: source.file.data } }]
+    : [{ text: `[${source.id}] ${source.name}\n${source.text ?? ''}` }];
+
+const toSourceRefs = (sources: SourceDocument[]): SourceRef[] => sources.map(({ id, name }) => ({ id, name }));
+
+const describeSources = (sources: SourceRef[]): string =>
+  sources.map(s => `[${s.id}] ${s.name}`).join(', ');
+
+// Parsed by services/citations, keep the two in sync
+const CITATION_RULES = `
+    CITATIONS: Support statements with citations of the form [S1 p.3 "short exact quote"]:
+    the source id, the page number when the source text has [Page N] markers (omit it otherwise),
+    and a short quote of 5-15 words copied exactly from the source.
+  `;
+
+interface SectionInput {
+  title: string;
+  sourceId: string;
+  parts: RequestPart[];
+}
+
+// Text sources, including PDFs with extracted text, are split on their headings and
+// paragraphs. Other files can't be split in the browser, so each one becomes a single section.
+const buildSectionInputs = (sources: SourceDocument[]): SectionInput[] =>
+  sources.flatMap(source => source.text === null
+    ? [{ title: source.name, sourceId: source.id, parts: sourceParts(source) }]
+    : splitIntoSections(source.text, source.name).map(section => ({
+      title: section.title,
+      sourceId: source.id,
+      parts: [{ text: `[${source.id}] ${source.name}\n${section.text}` }]
+    }))
+  );
+
+const textLength = (sources: SourceDocument[]): number =>
+  sources.reduce((total, source) => total + (source.text?.length || 0), 0);
+
+const buildRepairPrompt = (previousOutput: string, issues: ValidationIssue[], fields: readonly GeneratedField[]): string => `
+    Your previous response could not be used:
+    ${describeIssues(issues)}
+
+    Previous response:
+    ${previousOutput.slice(0, 4000)}
+
+    Return the complete JSON object again with ${fields.map(f => `"${f}"`).join(', ')} fixed.
+    IMPORTANT: Return ONLY valid JSON.
+  `;
+
+// Requests JSON output and re-prompts with the validation issues until the
+// requested fields are clean or the repair attempts run out.
+const generateWithRepair = async (
+  parts: RequestPart[],
+  fields: readonly GeneratedField[],
+  diagramType?: DiagramTypeChoice,
+  signal?: AbortSignal
+): Promise<ValidatedContent> => {
+  const provider = getProvider();
+  let requestParts = parts;
+  let best: ValidatedContent = { issues: [{ field: 'response', message: 'No response received' }] };
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let text = '';
+    try {
+      text = await provider.generate({ parts: requestParts, responseFormat: 'json', signal });
+    } catch (error) {
+      if (!isCancellation(error)) console.error("AI Provider Error:", error);
+      throw error;
+    }
+
+    let validated: ValidatedContent;
+    try {
+      validated = validateGeneratedContent(parseModelJson(text));
+      validated.issues = validated.issues.filter(i => i.field === 'response' || (fields as readonly ContentField[]).includes(i.field));
+      if (diagramType && fields.includes('diagramCode')) {
+        validated.issues.push(...await checkDiagram(validated, diagramType));
+      }
+    } catch (e) {
+      console.warn("JSON Parse failed", text);
+      validated = { issues: [{ field: 'response', message: 'Response is not valid JSON' }] };
+    }
+
+    best = mergeValidated(best, validated, fields);
+    if (best.issues.length === 0) break;
+
+    if (attempt < MAX_REPAIR_ATTEMPTS) {
+      console.warn(`Generated content failed validation (attempt ${attempt + 1})`, validated.issues);
+      requestParts = [...parts, { text: buildRepairPrompt(text, validated.issues, fields) }];
+    }
+  }
+
+  if (fields.every(field => best[field] === undefined)) {
+    throw new ContentValidationError(best.issues);
+  }
+  return best;
+};
+
+// Map flashcards with IDs, dropping source ids the model made up
+const toFlashcards = (cards: RawFlashcard[], sources: SourceRef[]): Flashcard[] =>
+  cards.map((card, index) => ({
+    id: `fc-${Date.now()}-${index}`,
+    front: card.front,
+    back: card.back,
+    ...(sources.some(s => s.id === card.source) ? { sourceId: card.source } : {})
+  }));
+
+const buildContentPrompt = (type: DiagramTypeChoice, sources: SourceRef[]): string => `
+    Analyze the provided content (text or documents) and perform three tasks:
+    1. Create a concise summary of the key concepts (max 300 words). End every bullet or paragraph with a citation.
+    2. Generate a Mermaid.js diagram code block that visually represents the information.
+    3. Create 5-10 study flashcards (Question and Answer pairs) based on the most important facts.
+
+    ${CITATION_RULES}
+
+    The content consists of ${sources.length} source(s): ${describeSources(sources)}.
+    Each source starts with its [id] label. When there are several sources, combine them into ONE summary,
+    ONE diagram and ONE flashcard set that cover all of them, and draw flashcards from every source.
+    Set each flashcard's "source" to the id of the source it is based on.
+    Images may be photos or scans of handwritten notes: read the handwriting and treat it as the content.
+    
+    ${diagramTypeInstruction(type)}
+
+    ${DIAGRAM_SYNTAX_RULES}
 
     Output Format (JSON):
     {
-      "summary": "The markdown summary here...",
+      "summary": "The markdown summary here...",${type === 'auto' ? AUTO_TYPE_OUTPUT : ''}
       "diagramCode": "The mermaid code here...",
       "flashcards": [
-        { "front": "Question 1?", "back": "Answer 1" },
-        { "front": "Question 2?", "back": "Answer 2" }
+        { "front": "Question 1?", "back": "Answer 1", "source": "S1" },
+        { "front": "Question 2?", "back": "Answer 2", "source": "S1" }
       ]
     }
     
     IMPORTANT: Return ONLY valid JSON. Ensure the mermaid code is syntactically correct and escapes characters properly. Do not include markdown formatting outside the JSON string.
   `;
 
-  parts.push({ text: prompt });
+const buildSectionPrompt = (type: DiagramTypeChoice, title: string): string => `
+    The content above is one section ("${title}") of a larger document. For this section only:
+    1. Create a concise summary of its key concepts (max 150 words). End every bullet or paragraph with a citation.
+    2. Generate a Mermaid.js diagram code block that represents this section in detail.
+    3. Create 3-6 study flashcards (Question and Answer pairs) based on its most important facts.
 
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        thinkingConfig: { thinkingBudget: 0 } 
-      }
+    ${CITATION_RULES}
+
+    ${diagramTypeInstruction(type)}
+
+    ${DIAGRAM_SYNTAX_RULES}
+
+    Output Format (JSON):
+    {
+      "summary": "The markdown summary here...",${type === 'auto' ? AUTO_TYPE_OUTPUT : ''}
+      "diagramCode": "The mermaid code here...",
+      "flashcards": [
+        { "front": "Question 1?", "back": "Answer 1" }
+      ]
+    }
+
+    IMPORTANT: Return ONLY valid JSON. Ensure the mermaid code is syntactically correct and escapes characters properly.
+  `;
+
+const buildReducePrompt = (type: DiagramTypeChoice, sections: ContentSection[], sources: SourceRef[]): string => `
+    A large input (${describeSources(sources)}) was summarized section by section. Section summaries:
+
+    ${sections.map((s, i) => `### Section ${i + 1}: ${s.title}\n${s.summary}`).join('\n\n')}
+
+    Combine them into:
+    1. One hierarchical markdown summary: a short overview paragraph, then a "##" heading per major
+       theme with the key points as bullets. Merge sections that cover the same theme.
+       Keep the [S1 p.3 "quote"] citations from the section summaries on the bullets they support, unchanged.
+    2. One overview Mermaid.js diagram. Its top-level structure should follow the sections
+       (use their titles), each with only its 2-4 most important sub-points.
+
+    ${diagramTypeInstruction(type)}
+
+    ${DIAGRAM_SYNTAX_RULES}
+
+    Output Format (JSON):
+    {
+      "summary": "The markdown summary here...",${type === 'auto' ? AUTO_TYPE_OUTPUT : ''}
+      "diagramCode": "The mermaid code here..."
+    }
+
+    IMPORTANT: Return ONLY valid JSON. Ensure the mermaid code is syntactically correct and escapes characters properly.
+  `;
+
+export interface GenerateOptions {
+  // Reports each model request while a large input is processed section by section
+  onProgress?: (progress: GenerationProgress) => void;
+  // Skips the response cache and asks the model again
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+// Map-reduce over sections: each section gets its own summary, sub-diagram and flashcards,
+// then the section summaries are combined into the overview summary and diagram.
+const generateInSections = async (
+  sectionInputs: SectionInput[],
+  sources: SourceRef[],
+  type: DiagramTypeChoice,
+  { onProgress, signal }: GenerateOptions
+): Promise<GenerationResult> => {
+  const total = sectionInputs.length + 1;
+  const sections: ContentSection[] = [];
+  const flashcards: Flashcard[] = [];
+  const issues: ValidationIssue[] = [];
+
+  for (const [index, input] of sectionInputs.entries()) {
+    onProgress?.({ current: index + 1, total, message: `Summarizing section ${index + 1} of ${sectionInputs.length}` });
+
+    let result: ValidatedContent;
+    try {
+      result = await generateWithRepair([...input.parts, { text: buildSectionPrompt(type, input.title) }], CONTENT_FIELDS, type, signal);
+    } catch (error) {
+      if (!(error instanceof ContentValidationError)) throw error;
+      console.warn(`Section "${input.title}" could not be processed`, error.issues);
+      issues.push({ field: 'response', message: `Section "${input.title}" could not be processed` });
+      continue;
+    }
+
+    const id = `sec-${index + 1}`;
+    sections.push({
+      id,
+      title: input.title,
+      sourceId: input.sourceId,
+      summary: result.summary || '',
+      diagramCode: result.diagramCode || ''
     });
+    flashcards.push(...(result.flashcards || []).map((card, cardIndex) => ({
+      id: `fc-${Date.now()}-${index}-${cardIndex}`,
+      front: card.front,
+      back: card.back,
+      sourceId: input.sourceId,
+      sectionId: id
+    })));
+    issues.push(...result.issues.map(issue => ({ ...issue, message: `${input.title}: ${issue.message}` })));
+  }
+
+  if (sections.length === 0) {
+    throw new ContentValidationError(issues);
+  }
+
+  onProgress?.({ current: total, total, message: `Combining ${sections.length} sections` });
+
+  let overview: ValidatedContent;
+  try {
+    overview = await generateWithRepair([{ text: buildReducePrompt(type, sections, sources) }], ['summary', 'diagramCode'], type, signal);
+  } catch (error) {
+    if (!(error instanceof ContentValidationError)) throw error;
+    overview = { issues: error.issues };
+  }
+  issues.push(...overview.issues);
+
+  return {
+    content: {
+      // Without an overview the section summaries still make a usable outline
+      summary: overview.summary || sections.map(s => `## ${s.title}\n\n${s.summary}`).join('\n\n'),
+      diagramCode: overview.diagramCode || sections[0].diagramCode,
+      ...finalDiagramType(type, overview.diagramCode ? overview : { ...overview, diagramCode: sections[0].diagramCode }),
+      flashcards,
+      sources,
+      sections
+    },
+    issues
+  };
+};
+
+// The type to store with the content. With "Auto" a missing or unknown choice falls back to
+// whatever the code declares.
+const finalDiagramType = (
+  type: DiagramTypeChoice,
+  content: ValidatedContent
+): Pick<GeneratedContent, 'diagramType' | 'diagramTypeReason'> => {
+  if (type !== 'auto') return { diagramType: type };
+  const diagramType = resolveDiagramType(type, content) ?? detectDiagramType(content.diagramCode || '') ?? DiagramType.MINDMAP;
+  return content.diagramTypeReason ? { diagramType, diagramTypeReason: content.diagramTypeReason } : { diagramType };
+};
+
+// Cached content is shared by every session made from the same input, so its cards and questions
+// get new ids; Anki note ids and GUIDs are derived from them
+const withFreshIds = (content: GeneratedContent): GeneratedContent => {
+  const stamp = Date.now();
+  return {
+    ...content,
+    flashcards: content.flashcards.map((card, index) => ({ ...card, id: `fc-${stamp}-${index}` })),
+    ...(content.quiz ? { quiz: content.quiz.map((question, index) => ({ ...question, id: `qz-${stamp}-${index}` })) } : {})
+  };
+};
+
+const generationCacheKey = (input: string, files: FileData[], type: DiagramTypeChoice): string =>
+  cacheKey('generation', PROMPT_VERSION, modelFingerprint(), type, input, filesFingerprint(files));
+
+// Whether generating from this material would be answered from the cache
+export const hasCachedGeneration = (input: string, files: FileData[], type: DiagramTypeChoice): Promise<boolean> =>
+  isCached(generationCacheKey(input, files, type));
+
+export const generateDiagramAndSummary = async (
+  input: string,
+  files: FileData[],
+  type: DiagramTypeChoice,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> => {
+  const key = generationCacheKey(input, files, type);
+  if (!options.force) {
+    const cached = await readCache<GeneratedContent>(key);
+    if (cached) return { content: withFreshIds(cached.value), issues: [], cachedAt: cached.createdAt };
+  }
+
+  const result = await generateFresh(input, files, type, options);
+  // Partial results are not cached, so the next attempt can do better
+  if (result.issues.length === 0) await writeCache(key, 'generation', result.content);
+  return result;
+};
+
+const generateFresh = async (
+  input: string,
+  files: FileData[],
+  type: DiagramTypeChoice,
+  options: GenerateOptions
+): Promise<GenerationResult> => {
+  const documents = listSources(input, files);
+  const sources = toSourceRefs(documents);
+
+  if (documents.length === 0) {
+    throw new Error("No input provided");
+  }
+
+  if (textLength(documents) > CHUNKED_INPUT_CHARS) {
+    return generateInSections(buildSectionInputs(documents), sources, type, options);
+  }
+
+  const parts = documents.flatMap(sourceParts);
+  const best = await generateWithRepair([...parts, { text: buildContentPrompt(type, sources) }], CONTENT_FIELDS, type, options.signal);
+
+  const flashcards = toFlashcards(best.flashcards || [], sources);
+
+  return {
+    content: {
+      summary: best.summary || "Could not generate summary.",
+      diagramCode: best.diagramCode || "",
+      ...finalDiagramType(type, best),
+      flashcards: flashcards,
+      sources
+    },
+    issues: best.issues
+  };
+};
+
+// Gemini counts each image as this many tokens, whatever its size
+const IMAGE_TOKENS = 258;
+
+// Typical output of each kind of request, added to its input when checking the usage budget
+export const EXPECTED_OUTPUT_TOKENS = {
+  generate: 4000,
+  quiz: 2500,
+  cards: 1200,
+  card: 150,
+  explain: 200,
+  expand: 100,
+  chat: 600
+} as const;
+
+// Instructions, existing cards and other prompt text sent alongside the material
+const PROMPT_TOKENS = 800;
+
+const estimatePartsTokens = (parts: RequestPart[]): number => parts.reduce((total, part) => total + ('text' in part
+  ? estimateTextTokens(part.text)
+  : part.inlineData.mimeType.startsWith('image/') ? IMAGE_TOKENS : estimateTextTokens(part.inlineData.data)), 0);
+
+// Pre-flight count of the material's input tokens, from the provider's tokenizer when it has one
+export const estimateInputTokens = async (input: string, files: FileData[], signal?: AbortSignal): Promise<TokenEstimate> => {
+  const parts = listSources(input, files).flatMap(sourceParts);
+  const provider = getProvider();
+  if (provider.countTokens) {
+    try {
+      return { tokens: await provider.countTokens(parts, signal), exact: true };
+    } catch (error) {
+      if (isCancellation(error)) throw error;
+      console.warn("Token count failed, estimating from length", error);
+    }
+  }
+  return { tokens: estimatePartsTokens(parts), exact: false };
+};
+
+export const DEFAULT_QUIZ_LENGTH = 10;
+
+const questionCount = (quiz: ValidatedQuiz) => quiz.questions?.length || 0;
+
+const buildQuizPrompt = (content: GeneratedContent, count: number): string => `
+    Write a quiz of ${count} questions that tests understanding of the provided content.
+    Mix the question types: about half "multiple-choice", the rest split between "cloze" and "true-false".
+    - multiple-choice: 4 options with exactly one correct answer. The wrong options must be plausible
+      distractors a student might confuse with the right one (related terms, common misconceptions),
+      never obviously wrong or joke answers. Vary the position of the correct option.
+    - cloze: a sentence from the material with one key term replaced by "____". "answer" is the missing term.
+    - true-false: a statement that is clearly true or clearly false according to the material.
+      Make false statements plausible by changing one detail of a true fact.
+    Every question needs a short "explanation" of why the answer is right, based on the material.
+
+    Link each question to where it is covered:
+    - "summaryHeading": the text of the summary heading it falls under, copied exactly. Omit it if the summary has no headings.
+    - "diagramNode": the label of the diagram node it is most about, copied exactly from the diagram code.
 
-    const text = response.text || "{}";
-    let json;
+    Study summary:
+    ${content.summary}
+
+    Diagram code:
+    ${content.diagramCode}
+
+    Output Format (JSON):
+    {
+      "questions": [
+        { "type": "multiple-choice", "prompt": "...", "options": ["...", "...", "...", "..."], "answerIndex": 0, "explanation": "...", "summaryHeading": "...", "diagramNode": "..." },
+        { "type": "cloze", "prompt": "... ____ ...", "answer": "...", "explanation": "...", "summaryHeading": "...", "diagramNode": "..." },
+        { "type": "true-false", "prompt": "...", "answer": false, "explanation": "...", "summaryHeading": "...", "diagramNode": "..." }
+      ]
+    }
+    IMPORTANT: Return ONLY valid JSON.
+  `;
+
+export interface QuizOptions {
+  count?: number;
+  signal?: AbortSignal;
+}
+
+// Builds a quiz from the generated content, plus the original sources when they are small
+// enough to send in one request
+export const generateQuiz = async (
+  content: GeneratedContent,
+  input: string,
+  files: FileData[],
+  { count = DEFAULT_QUIZ_LENGTH, signal }: QuizOptions = {}
+): Promise<QuizQuestion[]> => {
+  const provider = getProvider();
+  const documents = listSources(input, files);
+  const parts: RequestPart[] = [
+    ...(textLength(documents) > CHUNKED_INPUT_CHARS ? [] : documents.flatMap(sourceParts)),
+    { text: buildQuizPrompt(content, count) }
+  ];
+  let requestParts = parts;
+  let best: ValidatedQuiz = { issues: [{ field: 'response', message: 'No response received' }] };
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let text = '';
+    try {
+      text = await provider.generate({ parts: requestParts, responseFormat: 'json', signal });
+    } catch (error) {
+      if (!isCancellation(error)) console.error("AI Provider Error:", error);
+      throw error;
+    }
+
+    let validated: ValidatedQuiz;
     try {
-      json = JSON.parse(text);
+      validated = validateQuiz(parseModelJson(text));
     } catch (e) {
-      // Fallback if model returns code blocks outside JSON
-      console.warn("JSON Parse failed, attempting cleanup", text);
-      const cleanText = text.replace(/```json\n|\n```/g, '');
-      json = JSON.parse(cleanText);
-    }
-
-    // Map flashcards with IDs
-    const flashcards: Flashcard[] = (json.flashcards || []).map((card: any, index: number) => ({
-      id: `fc-${Date.now()}-${index}`,
-      front: card.front || "Question",
-      back: card.back || "Answer"
-    }));
-
-    return {
-      summary: json.summary || "Could not generate summary.",
-      diagramCode: json.diagramCode || "",
-      diagramType: type,
-      flashcards: flashcards
-    };
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Failed to process content with Gemini.");
+      console.warn("JSON Parse failed", text);
+      validated = { issues: [{ field: 'response', message: 'Response is not valid JSON' }] };
+    }
+
+    // Keep the attempt with the most usable questions
+    if (questionCount(validated) > questionCount(best)
+      || (questionCount(validated) === questionCount(best) && validated.issues.length <= best.issues.length)) {
+      best = validated;
+    }
+    if (best.questions && best.issues.length === 0) break;
+
+    if (attempt < MAX_REPAIR_ATTEMPTS) {
+      console.warn(`Generated quiz failed validation (attempt ${attempt + 1})`, validated.issues);
+      requestParts = [...parts, { text: `
+    Your previous response could not be used:
+    ${describeIssues(validated.issues)}
+
+    Previous response:
+    ${text.slice(0, 4000)}
+
+    Return the complete JSON object again with every question fixed.
+    IMPORTANT: Return ONLY valid JSON.
+  ` }];
+    }
   }
+
+  if (!best.questions) {
+    throw new ContentValidationError(best.issues);
+  }
+  return best.questions.map((question, index) => ({ ...question, id: `qz-${Date.now()}-${index}` }));
+};
+
+// The sources when they fit in one request, otherwise the generated summary stands in for them
+const materialParts = (documents: SourceDocument[], content: GeneratedContent): RequestPart[] =>
+  textLength(documents) > CHUNKED_INPUT_CHARS
+    ? [{ text: `Study summary of the material:\n${content.summary}` }]
+    : documents.flatMap(sourceParts);
+
+export type FollowUpKind = 'quiz' | 'cards' | 'card' | 'explain' | 'expand';
+
+// Rough tokens for a request built on the generated content, from lengths alone so it is quick
+// enough to work out before every request
+export const estimateFollowUpTokens = (kind: FollowUpKind, content: GeneratedContent, input: string, files: FileData[]): number =>
+  estimatePartsTokens(materialParts(listSources(input, files), content)) + PROMPT_TOKENS + EXPECTED_OUTPUT_TOKENS[kind];
+
+const describeCards = (cards: Flashcard[]): string =>
+  cards.map((card, i) => `${i + 1}. Q: ${card.front} | A: ${card.back}`).join('\n') || '(none)';
+
+const FLASHCARD_OUTPUT_FORMAT = `
+    Output Format (JSON):
+    {
+      "flashcards": [
+        { "front": "Question?", "back": "Answer", "source": "S1" }
+      ]
+    }
+    IMPORTANT: Return ONLY valid JSON.
+  `;
+
+const buildMoreCardsPrompt = (topic: string, count: number, existing: Flashcard[], sources: SourceRef[]): string => `
+    Create ${count} new study flashcards (Question and Answer pairs) about: ${topic}
+    Base them only on the provided material (${describeSources(sources)}). Each card should test one fact or concept.
+    Set each flashcard's "source" to the id of the source it is based on.
+
+    The student already has these cards. Do NOT repeat them or ask the same thing in different words:
+    ${describeCards(existing)}
+    ${FLASHCARD_OUTPUT_FORMAT}`;
+
+const buildRegenerateCardPrompt = (card: Flashcard, others: Flashcard[], sources: SourceRef[]): string => `
+    Rewrite this study flashcard so that it is correct according to the provided material (${describeSources(sources)}),
+    clearly worded and tests a single fact. Keep it about the same concept.
+
+    Current card:
+    Q: ${card.front}
+    A: ${card.back}
+
+    It must not duplicate any of the other cards:
+    ${describeCards(others)}
+
+    Return exactly one flashcard and set its "source" to the id of the source it is based on.
+    ${FLASHCARD_OUTPUT_FORMAT}`;
+
+// Asks for more cards on a topic, with the existing cards as context so they aren't repeated
+export const generateMoreFlashcards = async (
+  topic: string,
+  count: number,
+  content: GeneratedContent,
+  input: string,
+  files: FileData[],
+  signal?: AbortSignal
+): Promise<Flashcard[]> => {
+  const documents = listSources(input, files);
+  const sources = toSourceRefs(documents);
+  const best = await generateWithRepair(
+    [...materialParts(documents, content), { text: buildMoreCardsPrompt(topic, count, content.flashcards, sources) }],
+    ['flashcards'],
+    undefined,
+    signal
+  );
+  return toFlashcards((best.flashcards || []).slice(0, count), sources);
+};
+
+// The card keeps its id so exports update the existing note, but its review history is
+// dropped since it no longer applies to the new wording
+export const regenerateFlashcard = async (
+  card: Flashcard,
+  content: GeneratedContent,
+  input: string,
+  files: FileData[],
+  signal?: AbortSignal
+): Promise<Flashcard> => {
+  const documents = listSources(input, files);
+  const sources = toSourceRefs(documents);
+  const others = content.flashcards.filter(c => c.id !== card.id);
+  const best = await generateWithRepair(
+    [...materialParts(documents, content), { text: buildRegenerateCardPrompt(card, others, sources) }],
+    ['flashcards'],
+    undefined,
+    signal
+  );
+  const [replacement] = toFlashcards(best.flashcards || [], sources);
+  const { schedule, ...rest } = card;
+  return { ...rest, front: replacement.front, back: replacement.back, sourceId: replacement.sourceId ?? card.sourceId };
+};
+
+// A short explanation of one diagram node, grounded in the sources
+export const explainConcept = async (
+  label: string,
+  content: GeneratedContent,
+  input: string,
+  files: FileData[],
+  signal?: AbortSignal
+): Promise<string> => {
+  const documents = listSources(input, files);
+  const prompt = `
+    The study diagram built from this material has a node labelled "${label}".
+    Explain this concept to a student in 2-4 sentences, as it is used in the material: what it is and how it
+    relates to the rest of the topic. Use plain markdown, no headings.
+    ${textLength(documents) > CHUNKED_INPUT_CHARS ? '' : CITATION_RULES}
+  `;
+  const text = await getProvider().generate({ parts: [...materialParts(documents, content), { text: prompt }], signal });
+  return text.trim() || "No explanation available.";
+};
+
+// Child concepts for expanding a diagram node, leaving out labels already in the diagram
+export const expandConcept = async (
+  label: string,
+  existingLabels: string[],
+  content: GeneratedContent,
+  input: string,
+  files: FileData[],
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const documents = listSources(input, files);
+  const prompt = `
+    The study diagram built from this material has a node labelled "${label}".
+    List 3-6 sub-concepts of "${label}" from the material to add as its child nodes: its parts, steps,
+    types or key facts. Each label must be short (at most 6 words).
+    These labels are already in the diagram, do not repeat them: ${existingLabels.map(l => `"${l}"`).join(', ')}
+
+    Output Format (JSON):
+    { "children": ["Sub-concept 1", "Sub-concept 2"] }
+    IMPORTANT: Return ONLY valid JSON.
+  `;
+  const text = await getProvider().generate({ parts: [...materialParts(documents, content), { text: prompt }], responseFormat: 'json', signal });
+
+  let children: unknown;
+  try {
+    children = (parseModelJson(text) as { children?: unknown })?.children;
+  } catch (e) {
+    console.warn("JSON Parse failed", text);
+  }
+  const existing = new Set(existingLabels.map(l => l.toLowerCase()));
+  const labels = Array.isArray(children)
+    ? children.filter((c): c is string => typeof c === 'string' && c.trim().length > 0).map(c => c.trim())
+    : [];
+  const fresh = labels.filter(l => !existing.has(l.toLowerCase()));
+  if (fresh.length === 0) {
+    throw new ContentValidationError([{ field: 'response', message: 'No new sub-concepts were returned' }]);
+  }
+  return fresh;
+};
+
+// Most fixes take one attempt, which sends the code and error and gets the code back
+export const estimateFixTokens = (code: string, renderError: string): number =>
+  2 * estimateTextTokens(code) + estimateTextTokens(renderError) + PROMPT_TOKENS;
+
+export const fixDiagramCode = async (
+  code: string,
+  renderError: string,
+  type: DiagramType,
+  maxAttempts: number = DIAGRAM_FIX_ATTEMPTS,
+  signal?: AbortSignal
+): Promise<DiagramFixResult> => {
+  const provider = getProvider();
+  let currentCode = code;
+  let currentError = renderError;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const prompt = `
+    The following Mermaid.js ${type} diagram fails to render.
+
+    Error:
+    ${currentError}
+
+    Code:
+    \`\`\`mermaid
+${currentCode}
+    \`\`\`
+
+    ${DIAGRAM_SYNTAX_RULES}
+
+    Fix the syntax error while keeping the content and structure of the diagram the same.
+    Return ONLY the corrected code in a single \`\`\`mermaid code block.
+  `;
+
+    const text = await provider.generate({ parts: [{ text: prompt }], signal });
+    const candidate = extractCodeBlock(text);
+    const parseError = await validateMermaid(candidate);
+
+    if (!parseError) {
+      return { originalCode: code, fixedCode: candidate, attempts: attempt };
+    }
+
+    console.warn(`Diagram fix attempt ${attempt} still fails to parse`, parseError);
+    currentCode = candidate;
+    currentError = parseError;
+  }
+
+  throw new Error(`Could not fix the diagram after ${maxAttempts} attempts. Last error: ${currentError}`);
+};
+
+// Only the most recent turns are resent, older ones rarely matter for the next question
+const MAX_HISTORY_MESSAGES = 10;
+
+export interface AskOptions {
+  // Called with the full answer text so far each time a new chunk arrives
+  onChunk?: (answerSoFar: string) => void;
+  signal?: AbortSignal;
+  // When given, text sources are represented by their passages most relevant to the question
+  retrievalIndex?: RetrievalIndex | null;
+  // Skips the response cache and asks the model again
+  force?: boolean;
+}
+
+export interface AskResult {
+  answer: string;
+  passages?: RetrievedPassage[];
+  cached?: boolean;
+}
+
+const passageParts = (passages: RetrievedPassage[]): RequestPart[] =>
+  passages.map(p => ({ text: `[${p.sourceId}] ${p.sourceName}${p.page ? ` (page ${p.page})` : ''}\n${p.text}` }));
+
+const answerCacheKey = (
+  history: Message[],
+  question: string,
+  contextText: string | null,
+  contextFiles: FileData[],
+  withRetrieval: boolean
+): string => cacheKey(
+  'chat',
+  PROMPT_VERSION,
+  modelFingerprint(),
+  withRetrieval,
+  contextText || '',
+  filesFingerprint(contextFiles),
+  history.slice(-MAX_HISTORY_MESSAGES).map(msg => [msg.role, msg.content]),
+  question
+);
+
+// Whether this question would be answered from the cache
+export const hasCachedAnswer = (
+  history: Message[],
+  question: string,
+  contextText: string | null,
+  contextFiles: FileData[],
+  withRetrieval: boolean
+): Promise<boolean> => isCached(answerCacheKey(history, question, contextText, contextFiles, withRetrieval));
+
+// Rough tokens for answering a question: the sources or the passages retrieved from them, the recent
+// chat and a typical answer
+export const estimateAnswerTokens = (
+  history: Message[],
+  contextText: string | null,
+  contextFiles: FileData[],
+  withRetrieval: boolean
+): number => {
+  const sources = listSources(contextText || '', contextFiles);
+  const material = withRetrieval
+    ? estimatePartsTokens(sources.filter(s => s.text === null).flatMap(sourceParts)) + estimateCharTokens(TOP_K * CHUNK_CHARS)
+    : estimatePartsTokens(sources.flatMap(sourceParts));
+  const recentHistory = history.slice(-MAX_HISTORY_MESSAGES);
+  return material + estimateTextTokens(recentHistory.map(msg => msg.content).join('\n')) + PROMPT_TOKENS + EXPECTED_OUTPUT_TOKENS.chat;
 };
 
 export const askQuestionAboutContent = async (
   history: Message[],
   currentQuestion: string,
   contextText: string | null,
-  contextFile: FileData | null
-): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing");
+  contextFiles: FileData[],
+  { onChunk, signal, retrievalIndex, force }: AskOptions = {}
+): Promise<AskResult> => {
+  const recentHistory = history.slice(-MAX_HISTORY_MESSAGES);
+  const key = answerCacheKey(history, currentQuestion, contextText, contextFiles, Boolean(retrievalIndex));
+  if (!force) {
+    const cached = await readCache<AskResult>(key);
+    if (cached) {
+      onChunk?.(cached.value.answer);
+      return { ...cached.value, cached: true };
+    }
+  }
 
-  const parts: any[] = [];
-  
-  if (contextFile) {
-    parts.push({
-      inlineData: {
-        mimeType: contextFile.mimeType,
-        data: contextFile.data
-      }
-    });
+  const sources = listSources(contextText || '', contextFiles);
+  let passages: RetrievedPassage[] | undefined;
+  let parts: RequestPart[];
+
+  if (retrievalIndex) {
+    passages = await retrievePassages(retrievalIndex, currentQuestion, TOP_K, signal);
+    // Files the model reads itself (images, scans) can't be indexed and are still sent whole
+    parts = [...sources.filter(s => s.text === null).flatMap(sourceParts), ...passageParts(passages)];
+  } else {
+    parts = sources.flatMap(sourceParts);
   }
   
-  let contextPrompt = "Context from uploaded document/notes:\n";
-  if (contextText) contextPrompt += contextText + "\n\n";
+  let contextPrompt = '';
+  if (sources.length) {
+    contextPrompt = retrievalIndex
+      ? `The passages above are the parts of the uploaded documents/notes (${describeSources(sources)}) most relevant to the question.\n\n`
+      : `The sources above (${describeSources(sources)}) are the uploaded documents/notes.\n\n`;
+  }
   
   contextPrompt += "Chat History:\n";
-  history.forEach(msg => {
+  recentHistory.forEach(msg => {
     contextPrompt += `${msg.role.toUpperCase()}: ${msg.content}\n`;
   });
   
   contextPrompt += `\nUSER QUESTION: ${currentQuestion}\n`;
-  contextPrompt += "Answer the user's question based strictly on the provided context. Be helpful and concise.";
+  contextPrompt += "Answer the user's question based strictly on the provided context. Be helpful and concise.\n";
+  contextPrompt += CITATION_RULES;
+  contextPrompt += "If the sources do not contain the answer, say so plainly and do not add citations.";
 
   parts.push({ text: contextPrompt });
 
-  const response = await ai.models.generateContent({
-    model: MODEL_NAME,
-    contents: { parts },
-  });
+  let answer = '';
+  for await (const chunk of getProvider().stream({ parts, signal })) {
+    answer += chunk;
+    onChunk?.(answer);
+  }
 
-  return response.text || "I couldn't generate an answer.";
+  if (!answer) return { answer: "I couldn't generate an answer.", passages };
+  if (!signal?.aborted) await writeCache(key, 'chat', { answer, passages });
+  return { answer, passages };
 };
@@ -0,0 +1,330 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { FileData } from '../types';
+import { encodeBase64Text } from './chunking';
+import { extractPdfText, isUsableExtraction } from './pdf';
+
+// Turns uploaded files into FileData for generation. Structured documents (DOCX, HTML, EPUB)
+// are converted to markdown so headings, lists and tables survive and the text can be split
+// into sections. PDFs keep their original bytes plus per-page text when it can be extracted.
+// Images are passed to the model as they are.
+
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_EXTENSIONS = ['.pdf', '.txt', '.md', '.docx', '.html', '.htm', '.epub', '.png', '.jpg', '.jpeg', '.webp'];
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const extensionOf = (name: string): string => name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Extract base64 part
+    reader.onload = (e) => resolve((e.target?.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const formatBytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+// --- HTML ---
+
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'svg', 'nav', 'head', 'template']);
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const inlineText = (node: Node): string => {
+  if (node.nodeType === Node.TEXT_NODE) return collapse(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+  const el = node as Element;
+  const tag = el.localName.toLowerCase();
+  if (SKIPPED_TAGS.has(tag)) return '';
+  if (tag === 'br') return '\n';
+
+  const text = Array.from(el.childNodes).map(inlineText).join('');
+  if ((tag === 'strong' || tag === 'b') && text.trim()) return `**${text.trim()}** `;
+  if ((tag === 'em' || tag === 'i') && text.trim()) return `*${text.trim()}* `;
+  return text;
+};
+
+const markdownTable = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (cells[i] || '').replace(/\|/g, '\\|')).join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+};
+
+const htmlBlocks = (el: Element, listDepth = 0): string[] => {
+  const blocks: string[] = [];
+  let inline = '';
+  const flush = () => {
+    if (inline.trim()) blocks.push(inline.trim());
+    inline = '';
+  };
+
+  Array.from(el.childNodes).forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      inline += inlineText(node);
+      return;
+    }
+    const child = node as Element;
+    const tag = child.localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      flush();
+      blocks.push(`${'#'.repeat(Number(heading[1]))} ${collapse(child.textContent || '').trim()}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      const items = Array.from(child.children).filter(c => c.localName.toLowerCase() === 'li');
+      const lines = items.flatMap((li, i) => {
+        const [first = '', ...rest] = htmlBlocks(li, listDepth + 1);
+        const marker = tag === 'ol' ? `${i + 1}.` : '-';
+        return [`${'  '.repeat(listDepth)}${marker} ${first}`, ...rest];
+      });
+      blocks.push(lines.join('\n'));
+    } else if (tag === 'table') {
+      flush();
+      const rows = Array.from(child.querySelectorAll('tr')).map(tr =>
+        Array.from(tr.children).map(cell => collapse(cell.textContent || '').trim())
+      );
+      blocks.push(markdownTable(rows));
+    } else if (tag === 'pre') {
+      flush();
+      blocks.push('```\n' + (child.textContent || '').replace(/\n$/, '') + '\n```');
+    } else if (['p', 'div', 'section', 'article', 'main', 'blockquote', 'li', 'header', 'footer', 'aside', 'body', 'figure'].includes(tag)) {
+      flush();
+      blocks.push(...htmlBlocks(child, listDepth));
+    } else {
+      inline += inlineText(child);
+    }
+  });
+  flush();
+  return blocks;
+};
+
+export const htmlToMarkdown = (root: Element): string => htmlBlocks(root).join('\n\n');
+
+const parseHtml = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+// --- DOCX ---
+
+interface ListFormats {
+  // numId -> list level -> numFmt ("bullet", "decimal", ...)
+  [numId: string]: Record<string, string>;
+}
+
+const wAttr = (el: Element | undefined | null, name: string) => el?.getAttributeNS(W_NS, name) ?? el?.getAttribute(`w:${name}`) ?? null;
+
+const wChild = (el: Element, name: string): Element | undefined =>
+  Array.from(el.children).find(c => c.namespaceURI === W_NS && c.localName === name);
+
+const readListFormats = (xml: string | undefined): ListFormats => {
+  if (!xml) return {};
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const abstractFormats: Record<string, Record<string, string>> = {};
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'abstractNum')).forEach(abstract => {
+    const levels: Record<string, string> = {};
+    Array.from(abstract.getElementsByTagNameNS(W_NS, 'lvl')).forEach(lvl => {
+      levels[wAttr(lvl, 'ilvl') || '0'] = wAttr(lvl.getElementsByTagNameNS(W_NS, 'numFmt')[0], 'val') || 'bullet';
+    });
+    abstractFormats[wAttr(abstract, 'abstractNumId') || ''] = levels;
+  });
+
+  const formats: ListFormats = {};
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'num')).forEach(num => {
+    const abstractId = wAttr(num.getElementsByTagNameNS(W_NS, 'abstractNumId')[0], 'val') || '';
+    formats[wAttr(num, 'numId') || ''] = abstractFormats[abstractId] || {};
+  });
+  return formats;
+};
+
+const runText = (paragraph: Element): string => {
+  let text = '';
+  Array.from(paragraph.getElementsByTagNameNS(W_NS, 'r')).forEach(run => {
+    let runText = '';
+    Array.from(run.children).forEach(node => {
+      if (node.localName === 't') runText += node.textContent || '';
+      if (node.localName === 'tab') runText += '\t';
+      if (node.localName === 'br') runText += '\n';
+    });
+    const props = wChild(run, 'rPr');
+    const bold = props && wChild(props, 'b') && wAttr(wChild(props, 'b'), 'val') !== '0';
+    text += bold && runText.trim() ? `**${runText.trim()}** ` : runText;
+  });
+  return text.trim();
+};
+
+const docxParagraph = (paragraph: Element, lists: ListFormats, counters: Record<string, number>): string => {
+  const text = runText(paragraph);
+  if (!text) return '';
+
+  const props = wChild(paragraph, 'pPr');
+  const style = (props && wAttr(wChild(props, 'pStyle'), 'val')) || '';
+  if (/^title$/i.test(style)) return `# ${text}`;
+  const heading = style.match(/^heading\s*(\d)$/i);
+  if (heading) return `${'#'.repeat(Math.min(Number(heading[1]) + 1, 6))} ${text}`;
+
+  const numbering = props && wChild(props, 'numPr');
+  if (numbering) {
+    const numId = wAttr(wChild(numbering, 'numId'), 'val') || '';
+    const level = wAttr(wChild(numbering, 'ilvl'), 'val') || '0';
+    const format = lists[numId]?.[level] || 'bullet';
+    const key = `${numId}:${level}`;
+    counters[key] = (counters[key] || 0) + 1;
+    const marker = format === 'bullet' ? '-' : `${counters[key]}.`;
+    return `${'  '.repeat(Number(level))}${marker} ${text}`;
+  }
+  return text;
+};
+
+const docxTable = (table: Element): string => {
+  const rows = Array.from(table.children)
+    .filter(c => c.localName === 'tr')
+    .map(tr => Array.from(tr.children)
+      .filter(c => c.localName === 'tc')
+      .map(tc => Array.from(tc.getElementsByTagNameNS(W_NS, 'p')).map(runText).filter(Boolean).join(' ')));
+  return markdownTable(rows);
+};
+
+export const docxToMarkdown = (bytes: Uint8Array): string => {
+  const zip = unzipSync(bytes);
+  const documentXml = zip['word/document.xml'];
+  if (!documentXml) throw new Error('not a Word document');
+
+  const doc = new DOMParser().parseFromString(strFromU8(documentXml), 'application/xml');
+  const lists = readListFormats(zip['word/numbering.xml'] && strFromU8(zip['word/numbering.xml']));
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) return '';
+
+  const counters: Record<string, number> = {};
+  const blocks: string[] = [];
+  Array.from(body.children).forEach(node => {
+    if (node.localName === 'p') {
+      const line = docxParagraph(node, lists, counters);
+      // Consecutive list items stay in one block, anything else starts a new paragraph
+      const isListItem = /^\s*(-|\d+\.) /.test(line);
+      if (!isListItem) Object.keys(counters).forEach(key => delete counters[key]);
+      if (!line) return;
+      if (isListItem && blocks.length && /^\s*(-|\d+\.) /.test(blocks[blocks.length - 1].split('\n').pop() || '')) {
+        blocks[blocks.length - 1] += `\n${line}`;
+      } else {
+        blocks.push(line);
+      }
+    } else if (node.localName === 'tbl') {
+      blocks.push(docxTable(node));
+    }
+  });
+  return blocks.join('\n\n');
+};
+
+// --- EPUB ---
+
+const resolvePath = (base: string, href: string): string => {
+  const parts = (base.includes('/') ? base.slice(0, base.lastIndexOf('/') + 1) : '').concat(decodeURIComponent(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+export const epubToMarkdown = (bytes: Uint8Array): string => {
+  const zip = unzipSync(bytes);
+  const xml = (path: string) => {
+    const data = zip[path];
+    if (!data) throw new Error(`missing ${path}`);
+    return new DOMParser().parseFromString(strFromU8(data), 'application/xml');
+  };
+
+  const opfPath = xml('META-INF/container.xml').querySelector('rootfile')?.getAttribute('full-path');
+  if (!opfPath) throw new Error('no package document');
+  const opf = xml(opfPath);
+
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    manifest.set(item.getAttribute('id') || '', item.getAttribute('href') || '');
+  });
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim();
+  const chapters = Array.from(opf.getElementsByTagName('itemref'))
+    .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+    .filter((href): href is string => Boolean(href))
+    .map(href => zip[resolvePath(opfPath, href)])
+    .filter(Boolean)
+    .map(data => {
+      const body = parseHtml(strFromU8(data)).body;
+      return body ? htmlToMarkdown(body) : '';
+    })
+    .filter(chapter => chapter.trim());
+
+  return [title ? `# ${title}` : '', ...chapters].filter(Boolean).join('\n\n');
+};
+
+// --- Entry point ---
+
+const asMarkdown = (file: File, markdown: string, sourceFormat: string): FileData => {
+  if (!markdown.trim()) throw new Error('no readable text found');
+  return {
+    name: file.name,
+    mimeType: 'text/markdown',
+    data: encodeBase64Text(markdown),
+    sourceFormat
+  };
+};
+
+export const isAcceptedFile = (file: File): boolean => ACCEPTED_EXTENSIONS.includes(extensionOf(file.name));
+
+export const readSourceFile = async (file: File): Promise<FileData> => {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error(`${file.name} is ${formatBytes(file.size)}, larger than the ${formatBytes(MAX_FILE_BYTES)} limit.`);
+  }
+
+  const extension = extensionOf(file.name);
+  try {
+    switch (extension) {
+      case '.docx':
+        return asMarkdown(file, docxToMarkdown(new Uint8Array(await file.arrayBuffer())), 'docx');
+      case '.epub':
+        return asMarkdown(file, epubToMarkdown(new Uint8Array(await file.arrayBuffer())), 'epub');
+      case '.html':
+      case '.htm': {
+        const doc = parseHtml(await file.text());
+        const title = doc.title.trim();
+        const markdown = htmlToMarkdown(doc.body);
+        return asMarkdown(file, title && !markdown.startsWith('# ') ? `# ${title}\n\n${markdown}` : markdown, 'html');
+      }
+    }
+  } catch (error: any) {
+    console.error("File Conversion Error:", error);
+    throw new Error(`Could not read ${file.name}: ${error?.message || error}`);
+  }
+
+  if (extension === '.pdf') {
+    const data = await readAsBase64(file);
+    try {
+      const pages = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+      if (isUsableExtraction(pages)) return { name: file.name, mimeType: 'application/pdf', data, pages };
+    } catch (error) {
+      console.warn(`Could not extract text from ${file.name}, sending the PDF as is`, error);
+    }
+    return { name: file.name, mimeType: 'application/pdf', data };
+  }
+
+  return {
+    name: file.name,
+    // Photos from phones often arrive without a type
+    mimeType: file.type || IMAGE_TYPES[extension] || 'text/plain',
+    data: await readAsBase64(file)
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DiagramType } from '../types';
+import { CURRENT_SCHEMA_VERSION, deriveSessionTitle, migrateSession } from './library';
+
+const FILE = { name: 'notes.pdf', mimeType: 'application/pdf', data: 'JVBERi0=' };
+
+// A record as the first builds saved it: no schema version, one optional file, no edited code or chat
+const UNVERSIONED = {
+  id: 'session-1',
+  title: 'Old session',
+  createdAt: 1,
+  updatedAt: 2,
+  inputText: 'Notes',
+  selectedFile: FILE,
+  content: { summary: '# Cells', diagramCode: 'mindmap\n  root', diagramType: DiagramType.MINDMAP, flashcards: [] }
+};
+
+describe('migrateSession', () => {
+  it('upgrades unversioned records to the current schema', () => {
+    const session = migrateSession(UNVERSIONED);
+    expect(session.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(session).toMatchObject({
+      diagramCode: 'mindmap\n  root',
+      chatMessages: [],
+      selectedType: DiagramType.MINDMAP,
+      selectedFiles: [FILE],
+      retrievalIndex: null
+    });
+    expect(session).not.toHaveProperty('selectedFile');
+  });
+
+  it('seeds the diagram history with the generated and edited code', () => {
+    const session = migrateSession({ ...UNVERSIONED, diagramCode: 'mindmap\n  root\n    child' });
+    expect(session.diagramHistory.versions.map(v => [v.kind, v.code, v.createdAt])).toEqual([
+      ['generated', 'mindmap\n  root', 2],
+      ['code', 'mindmap\n  root\n    child', 2]
+    ]);
+  });
+
+  it('starts from the version a record was saved with', () => {
+    // Re-running the 1 -> 2 step would drop the files, since there is no `selectedFile` any more
+    const session = migrateSession({ ...migrateSession(UNVERSIONED), schemaVersion: 3, diagramHistory: undefined });
+    expect(session.selectedFiles).toEqual([FILE]);
+    expect(session.diagramHistory.versions).toHaveLength(1);
+  });
+
+  it('leaves current records as they are', () => {
+    const current = migrateSession(UNVERSIONED);
+    expect(migrateSession(current)).toEqual(current);
+  });
+
+  it('stops answers that were still streaming when saved', () => {
+    const session = migrateSession({
+      ...UNVERSIONED,
+      chatMessages: [
+        { id: 'm1', role: 'user', content: 'Why?', timestamp: 1 },
+        { id: 'm2', role: 'model', content: 'Because', timestamp: 2, status: 'streaming' }
+      ]
+    });
+    expect(session.chatMessages.map(msg => msg.status)).toEqual([undefined, 'stopped']);
+  });
+});
+
+describe('deriveSessionTitle', () => {
+  const base = { content: null, selectedFiles: [], inputText: '' };
+
+  it('prefers the first summary heading', () => {
+    const content = { ...UNVERSIONED.content, summary: 'Intro\n## Cell biology\n# Later' };
+    expect(deriveSessionTitle({ ...base, content, inputText: 'Notes' })).toBe('Cell biology');
+  });
+
+  it('falls back to the file names, then the notes', () => {
+    expect(deriveSessionTitle({ ...base, selectedFiles: [FILE, FILE, FILE] })).toBe('notes.pdf + 2 more');
+    expect(deriveSessionTitle({ ...base, inputText: `  ${'a'.repeat(60)}` })).toBe(`${'a'.repeat(50)}…`);
+    expect(deriveSessionTitle(base)).toBe('Untitled session');
+  });
+});
@@ -0,0 +1,94 @@
+import { DiagramType, StudySession } from '../types';
+import { STORES, getAll, getOne, put, remove } from './db';
+import { historyFromCodes } from './diagramHistory';
+
+// Saved study sessions. Records carry a schema version and are migrated on read,
+// so sessions saved by older builds keep loading as GeneratedContent evolves.
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+// MIGRATIONS[n] upgrades a record from schema version n to n + 1
+const MIGRATIONS: ((session: any) => any)[] = [
+  // 0 -> 1: records saved before versioning had no edited diagram code or chat
+  (session) => ({
+    ...session,
+    diagramCode: session.diagramCode ?? session.content?.diagramCode ?? '',
+    chatMessages: session.chatMessages ?? [],
+    selectedType: session.selectedType ?? session.content?.diagramType ?? DiagramType.MINDMAP,
+  }),
+  // 1 -> 2: a single optional file became an ordered list of source files
+  ({ selectedFile, ...session }) => ({
+    ...session,
+    selectedFiles: selectedFile ? [selectedFile] : [],
+  }),
+  // 2 -> 3: chat retrieval index, built again on the next question
+  (session) => ({
+    ...session,
+    retrievalIndex: null,
+  }),
+  // 3 -> 4: diagram version history, seeded with the generated and the edited code
+  (session) => ({
+    ...session,
+    diagramHistory: historyFromCodes(session.content?.diagramCode, session.diagramCode, session.updatedAt ?? Date.now()),
+  }),
+];
+
+export const migrateSession = (record: any): StudySession => {
+  let session = { ...record };
+  for (let version = session.schemaVersion ?? 0; version < CURRENT_SCHEMA_VERSION; version++) {
+    session = { ...MIGRATIONS[version](session), schemaVersion: version + 1 };
+  }
+
+  // An answer that was streaming when the session was saved can never finish
+  session.chatMessages = session.chatMessages.map((msg: any) =>
+    msg.status === 'streaming' ? { ...msg, status: 'stopped' } : msg
+  );
+  return session as StudySession;
+};
+
+export const createSessionId = (): string =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listSessions = async (): Promise<StudySession[]> => {
+  const records = await getAll<any>(STORES.sessions);
+  return records.map(migrateSession).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = async (id: string): Promise<StudySession | null> => {
+  const record = await getOne<any>(STORES.sessions, id);
+  return record ? migrateSession(record) : null;
+};
+
+export const saveSession = async (session: StudySession): Promise<void> => {
+  await put(STORES.sessions, { ...session, schemaVersion: CURRENT_SCHEMA_VERSION });
+};
+
+export const renameSession = async (id: string, title: string): Promise<void> => {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, title, updatedAt: Date.now() });
+};
+
+export const duplicateSession = async (id: string): Promise<StudySession | null> => {
+  const session = await getSession(id);
+  if (!session) return null;
+
+  const now = Date.now();
+  const copy: StudySession = { ...session, id: createSessionId(), title: `${session.title} (copy)`, createdAt: now, updatedAt: now };
+  await saveSession(copy);
+  return copy;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await remove(STORES.sessions, id);
+};
+
+// Title from the first summary heading, then the file names, then the start of the notes
+export const deriveSessionTitle = (session: Pick<StudySession, 'content' | 'selectedFiles' | 'inputText'>): string => {
+  const heading = session.content?.summary.match(/^#+\s*(.+)$/m)?.[1];
+  if (heading) return heading.trim();
+  const [firstFile, ...otherFiles] = session.selectedFiles;
+  if (firstFile) return otherFiles.length ? `${firstFile.name} + ${otherFiles.length} more` : firstFile.name;
+  const text = session.inputText.trim();
+  return text ? text.slice(0, 50) + (text.length > 50 ? '…' : '') : 'Untitled session';
+};
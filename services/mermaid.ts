@@ -0,0 +1,58 @@
+import mermaid from 'mermaid';
+import { DiagramType } from '../types';
+
+// Returns the parse error message, or null when the code is valid Mermaid.
+export const validateMermaid = async (code: string): Promise<string | null> => {
+  if (!code.trim()) return 'Diagram code is empty';
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error: any) {
+    return error?.message || String(error);
+  }
+};
+
+// The declaration each diagram type must start with. Flowcharts come before org charts,
+// which share the `graph` syntax, so detection picks the more general type.
+const DIAGRAM_HEADERS: [DiagramType, RegExp, string][] = [
+  [DiagramType.MINDMAP, /^mindmap\b/, 'mindmap'],
+  [DiagramType.FLOWCHART, /^(graph|flowchart)\b/, 'graph TD'],
+  [DiagramType.ORGCHART, /^(graph|flowchart)\b/, 'graph TD'],
+  [DiagramType.SEQUENCE, /^sequenceDiagram\b/, 'sequenceDiagram'],
+  [DiagramType.TIMELINE, /^timeline\b/, 'timeline'],
+  [DiagramType.GANTT, /^gantt\b/, 'gantt'],
+  [DiagramType.CLASS, /^classDiagram(-v2)?\b/, 'classDiagram'],
+  [DiagramType.ER, /^erDiagram\b/, 'erDiagram'],
+  [DiagramType.STATE, /^stateDiagram(-v2)?\b/, 'stateDiagram-v2'],
+  [DiagramType.PIE, /^pie\b/, 'pie'],
+  [DiagramType.QUADRANT, /^quadrantChart\b/, 'quadrantChart'],
+  [DiagramType.JOURNEY, /^journey\b/, 'journey'],
+];
+
+// First line after any front matter, directives and comments
+const headerLine = (code: string): string => {
+  const lines = code.split('\n').map(line => line.trim());
+  let i = 0;
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    i = end === -1 ? lines.length : end + 1;
+  }
+  while (i < lines.length && (lines[i] === '' || lines[i].startsWith('%%'))) i++;
+  return lines[i] || '';
+};
+
+export const detectDiagramType = (code: string): DiagramType | null =>
+  DIAGRAM_HEADERS.find(([, pattern]) => pattern.test(headerLine(code)))?.[0] ?? null;
+
+// Checks that the code declares the requested type, e.g. a "pie" request didn't come back as a flowchart
+export const diagramTypeMismatch = (code: string, type: DiagramType): string | null => {
+  const [, pattern, header] = DIAGRAM_HEADERS.find(([t]) => t === type)!;
+  return pattern.test(headerLine(code)) ? null : `must be a ${type} diagram starting with "${header}"`;
+};
+
+// Click handlers and links run code or navigate under `securityLevel: 'loose'`, so diagrams
+// from outside the app, e.g. an imported study pack, have these lines removed.
+const INTERACTION_LINE = /^\s*(click|callback|link|links)\s/;
+
+export const stripDiagramInteractions = (code: string): string =>
+  code.split('\n').filter(line => !INTERACTION_LINE.test(line)).join('\n');
@@ -0,0 +1,159 @@
+import { strToU8, zipSync } from 'fflate';
+import { Flashcard, StudySession } from '../types';
+import { extractCitations, linkCitations } from './citations';
+import { normalizeText } from './concepts';
+import { parseDiagram } from './diagramModel';
+
+// Obsidian vault export: a folder with the study note (frontmatter, summary, mermaid diagram)
+// and a flashcard note in the Spaced Repetition plugin's syntax. Diagram concepts become
+// [[wikilinks]] so the notes connect to existing notes with the same names.
+
+export interface VaultFile {
+  path: string; // Relative to the vault folder, "/"-separated
+  content: string;
+}
+
+// Concepts shorter than this are too generic to link
+const MIN_CONCEPT_LENGTH = 3;
+
+const FLASHCARD_TAG = '#flashcards/studysketch';
+
+// Characters Obsidian does not allow in note names, and so in link targets
+export const noteName = (text: string): string =>
+  text.replace(/[[\]#^|\\/:*?"<>]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Links, wikilinks, footnote refs and inline code are left alone when linking concepts
+const PROTECTED = /\[\[[^\]]*\]\]|\[[^\]]*\]\([^)]*\)|\[\^\d+\]|`[^`]*`/g;
+
+const replaceOutsideProtected = (line: string, pattern: RegExp, replace: (match: string) => string): { line: string; replaced: boolean } => {
+  let replaced = false;
+  let result = '';
+  let last = 0;
+  const visit = (segment: string) => segment.replace(pattern, (match, before: string, text: string) => {
+    if (replaced) return match;
+    replaced = true;
+    return before + replace(text);
+  });
+  for (const match of line.matchAll(PROTECTED)) {
+    result += visit(line.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return { line: result + visit(line.slice(last)), replaced };
+};
+
+// Links the first mention of each concept outside headings and code blocks
+export const linkConcepts = (markdown: string, concepts: string[]): string => {
+  const pending = [...concepts].sort((a, b) => b.length - a.length);
+  let inCode = false;
+  return markdown.split('\n').map(line => {
+    if (/^\s*```/.test(line)) inCode = !inCode;
+    if (inCode || /^\s*#/.test(line)) return line;
+    for (let i = 0; i < pending.length; i++) {
+      const concept = pending[i];
+      const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(concept)})(?![\\p{L}\\p{N}])`, 'iu');
+      const target = noteName(concept);
+      const result = replaceOutsideProtected(line, pattern, text => text === target ? `[[${target}]]` : `[[${target}|${text}]]`);
+      if (result.replaced) {
+        line = result.line;
+        pending.splice(i--, 1);
+      }
+    }
+    return line;
+  }).join('\n');
+};
+
+// Inline [S1 p.3 "quote"] citations as footnote refs, with footnotes naming the source
+const citationsToFootnotes = (markdown: string, session: StudySession): { body: string; footnotes: string } => {
+  const citations = extractCitations(markdown);
+  const body = linkCitations(markdown).replace(/\[[^\]]*\]\(#cite-(\d+)\)/g, '[^$1]');
+  const footnotes = citations.map(citation => {
+    const name = session.content?.sources?.find(source => source.id === citation.sourceId)?.name || citation.sourceId;
+    const page = citation.page ? `, p. ${citation.page}` : '';
+    const quote = citation.quote ? `: "${citation.quote}"` : '';
+    return `[^${citation.index}]: ${name}${page}${quote}`;
+  });
+  return { body, footnotes: footnotes.join('\n') };
+};
+
+const yamlList = (values: string[]) => values.map(value => `\n  - ${JSON.stringify(value)}`).join('');
+
+const frontmatter = (session: StudySession, tags: string[]): string => {
+  const sources = session.content?.sources?.map(source => source.name)
+    || [...session.selectedFiles.map(file => file.name), ...(session.inputText ? ['Pasted notes'] : [])];
+  return [
+    '---',
+    `title: ${JSON.stringify(session.title)}`,
+    `source:${sources.length ? yamlList(sources) : ' []'}`,
+    `diagram_type: ${session.content?.diagramType ?? 'none'}`,
+    `date: ${new Date(session.createdAt).toISOString().slice(0, 10)}`,
+    `tags:${yamlList(tags)}`,
+    '---'
+  ].join('\n');
+};
+
+// Single-line cards use "Q::A"; cards with line breaks use the multi-line "?" separator
+export const toSpacedRepetition = (card: Flashcard): string =>
+  card.front.includes('\n') || card.back.includes('\n')
+    ? `${card.front}\n?\n${card.back}`
+    : `${card.front}::${card.back}`;
+
+export const conceptNames = (diagramCode: string): string[] => {
+  const model = parseDiagram(diagramCode);
+  const names = (model?.nodes || [])
+    .map(node => noteName(node.label))
+    .filter(name => normalizeText(name).length >= MIN_CONCEPT_LENGTH);
+  return Array.from(new Map(names.map(name => [name.toLowerCase(), name])).values());
+};
+
+export const buildObsidianVault = (session: StudySession): VaultFile[] => {
+  const content = session.content;
+  const title = noteName(session.title) || 'StudySketch';
+  const cardsNote = `${title} - Flashcards`;
+  const concepts = conceptNames(session.diagramCode);
+  const { body, footnotes } = citationsToFootnotes(content?.summary || '', session);
+
+  const note = [
+    frontmatter(session, ['studysketch']),
+    '',
+    linkConcepts(body, concepts),
+    ...(footnotes ? ['', footnotes] : []),
+    ...(session.diagramCode ? ['', '## Diagram', '', '```mermaid', session.diagramCode.trim(), '```'] : []),
+    ...(concepts.length ? ['', '## Concepts', '', concepts.map(name => `[[${name}]]`).join(' · ')] : []),
+    ...(content?.flashcards.length ? ['', `Flashcards: [[${cardsNote}]]`] : []),
+    ''
+  ].join('\n');
+  const files: VaultFile[] = [{ path: `${title}/${title}.md`, content: note }];
+
+  if (content?.flashcards.length) {
+    const cards = [
+      frontmatter(session, ['studysketch', 'flashcards']),
+      '',
+      FLASHCARD_TAG,
+      '',
+      `From [[${title}]]`,
+      '',
+      content.flashcards.map(toSpacedRepetition).join('\n\n'),
+      ''
+    ].join('\n');
+    files.push({ path: `${title}/${cardsNote}.md`, content: cards });
+  }
+  return files;
+};
+
+export const vaultZip = (files: VaultFile[]): Blob =>
+  new Blob([zipSync(Object.fromEntries(files.map(file => [file.path, strToU8(file.content)])))], { type: 'application/zip' });
+
+// Writes into a folder picked with the File System Access API, creating subfolders as needed
+export const writeVaultFiles = async (root: FileSystemDirectoryHandle, files: VaultFile[]): Promise<void> => {
+  for (const file of files) {
+    const parts = file.path.split('/');
+    let dir = root;
+    for (const part of parts.slice(0, -1)) dir = await dir.getDirectoryHandle(part, { create: true });
+    const handle = await dir.getFileHandle(parts[parts.length - 1], { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(file.content);
+    await writable.close();
+  }
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { PdfPageText } from '../types';
+import { formatPageSelection, isUsableExtraction, parsePageSelection } from './pdf';
+
+const page = (number: number, text: string): PdfPageText => ({ page: number, text, headings: [] });
+
+const PROSE = 'Photosynthesis converts light energy into chemical energy stored in glucose molecules. ';
+
+describe('parsePageSelection', () => {
+  it('expands ranges and single pages in order, without repeats', () => {
+    expect(parsePageSelection('9, 3-5', 10)).toEqual([3, 4, 5, 9]);
+    expect(parsePageSelection('2-4,3 - 6', 10)).toEqual([2, 3, 4, 5, 6]);
+  });
+
+  it('accepts an en dash between pages', () => {
+    expect(parsePageSelection('3–5', 10)).toEqual([3, 4, 5]);
+  });
+
+  it('rejects pages outside the document', () => {
+    expect(parsePageSelection('0-2', 10)).toBeNull();
+    expect(parsePageSelection('8-11', 10)).toBeNull();
+    expect(parsePageSelection('11', 10)).toBeNull();
+  });
+
+  it('rejects reversed ranges', () => {
+    expect(parsePageSelection('5-3', 10)).toBeNull();
+  });
+
+  it('rejects empty and unreadable selections', () => {
+    expect(parsePageSelection('', 10)).toBeNull();
+    expect(parsePageSelection(' , ', 10)).toBeNull();
+    expect(parsePageSelection('1-', 10)).toBeNull();
+    expect(parsePageSelection('first page', 10)).toBeNull();
+  });
+});
+
+describe('formatPageSelection', () => {
+  it('collapses consecutive pages into ranges', () => {
+    expect(formatPageSelection([9, 3, 4, 5])).toBe('3-5, 9');
+    expect(formatPageSelection([1, 3])).toBe('1, 3');
+    expect(formatPageSelection([])).toBe('');
+  });
+
+  it('reads back as the same selection', () => {
+    const pages = [1, 2, 3, 7, 10, 11];
+    expect(parsePageSelection(formatPageSelection(pages), 12)).toEqual(pages);
+  });
+});
+
+describe('isUsableExtraction', () => {
+  it('accepts pages with a real text layer', () => {
+    expect(isUsableExtraction([page(1, PROSE), page(2, PROSE)])).toBe(true);
+  });
+
+  it('rejects documents without text', () => {
+    expect(isUsableExtraction([])).toBe(false);
+    expect(isUsableExtraction([page(1, ''), page(2, '')])).toBe(false);
+  });
+
+  it('rejects scans with only a few characters per page', () => {
+    expect(isUsableExtraction([page(1, PROSE), page(2, ''), page(3, ''), page(4, '')])).toBe(false);
+  });
+
+  it('rejects a garbled text layer', () => {
+    expect(isUsableExtraction([page(1, PROSE + '\uFFFD'.repeat(10))])).toBe(false);
+    expect(isUsableExtraction([page(1, '0123 4567 89-+ '.repeat(10))])).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { RenderTask, TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { FileData, PdfPageText } from '../types';
+import { decodeBase64Bytes } from './chunking';
+
+// PDF text extraction in the browser. Pages keep their numbers and lines set in a noticeably
+// larger font than the body text become headings. Scanned PDFs have no text layer, so their
+// extraction is rejected and the file is sent to the model as before.
+
+interface PdfLine {
+  text: string;
+  size: number;
+}
+
+// Below this the PDF is probably scanned or has a broken text layer
+const MIN_CHARS_PER_PAGE = 80;
+const HEADING_SIZE_RATIO = 1.2;
+const MAX_HEADING_CHARS = 120;
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+  return pdfjs;
+};
+
+export const openPdf = async (data: string | Uint8Array): Promise<PDFDocumentProxy> => {
+  const pdfjs = await loadPdfjs();
+  // pdf.js takes ownership of the buffer, so always hand it a copy
+  const bytes = typeof data === 'string' ? decodeBase64Bytes(data) : data.slice();
+  return pdfjs.getDocument({ data: bytes }).promise;
+};
+
+const readLines = (items: TextItem[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let text = '';
+  let size = 0;
+  let lastY: number | null = null;
+
+  const flush = () => {
+    if (text.trim()) lines.push({ text: text.replace(/\s+/g, ' ').trim(), size });
+    text = '';
+    size = 0;
+  };
+
+  items.forEach(item => {
+    const y = item.transform[5];
+    if (lastY !== null && Math.abs(y - lastY) > 2) flush();
+    text += item.str;
+    size = Math.max(size, Math.abs(item.transform[3]) || item.height);
+    lastY = y;
+    if (item.hasEOL) {
+      flush();
+      lastY = null;
+    }
+  });
+  flush();
+  return lines;
+};
+
+// The font size covering the most characters is taken to be the body text size
+const bodySize = (lines: PdfLine[]): number => {
+  const chars = new Map<number, number>();
+  lines.forEach(line => {
+    const size = Math.round(line.size);
+    chars.set(size, (chars.get(size) || 0) + line.text.length);
+  });
+  return Array.from(chars.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+};
+
+const isHeading = (line: PdfLine, body: number) =>
+  body > 0 && line.size >= body * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_CHARS && /\p{L}/u.test(line.text);
+
+export const extractPdfText = async (bytes: Uint8Array): Promise<PdfPageText[]> => {
+  const doc = await openPdf(bytes);
+  try {
+    const pageLines: PdfLine[][] = [];
+    for (let number = 1; number <= doc.numPages; number++) {
+      const page = await doc.getPage(number);
+      const content = await page.getTextContent();
+      pageLines.push(readLines(content.items.filter((item): item is TextItem => 'str' in item)));
+      page.cleanup();
+    }
+
+    const body = bodySize(pageLines.flat());
+    // Larger heading sizes get higher levels, capped at three so sections can split on them
+    const headingSizes = Array.from(new Set(pageLines.flat().filter(l => isHeading(l, body)).map(l => Math.round(l.size))))
+      .sort((a, b) => b - a);
+    const level = (line: PdfLine) => Math.min(headingSizes.indexOf(Math.round(line.size)) + 1, 3);
+
+    return pageLines.map((lines, index) => {
+      const headings = lines.filter(line => isHeading(line, body));
+      return {
+        page: index + 1,
+        text: lines.map(line => headings.includes(line) ? `${'#'.repeat(level(line))} ${line.text}` : line.text).join('\n'),
+        headings: headings.map(line => line.text)
+      };
+    });
+  } finally {
+    doc.destroy();
+  }
+};
+
+export const isUsableExtraction = (pages: PdfPageText[]): boolean => {
+  if (pages.length === 0) return false;
+  const text = pages.map(p => p.text).join('');
+  const letters = (text.match(/\p{L}/gu) || []).length;
+  const garbled = (text.match(/\uFFFD/g) || []).length;
+  return text.length / pages.length >= MIN_CHARS_PER_PAGE && letters / text.length > 0.5 && garbled / text.length < 0.01;
+};
+
+// "3-5, 9" -> [3, 4, 5, 9]. Returns null when the selection can't be parsed or is out of range.
+export const parsePageSelection = (selection: string, pageCount: number): number[] | null => {
+  const pages = new Set<number>();
+  for (const token of selection.split(',').map(t => t.trim()).filter(Boolean)) {
+    const match = token.match(/^(\d+)(?:\s*[-–]\s*(\d+))?$/);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    if (from < 1 || to > pageCount || from > to) return null;
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+  return pages.size ? Array.from(pages).sort((a, b) => a - b) : null;
+};
+
+// [3, 4, 5, 9] -> "3-5, 9"
+export const formatPageSelection = (pages: number[]): string => {
+  const ranges: string[] = [];
+  const sorted = [...pages].sort((a, b) => a - b);
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i];
+    while (sorted[i + 1] === sorted[i] + 1) i++;
+    ranges.push(start === sorted[i] ? `${start}` : `${start}-${sorted[i]}`);
+  }
+  return ranges.join(', ');
+};
+
+export const selectedPages = (file: FileData): PdfPageText[] => {
+  const pages = file.pages || [];
+  const numbers = file.pageSelection ? parsePageSelection(file.pageSelection, pages.length) : null;
+  return numbers ? pages.filter(p => numbers.includes(p.page)) : pages;
+};
+
+// Page markers let the model, and later readers, tell where each passage came from
+export const pdfSourceText = (file: FileData): string =>
+  selectedPages(file).map(p => `[Page ${p.page}]\n${p.text}`).join('\n\n');
+
+// Returns the render task so callers can cancel it before drawing another page on the same canvas
+export const renderPdfPage = async (
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  width: number
+): Promise<RenderTask> => {
+  const page = await doc.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const scaled = page.getViewport({ scale: width / viewport.width });
+  canvas.width = Math.floor(scaled.width);
+  canvas.height = Math.floor(scaled.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  return page.render({ canvasContext: ctx, viewport: scaled });
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { AIServiceError, classifyError, errorFromStatus, isCancellation } from './errors';
+
+describe('errorFromStatus', () => {
+  it.each([
+    [401, 'auth'],
+    [403, 'auth'],
+    [429, 'quota'],
+    [408, 'timeout'],
+    [500, 'server'],
+    [503, 'server'],
+    [400, 'request'],
+    [404, 'request']
+  ])('sorts HTTP %i as %s', (status, kind) => {
+    expect(errorFromStatus(status, 'failed').kind).toBe(kind);
+  });
+
+  it('recognises Gemini errors by their message', () => {
+    expect(errorFromStatus(400, 'API key not valid. Please pass a valid API key.').kind).toBe('auth');
+    expect(errorFromStatus(400, '{"status": "RESOURCE_EXHAUSTED"}').kind).toBe('quota');
+  });
+
+  it('reads the suggested wait from Gemini details or Retry-After', () => {
+    expect(errorFromStatus(429, '{"retryDelay": "37s"}').retryAfterMs).toBe(37_000);
+    expect(errorFromStatus(429, 'Too many requests', '2').retryAfterMs).toBe(2000);
+    expect(errorFromStatus(429, 'Too many requests').retryAfterMs).toBeUndefined();
+  });
+
+  it('only retries transient failures', () => {
+    expect(errorFromStatus(503, 'down').retryable).toBe(true);
+    expect(errorFromStatus(429, 'slow down').retryable).toBe(true);
+    expect(errorFromStatus(401, 'bad key').retryable).toBe(false);
+    expect(errorFromStatus(400, 'bad request').retryable).toBe(false);
+  });
+});
+
+describe('classifyError', () => {
+  it('treats aborts as cancellations', () => {
+    const error = classifyError(new DOMException('The operation was aborted', 'AbortError'));
+    expect(error).toBeInstanceOf(AIServiceError);
+    expect((error as AIServiceError).kind).toBe('cancelled');
+  });
+
+  it('uses the status SDK errors carry', () => {
+    const error = classifyError(Object.assign(new Error('Internal error'), { status: 500 }));
+    expect(error).toMatchObject({ kind: 'server', status: 500, message: 'Internal error' });
+  });
+
+  it('treats failed fetches as network errors', () => {
+    expect((classifyError(new TypeError('Failed to fetch')) as AIServiceError).kind).toBe('network');
+  });
+
+  it('passes other errors through unchanged', () => {
+    const typo = new TypeError('x is not a function');
+    expect(classifyError(typo)).toBe(typo);
+    const known = new AIServiceError('safety', 'Blocked');
+    expect(classifyError(known)).toBe(known);
+  });
+});
+
+describe('isCancellation', () => {
+  it('recognises cancelled requests and aborts', () => {
+    expect(isCancellation(new AIServiceError('cancelled', 'Stopped'))).toBe(true);
+    expect(isCancellation(new DOMException('Aborted', 'AbortError'))).toBe(true);
+    expect(isCancellation(new AIServiceError('timeout', 'Slow'))).toBe(false);
+    expect(isCancellation('AbortError')).toBe(false);
+  });
+});
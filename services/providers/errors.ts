@@ -0,0 +1,69 @@
+// Provider failures sorted by what the user can do about them. Transient kinds are retried
+// with backoff; the rest are reported straight away.
+
+export type AIErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'timeout' | 'server' | 'request' | 'cancelled';
+
+const RETRYABLE_KINDS = new Set<AIErrorKind>(['quota', 'network', 'timeout', 'server']);
+
+export class AIServiceError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number; // Server-suggested wait before retrying
+
+  constructor(kind: AIErrorKind, message: string, { status, retryAfterMs }: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+// fetch and the SDKs reject with a DOMException named AbortError, which is an Error in browsers
+const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+// SDK errors carry the HTTP status on the error object
+const statusOf = (error: unknown): number | undefined =>
+  typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+export const isCancellation = (error: unknown): boolean =>
+  error instanceof AIServiceError ? error.kind === 'cancelled' : isAbortError(error);
+
+// Gemini puts "retryDelay": "37s" in the error details, OpenAI-compatible servers send Retry-After
+const parseRetryAfter = (text: string): number | undefined => {
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || text.match(/^\s*(\d+(?:\.\d+)?)\s*$/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+export const errorFromStatus = (status: number, message: string, retryAfter?: string | null): AIServiceError => {
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID/i.test(message)) {
+    return new AIServiceError('auth', message, { status });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    return new AIServiceError('quota', message, { status, retryAfterMs: parseRetryAfter(retryAfter || message) });
+  }
+  if (status === 408) return new AIServiceError('timeout', message, { status });
+  // Other client errors (unknown model, request too large) fail the same way on every retry
+  return new AIServiceError(status >= 500 ? 'server' : 'request', message, { status });
+};
+
+// Maps whatever a provider or fetch threw to an AIServiceError. Errors that are not about
+// the provider (bad input files, validation) pass through unchanged.
+export const classifyError = (error: unknown): unknown => {
+  if (error instanceof AIServiceError) return error;
+  const message = (error instanceof Error && error.message) || String(error);
+  if (isAbortError(error)) return new AIServiceError('cancelled', 'The request was cancelled');
+  const status = statusOf(error);
+  if (status !== undefined) return errorFromStatus(status, message);
+  // fetch rejects with a TypeError when the server cannot be reached at all
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AIServiceError('network', message);
+  }
+  return error;
+};
@@ -0,0 +1,78 @@
+import { GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { AIProvider, GenerateRequest, RequestPart } from './types';
+import { AIServiceError } from './errors';
+
+const apiKey = process.env.API_KEY || '';
+let client: GoogleGenAI | null = null;
+
+const EMBEDDING_MODEL = 'text-embedding-004';
+
+const getClient = (): GoogleGenAI => {
+  if (!apiKey) throw new AIServiceError('auth', "API Key is missing");
+  if (!client) client = new GoogleGenAI({ apiKey });
+  return client;
+};
+
+const toParams = (model: string, { parts, responseFormat, signal }: GenerateRequest) => ({
+  model,
+  contents: { parts },
+  config: {
+    abortSignal: signal,
+    ...(responseFormat === 'json'
+      ? { responseMimeType: "application/json", thinkingConfig: { thinkingBudget: 0 } }
+      : {})
+  }
+});
+
+const BLOCKING_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY']);
+
+// Blocked prompts and answers come back as empty text with the reason alongside
+const checkBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  const reason = response.promptFeedback?.blockReason
+    || (finishReason && BLOCKING_FINISH_REASONS.has(finishReason) ? finishReason : undefined);
+  if (reason) throw new AIServiceError('safety', `The request was blocked by the model's safety filters (${reason})`);
+};
+
+// Thinking tokens are billed as output
+const reportUsage = ({ onUsage }: GenerateRequest, metadata?: GenerateContentResponseUsageMetadata) => {
+  if (!metadata) return;
+  onUsage?.({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+  });
+};
+
+export const createGeminiProvider = (model: string): AIProvider => ({
+  id: 'gemini',
+  generate: async (request: GenerateRequest) => {
+    const response = await getClient().models.generateContent(toParams(model, request));
+    checkBlocked(response);
+    reportUsage(request, response.usageMetadata);
+    return response.text || '';
+  },
+  stream: async function* (request: GenerateRequest) {
+    const chunks = await getClient().models.generateContentStream(toParams(model, request));
+    // Each chunk carries the running totals, the last one the final counts
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of chunks) {
+      checkBlocked(chunk);
+      usage = chunk.usageMetadata ?? usage;
+      if (chunk.text) yield chunk.text;
+    }
+    reportUsage(request, usage);
+  },
+  embeddingModel: EMBEDDING_MODEL,
+  embed: async (texts: string[], signal?: AbortSignal) => {
+    const response = await getClient().models.embedContent({
+      model: EMBEDDING_MODEL,
+      contents: texts,
+      config: { abortSignal: signal }
+    });
+    return (response.embeddings || []).map(e => e.values || []);
+  },
+  countTokens: async (parts: RequestPart[], signal?: AbortSignal) => {
+    const response = await getClient().models.countTokens({ model, contents: { parts }, config: { abortSignal: signal } });
+    return response.totalTokens ?? 0;
+  }
+});
@@ -0,0 +1,70 @@
+import { ProviderId, ProviderSettings, TokenUsage } from '../../types';
+import { AIProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAIProvider } from './openai';
+import { createMockProvider } from './mock';
+import { withRetries } from './retry';
+import { getUsageSession, recordUsage } from '../usage';
+
+export type { AIProvider, GenerateRequest, RequestPart } from './types';
+export { AIServiceError, isCancellation } from './errors';
+export type { AIErrorKind } from './errors';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; defaultModel: string; defaultBaseUrl?: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'Local / OpenAI-compatible', defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434/v1' },
+  { id: 'mock', label: 'Mock (offline demo)', defaultModel: 'mock' },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = { provider: 'gemini', model: 'gemini-2.5-flash' };
+
+const STORAGE_KEY = 'studysketch.provider';
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Could not read provider settings", e);
+  }
+  return DEFAULT_PROVIDER_SETTINGS;
+};
+
+let activeSettings: ProviderSettings = loadProviderSettings();
+
+export const getProviderSettings = (): ProviderSettings => activeSettings;
+
+export const setProviderSettings = (settings: ProviderSettings) => {
+  activeSettings = settings;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Tokens count against the session that was open when the provider was requested, so answers
+// arriving after a session switch are still counted where they were asked
+const withUsageTracking = (provider: AIProvider, settings: ProviderSettings): AIProvider => {
+  const sessionId = getUsageSession();
+  const onUsage = (usage: TokenUsage) => recordUsage(usage, settings, sessionId);
+  return {
+    ...provider,
+    generate: (request) => provider.generate({ ...request, onUsage }),
+    stream: (request) => provider.stream({ ...request, onUsage })
+  };
+};
+
+// Every provider gets the same timeouts, retries and usage accounting
+export const getProvider = (settings: ProviderSettings = activeSettings): AIProvider =>
+  withRetries(withUsageTracking(createProvider(settings), settings));
+
+const createProvider = (settings: ProviderSettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai': {
+      const baseUrl = settings.baseUrl || PROVIDER_OPTIONS.find(p => p.id === 'openai')!.defaultBaseUrl!;
+      return createOpenAIProvider(settings.model, baseUrl, settings.apiKey, settings.embeddingModel || undefined);
+    }
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.model);
+  }
+};
@@ -0,0 +1,110 @@
+import { AIProvider, GenerateRequest } from './types';
+import { estimateTextTokens } from '../usage';
+
+// Deterministic offline provider for demos and development. Output depends only on the request text.
+
+const sentencesOf = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.length > 0);
+
+const SOURCE_LABEL = /^\[(S\d+)\][^\n]*\n?/;
+
+// Source material arrives as "[S1] name" label parts followed by the content
+const sentencesBySource = (texts: string[]) => {
+  let source: string | undefined;
+  return texts.flatMap(text => {
+    const label = text.match(SOURCE_LABEL);
+    if (label) source = label[1];
+    return sentencesOf(text.replace(SOURCE_LABEL, '')).map(sentence => ({ sentence, source }));
+  });
+};
+
+// Mind maps when asked for one, flowcharts otherwise
+const buildDiagram = (sentences: string[], prompt: string): string => {
+  const labels = sentences.map(s => s.slice(0, 40).replace(/"/g, "'"));
+  if (prompt.includes('must be: mindmap')) {
+    return ['mindmap', '  root((Source))', ...labels.map((label, i) => `    N${i}("${label}")`)].join('\n');
+  }
+  const nodes = labels.map((label, i) => `    N${i}["${label}"]`);
+  const edges = labels.map((_, i) => `    Root --> N${i}`);
+  return ['graph TD', '    Root(("Source"))', ...nodes, ...edges].join('\n');
+};
+
+const buildContent = (texts: string[], prompt: string) => {
+  const items = sentencesBySource(texts).slice(0, 5);
+  const sentences = items.map(item => item.sentence);
+
+  return {
+    summary: sentences.length
+      ? `## Mock Summary\n\n${items.map(({ sentence, source }) => `*   ${sentence}${source ? ` [${source} "${sentence.split(' ').slice(0, 6).join(' ')}"]` : ''}`).join('\n')}`
+      : 'No content provided.',
+    ...(prompt.includes('"diagramTypeReason"') ? { diagramType: 'flowchart', diagramTypeReason: 'The mock provider always draws flowcharts.' } : {}),
+    diagramCode: buildDiagram(sentences, prompt),
+    flashcards: items.map((item, i) => ({ front: `What does point ${i + 1} state?`, back: item.sentence, source: item.source }))
+  };
+};
+
+const buildQuiz = (texts: string[]) => {
+  const sentences = sentencesBySource(texts).map(item => item.sentence).filter(s => s.split(' ').length > 3).slice(0, 6);
+  return {
+    questions: sentences.map((sentence, i) => {
+      const words = sentence.split(' ');
+      const explanation = `The material states: "${sentence}"`;
+      if (i % 3 === 0) {
+        return { type: 'multiple-choice', prompt: `Which sentence appears in the material?`, options: [sentence, `${words.slice(0, 2).join(' ')} is not covered.`, 'None of the above.'], answerIndex: 0, explanation };
+      }
+      if (i % 3 === 1) {
+        const gap = words.reduce((longest, word) => word.length > longest.length ? word : longest, '');
+        return { type: 'cloze', prompt: sentence.replace(gap, '____'), answer: gap, explanation };
+      }
+      return { type: 'true-false', prompt: sentence, answer: true, explanation };
+    })
+  };
+};
+
+const respond = ({ parts, responseFormat }: GenerateRequest): string => {
+  const texts = parts.flatMap(p => ('text' in p ? [p.text] : []));
+
+  if (responseFormat === 'json' && texts[texts.length - 1]?.includes('"children"')) {
+    const words = sentencesBySource(texts.slice(0, -1)).map(item => item.sentence.split(' ').slice(0, 3).join(' '));
+    return JSON.stringify({ children: words.slice(0, 3) });
+  }
+
+  if (responseFormat === 'json' && texts[texts.length - 1]?.includes('"questions"')) {
+    return JSON.stringify(buildQuiz(texts.slice(0, -1)));
+  }
+
+  if (responseFormat === 'json') {
+    // The last text part is the instruction prompt, everything before it is source material.
+    return JSON.stringify(buildContent(texts.slice(0, -1), texts[texts.length - 1] || ''));
+  }
+
+  const words = texts.join(' ').split(/\s+/).filter(Boolean).length;
+  return `This is a mock answer generated offline from ${words} words of context.`;
+};
+
+// Estimated like a local model would be, so usage totals also work offline
+const reportUsage = ({ parts, onUsage }: GenerateRequest, answer: string) => onUsage?.({
+  promptTokens: parts.reduce((total, part) => total + ('text' in part ? estimateTextTokens(part.text) : 0), 0),
+  outputTokens: estimateTextTokens(answer)
+});
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  generate: async (request: GenerateRequest) => {
+    if (request.signal?.aborted) throw abortError();
+    const answer = respond(request);
+    reportUsage(request, answer);
+    return answer;
+  },
+  stream: async function* (request: GenerateRequest) {
+    const answer = respond(request);
+    for (const word of answer.split(/(?<=\s)/)) {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      if (request.signal?.aborted) throw abortError();
+      yield word;
+    }
+    reportUsage(request, answer);
+  }
+});
@@ -0,0 +1,132 @@
+import { AIProvider, GenerateRequest, RequestPart } from './types';
+import { decodeBase64Text } from '../chunking';
+import { AIServiceError, errorFromStatus } from './errors';
+
+// Works with any server exposing the OpenAI chat completions API,
+// e.g. Ollama (http://localhost:11434/v1) or llama.cpp server (http://localhost:8080/v1).
+
+// The parts of the chat completions wire format this provider sends and reads
+
+type MessageContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatChoice {
+  finish_reason?: string | null;
+  message?: { content?: string | null };
+  delta?: { content?: string | null };
+}
+
+// Also the shape of each streamed chunk, which carries `delta` instead of `message`
+interface ChatCompletionResponse {
+  choices?: ChatChoice[];
+  usage?: ChatUsage | null;
+}
+
+interface EmbeddingResponse {
+  data?: { embedding: number[] }[];
+}
+
+// Local servers only understand text and images, so documents are inlined as text where possible.
+const toMessageContent = (part: RequestPart): MessageContentPart => {
+  if ('text' in part) {
+    return { type: 'text', text: part.text };
+  }
+  const { mimeType, data } = part.inlineData;
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  if (mimeType.startsWith('text/')) {
+    return { type: 'text', text: decodeBase64Text(data) };
+  }
+  throw new Error(`The local model server cannot read ${mimeType} files. Paste the text instead.`);
+};
+
+export const createOpenAIProvider = (model: string, baseUrl: string, apiKey?: string, embeddingModel?: string): AIProvider => {
+  const post = async (path: string, body: object, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      const message = `Model server responded with ${response.status}: ${await response.text()}`;
+      throw errorFromStatus(response.status, message, response.headers.get('Retry-After'));
+    }
+    return response;
+  };
+
+  const request = ({ parts, responseFormat, signal }: GenerateRequest, stream: boolean) =>
+    post('/chat/completions', {
+      model,
+      stream,
+      messages: [{ role: 'user', content: parts.map(toMessageContent) }],
+      // Streams only report usage in a final chunk when asked to
+      ...(stream ? { stream_options: { include_usage: true } } : {}),
+      ...(responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {})
+    }, signal);
+
+  const reportUsage = ({ onUsage }: GenerateRequest, usage: ChatUsage | null | undefined) => {
+    if (usage) onUsage?.({ promptTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 });
+  };
+
+  const checkFiltered = (choice: ChatChoice | undefined) => {
+    if (choice?.finish_reason === 'content_filter') {
+      throw new AIServiceError('safety', "The model server's content filter blocked the response");
+    }
+  };
+
+  return {
+    id: 'openai',
+    ...(embeddingModel ? {
+      embeddingModel,
+      embed: async (texts: string[], signal?: AbortSignal) => {
+        const json: EmbeddingResponse = await (await post('/embeddings', { model: embeddingModel, input: texts }, signal)).json();
+        return (json.data || []).map(item => item.embedding);
+      }
+    } : {}),
+    generate: async (req: GenerateRequest) => {
+      const json: ChatCompletionResponse = await (await request(req, false)).json();
+      checkFiltered(json.choices?.[0]);
+      reportUsage(req, json.usage);
+      return json.choices?.[0]?.message?.content || '';
+    },
+    // Streams arrive as server-sent events: `data: {...}` lines terminated by `data: [DONE]`
+    stream: async function* (req: GenerateRequest) {
+      const response = await request(req, true);
+      if (!response.body) throw new Error("Model server returned an empty stream");
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+          const event: ChatCompletionResponse = JSON.parse(data);
+          reportUsage(req, event.usage);
+          const choice = event.choices?.[0];
+          checkFiltered(choice);
+          const delta = choice?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+};
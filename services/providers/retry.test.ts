@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIServiceError } from './errors';
+import { AIProvider } from './types';
+import { MAX_RETRIES, withRetries, withRetry } from './retry';
+
+const failing = (kind: ConstructorParameters<typeof AIServiceError>[0], options = {}) =>
+  new AIServiceError(kind, `${kind} failure`, options);
+
+// Rejects once its signal aborts, like fetch does
+const hanging = (signal: AbortSignal) => new Promise<string>((_, reject) => {
+  signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  it('retries transient failures until one succeeds', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(failing('server'))
+      .mockRejectedValueOnce(failing('network'))
+      .mockResolvedValue('ok');
+    await expect(withRetry(run)).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const run = vi.fn().mockRejectedValue(failing('server'));
+    await expect(withRetry(run)).rejects.toMatchObject({ kind: 'server' });
+    expect(run).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+  });
+
+  it('reports permanent failures straight away', async () => {
+    const run = vi.fn().mockRejectedValue(failing('auth'));
+    await expect(withRetry(run)).rejects.toMatchObject({ kind: 'auth' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not wait out long server-suggested delays', async () => {
+    const run = vi.fn().mockRejectedValue(failing('quota', { retryAfterMs: 3_600_000 }));
+    await expect(withRetry(run)).rejects.toMatchObject({ kind: 'quota' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('classifies raw provider errors before deciding', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Service Unavailable'), { status: 503 }))
+      .mockResolvedValue('ok');
+    await expect(withRetry(run)).resolves.toBe('ok');
+  });
+
+  it('times out attempts that take too long', async () => {
+    const run = vi.fn(hanging);
+    await expect(withRetry(run, undefined, 20)).rejects.toMatchObject({ kind: 'timeout' });
+    expect(run).toHaveBeenCalledTimes(MAX_RETRIES + 1);
+  });
+
+  it('stops without retrying when the caller cancels', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(hanging);
+    const result = withRetry(run, controller.signal);
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('backoff', () => {
+  it('waits a random share of an exponentially growing delay', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const run = vi.fn().mockRejectedValue(failing('server'));
+    const result = withRetry(run).catch(error => error);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(499);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(run).toHaveBeenCalledTimes(2); // 0.5 × 1s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(run).toHaveBeenCalledTimes(3); // 0.5 × 2s
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run).toHaveBeenCalledTimes(4); // 0.5 × 4s
+    expect(await result).toMatchObject({ kind: 'server' });
+  });
+
+  it('uses the server-suggested delay when there is one', async () => {
+    vi.useFakeTimers();
+    const run = vi.fn()
+      .mockRejectedValueOnce(failing('quota', { retryAfterMs: 5000 }))
+      .mockResolvedValue('ok');
+    const result = withRetry(run);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+});
+
+describe('withRetries streams', () => {
+  const streamingProvider = (stream: AIProvider['stream']): AIProvider => ({
+    id: 'mock',
+    generate: async () => '',
+    stream
+  });
+
+  const collect = async (stream: AsyncGenerator<string>) => {
+    const chunks: string[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  it('retries a stream that fails before its first chunk', async () => {
+    let attempts = 0;
+    const provider = withRetries(streamingProvider(async function* () {
+      attempts++;
+      if (attempts === 1) throw failing('network');
+      yield 'Hello';
+      yield ' world';
+    }));
+    expect(await collect(provider.stream({ parts: [] }))).toEqual(['Hello', ' world']);
+    expect(attempts).toBe(2);
+  });
+
+  it('does not repeat text that was already shown', async () => {
+    let attempts = 0;
+    const provider = withRetries(streamingProvider(async function* () {
+      attempts++;
+      yield 'Hello';
+      throw failing('network');
+    }));
+    await expect(collect(provider.stream({ parts: [] }))).rejects.toMatchObject({ kind: 'network' });
+    expect(attempts).toBe(1);
+  });
+});
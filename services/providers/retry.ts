@@ -0,0 +1,122 @@
+import { AIProvider, GenerateRequest, RequestPart } from './types';
+import { AIServiceError, classifyError } from './errors';
+
+// Timeouts and retries shared by every provider. Each attempt gets its own abort signal that
+// fires when the caller cancels or the attempt runs out of time.
+
+export const REQUEST_TIMEOUT_MS = 120_000; // Whole response, for generate and embed
+export const STREAM_IDLE_TIMEOUT_MS = 60_000; // Longest gap between streamed chunks
+export const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000; // Longer server-suggested waits (e.g. a daily quota) are not worth retrying
+
+const cancelled = () => new AIServiceError('cancelled', 'The request was cancelled');
+
+// `touch` restarts the timer, so a stream only times out when it stalls
+const attemptSignal = (outer: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const cancel = () => controller.abort();
+  if (outer?.aborted) controller.abort();
+  outer?.addEventListener('abort', cancel);
+  touch();
+  return {
+    signal: controller.signal,
+    touch,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', cancel);
+    }
+  };
+};
+
+const attemptError = (error: unknown, outer: AbortSignal | undefined, timedOut: boolean, timeoutMs: number): unknown => {
+  if (outer?.aborted) return cancelled();
+  if (timedOut) return new AIServiceError('timeout', `No response from the AI provider within ${timeoutMs / 1000} seconds`);
+  return classifyError(error);
+};
+
+const shouldRetry = (error: unknown, attempt: number): error is AIServiceError =>
+  error instanceof AIServiceError && error.retryable && attempt < MAX_RETRIES
+  && (error.retryAfterMs ?? 0) <= MAX_DELAY_MS;
+
+// Exponential backoff with full jitter, so parallel requests don't retry in lockstep
+const retryDelay = (attempt: number, error: AIServiceError): number =>
+  error.retryAfterMs ?? Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelled());
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+export const withRetry = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  timeoutMs: number = REQUEST_TIMEOUT_MS
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const current = attemptSignal(signal, timeoutMs);
+    try {
+      return await run(current.signal);
+    } catch (error) {
+      const failure = attemptError(error, signal, current.timedOut(), timeoutMs);
+      if (!shouldRetry(failure, attempt)) throw failure;
+      console.warn(`AI request failed, retrying (attempt ${attempt + 1} of ${MAX_RETRIES})`, failure);
+      await sleep(retryDelay(attempt, failure), signal);
+    } finally {
+      current.dispose();
+    }
+  }
+};
+
+// Once text has been shown, a retry would repeat it, so only failures before the first chunk are retried
+async function* streamWithRetry(provider: AIProvider, request: GenerateRequest): AsyncGenerator<string> {
+  for (let attempt = 0; ; attempt++) {
+    const current = attemptSignal(request.signal, STREAM_IDLE_TIMEOUT_MS);
+    let started = false;
+    try {
+      for await (const chunk of provider.stream({ ...request, signal: current.signal })) {
+        current.touch();
+        started = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      const failure = attemptError(error, request.signal, current.timedOut(), STREAM_IDLE_TIMEOUT_MS);
+      if (started || !shouldRetry(failure, attempt)) throw failure;
+      console.warn(`AI stream failed, retrying (attempt ${attempt + 1} of ${MAX_RETRIES})`, failure);
+      await sleep(retryDelay(attempt, failure), request.signal);
+    } finally {
+      current.dispose();
+    }
+  }
+}
+
+export const withRetries = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generate: (request) => withRetry(signal => provider.generate({ ...request, signal }), request.signal),
+  stream: (request) => streamWithRetry(provider, request),
+  ...(provider.embed ? {
+    embed: (texts: string[], signal?: AbortSignal) => withRetry(attempt => provider.embed!(texts, attempt), signal)
+  } : {}),
+  ...(provider.countTokens ? {
+    countTokens: (parts: RequestPart[], signal?: AbortSignal) => withRetry(attempt => provider.countTokens!(parts, attempt), signal)
+  } : {})
+});
@@ -0,0 +1,27 @@
+import { ProviderId, TokenUsage } from '../../types';
+
+// Request parts mirror the Gemini content shape so prompts can be built once
+// and translated by each provider.
+export type RequestPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface GenerateRequest {
+  parts: RequestPart[];
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  // Called with the token counts once the provider reports them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  generate(request: GenerateRequest): Promise<string>;
+  // Yields text deltas as they arrive
+  stream(request: GenerateRequest): AsyncGenerator<string>;
+  // Only set when the provider can embed text for retrieval
+  embeddingModel?: string;
+  embed?(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+  // Only set when the provider has a tokenizer endpoint
+  countTokens?(parts: RequestPart[], signal?: AbortSignal): Promise<number>;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { QuizQuestion } from '../types';
+import { parseDiagram } from './diagramModel';
+import { findDiagramNode, findSummaryHeading, headingAnchor, isCorrect, quizScore, responseText } from './quiz';
+
+const MULTIPLE_CHOICE: QuizQuestion = {
+  id: 'q1', type: 'multiple-choice', prompt: 'Powerhouse of the cell?', options: ['Nucleus', 'Mitochondria'], answerIndex: 1, explanation: ''
+};
+const CLOZE: QuizQuestion = { id: 'q2', type: 'cloze', prompt: 'Plants store energy as ____.', answer: 'Glucose', explanation: '' };
+const TRUE_FALSE: QuizQuestion = { id: 'q3', type: 'true-false', prompt: 'Animal cells have chloroplasts.', answer: false, explanation: '' };
+
+const SUMMARY = `# Cell biology
+
+## The *Mitochondria*
+Makes ATP.
+
+### Photosynthesis in plants
+Uses light.`;
+
+const MODEL = parseDiagram(`mindmap
+  root((Cells))
+    M[Mitochondria]
+    P["Photosynthesis (light reactions)"]
+    E[" "]`)!;
+
+describe('isCorrect', () => {
+  it('checks option indexes and true/false answers exactly', () => {
+    expect(isCorrect(MULTIPLE_CHOICE, 1)).toBe(true);
+    expect(isCorrect(MULTIPLE_CHOICE, 0)).toBe(false);
+    expect(isCorrect(TRUE_FALSE, false)).toBe(true);
+    expect(isCorrect(TRUE_FALSE, true)).toBe(false);
+  });
+
+  it('ignores case, punctuation and spacing in cloze answers', () => {
+    expect(isCorrect(CLOZE, '  glucose.')).toBe(true);
+    expect(isCorrect(CLOZE, '"GLUCOSE"')).toBe(true);
+    expect(isCorrect(CLOZE, 'starch')).toBe(false);
+    expect(isCorrect(CLOZE, 1)).toBe(false);
+  });
+
+  it('marks unanswered questions wrong', () => {
+    expect(isCorrect(MULTIPLE_CHOICE, undefined)).toBe(false);
+    expect(isCorrect(TRUE_FALSE, undefined)).toBe(false);
+    expect(isCorrect(CLOZE, '')).toBe(false);
+    expect(responseText(CLOZE, undefined)).toBe('No answer');
+  });
+
+  it('only counts answered, correct questions in the score', () => {
+    const result = { responses: { q1: 1, q2: 'Starch' }, elapsedSeconds: 30, timedOut: true };
+    expect(quizScore([MULTIPLE_CHOICE, CLOZE, TRUE_FALSE], result)).toBe(1);
+  });
+});
+
+describe('findSummaryHeading', () => {
+  it('matches headings regardless of markdown and case', () => {
+    expect(findSummaryHeading(SUMMARY, 'the mitochondria')).toBe('The *Mitochondria*');
+  });
+
+  it('falls back to a heading that contains the text, or is contained by it', () => {
+    expect(findSummaryHeading(SUMMARY, 'Photosynthesis')).toBe('Photosynthesis in plants');
+    expect(findSummaryHeading(SUMMARY, 'Cell biology basics')).toBe('Cell biology');
+  });
+
+  it('prefers an exact match over a looser one', () => {
+    expect(findSummaryHeading(`# Cells and tissues\n# Cells`, 'cells')).toBe('Cells');
+  });
+
+  it('returns nothing when no heading matches', () => {
+    expect(findSummaryHeading(SUMMARY, 'Respiration')).toBeNull();
+    expect(findSummaryHeading(SUMMARY, '**')).toBeNull();
+  });
+
+  it('gives matched headings the anchor the summary renders', () => {
+    expect(headingAnchor('The *Mitochondria*')).toBe('summary-the-mitochondria');
+  });
+});
+
+describe('findDiagramNode', () => {
+  it('matches node labels loosely', () => {
+    expect(findDiagramNode(MODEL, 'mitochondria')).toBe('M');
+    expect(findDiagramNode(MODEL, 'photosynthesis')).toBe('P');
+    expect(findDiagramNode(MODEL, 'The mitochondria of a cell')).toBe('M');
+  });
+
+  it('skips nodes without a label and returns nothing when no node matches', () => {
+    expect(findDiagramNode(MODEL, 'Ribosome')).toBeNull();
+    expect(findDiagramNode(MODEL, '?')).toBeNull();
+  });
+});
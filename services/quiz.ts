@@ -0,0 +1,70 @@
+import { QuizQuestion, QuizResponse } from '../types';
+import { DiagramModel } from './diagramModel';
+import { normalizeText } from './concepts';
+
+// Answer checking and review links for quizzes. Questions point back at the summary and
+// diagram by text, which is matched loosely since models rarely copy labels exactly.
+
+// Time allowed per question in a timed quiz
+export const SECONDS_PER_QUESTION = 45;
+
+export const isCorrect = (question: QuizQuestion, response: QuizResponse | undefined): boolean => {
+  if (response === undefined) return false;
+  switch (question.type) {
+    case 'multiple-choice':
+      return response === question.answerIndex;
+    case 'cloze':
+      return typeof response === 'string' && normalizeText(response) === normalizeText(question.answer);
+    case 'true-false':
+      return response === question.answer;
+  }
+};
+
+export const correctAnswerText = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return question.options[question.answerIndex];
+    case 'cloze':
+      return question.answer;
+    case 'true-false':
+      return question.answer ? 'True' : 'False';
+  }
+};
+
+export const responseText = (question: QuizQuestion, response: QuizResponse | undefined): string => {
+  if (response === undefined || response === '') return 'No answer';
+  if (question.type === 'multiple-choice' && typeof response === 'number') return question.options[response];
+  if (typeof response === 'boolean') return response ? 'True' : 'False';
+  return String(response);
+};
+
+// Anchor id for a summary heading, shared by the summary renderer and the quiz review links
+export const headingAnchor = (heading: string): string =>
+  `summary-${normalizeText(heading).replace(/ /g, '-')}`;
+
+export const findSummaryHeading = (summary: string, heading: string): string | null => {
+  const target = normalizeText(heading);
+  if (!target) return null;
+  const headings = Array.from(summary.matchAll(/^#{1,6}\s+(.+)$/gm), m => m[1].trim());
+  return headings.find(h => normalizeText(h) === target)
+    || headings.find(h => normalizeText(h).includes(target) || target.includes(normalizeText(h)))
+    || null;
+};
+
+export const findDiagramNode = (model: DiagramModel, label: string): string | null => {
+  const target = normalizeText(label);
+  if (!target) return null;
+  const nodes = model.nodes.filter(node => normalizeText(node.label));
+  return (nodes.find(node => normalizeText(node.label) === target)
+    || nodes.find(node => normalizeText(node.label).includes(target) || target.includes(normalizeText(node.label))))?.id
+    || null;
+};
+
+export interface QuizResult {
+  responses: Record<string, QuizResponse>; // By question id, unanswered questions are missing
+  elapsedSeconds: number;
+  timedOut: boolean;
+}
+
+export const quizScore = (questions: QuizQuestion[], result: QuizResult): number =>
+  questions.filter(q => isCorrect(q, result.responses[q.id])).length;
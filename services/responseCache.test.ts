@@ -0,0 +1,83 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cacheStats, clearResponseCache, isCached, readCache, writeCache } from './responseCache';
+
+// Sizes are measured as JSON characters, so a string of n characters takes n + 2
+const text = (chars: number) => 'x'.repeat(chars - 2);
+
+let clock = 0;
+
+beforeEach(async () => {
+  // Every write and read gets its own timestamp, so the least recently used entry is unambiguous
+  vi.spyOn(Date, 'now').mockImplementation(() => ++clock);
+  await clearResponseCache();
+});
+
+describe('writeCache', () => {
+  it('stores values and keeps running totals', async () => {
+    await writeCache('a', 'chat', text(100));
+    await writeCache('b', 'chat', text(50));
+    expect(await cacheStats()).toEqual({ entries: 2, bytes: 150 });
+    expect((await readCache<string>('a'))?.value).toBe(text(100));
+  });
+
+  it('replaces an entry without counting it twice', async () => {
+    await writeCache('a', 'chat', text(100));
+    await writeCache('a', 'chat', text(40));
+    expect(await cacheStats()).toEqual({ entries: 1, bytes: 40 });
+  });
+
+  it('evicts the least recently used entries past the entry limit', async () => {
+    for (let i = 0; i < 200; i++) await writeCache(`k${i}`, 'chat', text(10));
+    // Reading k0 makes k1 the least recently used
+    await readCache('k0');
+    await writeCache('k200', 'chat', text(10));
+    await writeCache('k201', 'chat', text(10));
+
+    expect(await cacheStats()).toEqual({ entries: 200, bytes: 2000 });
+    expect(await isCached('k0')).toBe(true);
+    expect(await isCached('k1')).toBe(false);
+    expect(await isCached('k2')).toBe(false);
+    expect(await isCached('k3')).toBe(true);
+  });
+
+  it('evicts entries past the size limit', async () => {
+    const large = 20 * 1024 * 1024;
+    await writeCache('first', 'generation', text(large));
+    await writeCache('second', 'generation', text(large));
+    await writeCache('third', 'generation', text(large));
+
+    expect(await cacheStats()).toEqual({ entries: 2, bytes: 2 * large });
+    expect(await isCached('first')).toBe(false);
+    expect(await isCached('third')).toBe(true);
+  });
+
+  it('skips values larger than the whole cache', async () => {
+    await writeCache('huge', 'generation', text(51 * 1024 * 1024));
+    expect(await isCached('huge')).toBe(false);
+    expect(await cacheStats()).toEqual({ entries: 0, bytes: 0 });
+  });
+});
+
+describe('readCache', () => {
+  it('returns nothing for unknown keys', async () => {
+    expect(await readCache('missing')).toBeNull();
+  });
+
+  it('keeps the creation time across reads', async () => {
+    const before = clock;
+    await writeCache('a', 'chat', 'answer');
+    const first = await readCache('a');
+    expect(first?.createdAt).toBeGreaterThan(before);
+    expect(await readCache('a')).toEqual({ value: 'answer', createdAt: first?.createdAt });
+  });
+});
+
+describe('clearResponseCache', () => {
+  it('removes every entry and resets the totals', async () => {
+    await writeCache('a', 'chat', text(10));
+    await clearResponseCache();
+    expect(await cacheStats()).toEqual({ entries: 0, bytes: 0 });
+    expect(await isCached('a')).toBe(false);
+  });
+});
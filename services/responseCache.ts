@@ -0,0 +1,120 @@
+import { STORES, getOne, promisify, withTransaction } from './db';
+import { hashString } from './hash';
+
+// Model responses cached in IndexedDB, keyed by a hash of everything that shapes the response:
+// the input, file bytes, diagram type, provider, model and prompt version. The least recently
+// used entries are evicted once the cache grows past its limits. Running totals kept next to the
+// entries mean a write only touches the entries it evicts.
+
+const MAX_ENTRIES = 200;
+const MAX_BYTES = 50 * 1024 * 1024; // Approximate, measured as JSON characters
+
+export type CacheKind = 'generation' | 'chat';
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  value: unknown;
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CacheTotals {
+  key: typeof TOTALS_KEY;
+  entries: number;
+  bytes: number;
+}
+
+const TOTALS_KEY = 'responseCacheTotals';
+
+export interface CacheHit<T> {
+  value: T;
+  createdAt: number;
+}
+
+// Two 53-bit hashes with different seeds, so unrelated inputs practically never collide
+export const cacheKey = (...parts: unknown[]): string => {
+  const text = JSON.stringify(parts);
+  return `${hashString(text, 1).toString(36)}-${hashString(text, 2).toString(36)}`;
+};
+
+// The cache only saves time, so its failures are logged and otherwise ignored
+export const readCache = async <T>(key: string): Promise<CacheHit<T> | null> => {
+  try {
+    // One transaction, so an eviction in between cannot be undone by the touch
+    const entry = await withTransaction([STORES.responses], 'readwrite', async tx => {
+      const responses = tx.objectStore(STORES.responses);
+      const found = await promisify<CacheEntry | undefined>(responses.get(key));
+      if (found) responses.put({ ...found, lastUsedAt: Date.now() });
+      return found;
+    });
+    if (!entry) return null;
+    return { value: entry.value as T, createdAt: entry.createdAt };
+  } catch (error) {
+    console.warn("Response cache read failed", error);
+    return null;
+  }
+};
+
+// Checks for an entry without counting it as a use
+export const isCached = async (key: string): Promise<boolean> => {
+  try {
+    return Boolean(await getOne<CacheEntry>(STORES.responses, key));
+  } catch (error) {
+    console.warn("Response cache read failed", error);
+    return false;
+  }
+};
+
+const readTotals = async (tx: IDBTransaction): Promise<CacheTotals> =>
+  (await promisify<CacheTotals | undefined>(tx.objectStore(STORES.meta).get(TOTALS_KEY)))
+  ?? { key: TOTALS_KEY, entries: 0, bytes: 0 };
+
+// Walks entries from least to most recently used, deleting until the totals are within limits
+const evict = (tx: IDBTransaction, totals: CacheTotals, keep: string) => new Promise<void>((resolve, reject) => {
+  const request = tx.objectStore(STORES.responses).index('lastUsedAt').openCursor();
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor || (totals.entries <= MAX_ENTRIES && totals.bytes <= MAX_BYTES)) return resolve();
+    const entry = cursor.value as CacheEntry;
+    if (entry.key !== keep) {
+      cursor.delete();
+      totals.entries -= 1;
+      totals.bytes -= entry.size;
+    }
+    cursor.continue();
+  };
+});
+
+export const writeCache = async (key: string, kind: CacheKind, value: unknown): Promise<void> => {
+  try {
+    const now = Date.now();
+    const size = JSON.stringify(value).length;
+    if (size > MAX_BYTES) return;
+    await withTransaction([STORES.responses, STORES.meta], 'readwrite', async tx => {
+      const responses = tx.objectStore(STORES.responses);
+      const totals = await readTotals(tx);
+      const previous = await promisify<CacheEntry | undefined>(responses.get(key));
+      responses.put({ key, kind, value, size, createdAt: now, lastUsedAt: now } satisfies CacheEntry);
+      totals.entries += previous ? 0 : 1;
+      totals.bytes += size - (previous?.size ?? 0);
+      await evict(tx, totals, key);
+      tx.objectStore(STORES.meta).put(totals);
+    });
+  } catch (error) {
+    console.warn("Response cache write failed", error);
+  }
+};
+
+export const cacheStats = async (): Promise<{ entries: number; bytes: number }> => {
+  const { entries, bytes } = await withTransaction([STORES.meta], 'readonly', readTotals);
+  return { entries, bytes };
+};
+
+export const clearResponseCache = (): Promise<void> =>
+  withTransaction([STORES.responses, STORES.meta], 'readwrite', async tx => {
+    tx.objectStore(STORES.responses).clear();
+    tx.objectStore(STORES.meta).delete(TOTALS_KEY);
+  });
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider } from './providers';
+import { SourceDocument } from './sources';
+import { buildRetrievalIndex, needsRetrieval, retrievePassages, RETRIEVAL_MIN_CHARS } from './retrieval';
+
+const mocks = vi.hoisted(() => ({ provider: {} as Partial<AIProvider> }));
+
+vi.mock('./providers', () => ({ getProvider: () => mocks.provider }));
+
+const filler = (topic: string, chars: number) => `${topic} notes go on. `.repeat(Math.ceil(chars / (topic.length + 15)));
+
+const SOURCES: SourceDocument[] = [
+  {
+    id: 'S1',
+    name: 'lecture.pdf',
+    text: `[Page 1]\n# Photosynthesis\nChlorophyll absorbs light to make glucose.\n\n${filler('plant', 1400)}\n\n[Page 2]\n# Respiration\nMitochondria turn glucose into ATP.\n\n${filler('energy', 1400)}`
+  },
+  { id: 'S2', name: 'Pasted notes', text: '# Enzymes\nEnzymes lower the activation energy of reactions.' },
+  { id: 'S3', name: 'figure.png', text: null }
+];
+
+beforeEach(() => {
+  mocks.provider = {};
+});
+
+describe('needsRetrieval', () => {
+  it('only indexes sources too large to send whole', () => {
+    expect(needsRetrieval(SOURCES)).toBe(false);
+    expect(needsRetrieval([{ id: 'S1', name: 'book', text: 'x'.repeat(RETRIEVAL_MIN_CHARS + 1) }])).toBe(true);
+  });
+});
+
+describe('buildRetrievalIndex', () => {
+  it('chunks text sources and records the page each chunk starts on', async () => {
+    const index = await buildRetrievalIndex(SOURCES);
+    expect(index.method).toBe('bm25');
+    expect(index.chunks.every(chunk => chunk.sourceId !== 'S3')).toBe(true);
+    const respiration = index.chunks.find(chunk => chunk.text.includes('Mitochondria'))!;
+    expect(respiration).toMatchObject({ sourceId: 'S1', page: 2 });
+  });
+
+  it('embeds chunks when the provider can', async () => {
+    mocks.provider = {
+      embeddingModel: 'test-embedding',
+      embed: async texts => texts.map(text => [text.length, 1])
+    };
+    const index = await buildRetrievalIndex(SOURCES);
+    expect(index).toMatchObject({ method: 'embeddings', embeddingModel: 'test-embedding' });
+    expect(index.chunks.every(chunk => chunk.embedding?.length === 2)).toBe(true);
+  });
+
+  it('falls back to BM25 when embedding fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mocks.provider = { embeddingModel: 'test-embedding', embed: async () => { throw new Error('offline'); } };
+    expect((await buildRetrievalIndex(SOURCES)).method).toBe('bm25');
+  });
+});
+
+describe('retrievePassages', () => {
+  it('ranks passages by keyword relevance', async () => {
+    const index = await buildRetrievalIndex(SOURCES);
+    const [best] = await retrievePassages(index, 'How do mitochondria make ATP?');
+    expect(best.text).toContain('Mitochondria turn glucose into ATP');
+    expect(best.page).toBe(2);
+  });
+
+  it('leaves out passages that share no terms with the question', async () => {
+    const index = await buildRetrievalIndex(SOURCES);
+    const passages = await retrievePassages(index, 'enzymes activation');
+    expect(passages.map(p => p.sourceId)).toEqual(['S2']);
+  });
+
+  it('falls back to the opening passages when nothing matches the question', async () => {
+    const index = await buildRetrievalIndex(SOURCES);
+    const passages = await retrievePassages(index, 'Summarize this', 2);
+    expect(passages.map(p => p.chunkId)).toEqual(index.chunks.slice(0, 2).map(chunk => chunk.id));
+    expect(passages.every(p => p.score === 0)).toBe(true);
+  });
+
+  it('returns at most k passages', async () => {
+    const index = await buildRetrievalIndex(SOURCES);
+    expect(await retrievePassages(index, 'notes glucose energy', 2)).toHaveLength(2);
+  });
+});
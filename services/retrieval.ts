@@ -0,0 +1,160 @@
+import { RetrievalChunk, RetrievalIndex, RetrievedPassage } from '../types';
+import { getProvider } from './providers';
+import { splitIntoSections } from './chunking';
+import { hashString } from './hash';
+import { SourceDocument } from './sources';
+
+// Local retrieval for chat. Source text is cut into small chunks that are ranked per question,
+// by embedding similarity when the provider can embed text and by BM25 otherwise, so only
+// the most relevant passages are sent with each question.
+
+export const CHUNK_CHARS = 1500;
+const EMBED_BATCH_SIZE = 64;
+export const TOP_K = 6;
+
+// Sources with less text than this are small enough to send whole
+export const RETRIEVAL_MIN_CHARS = 12000;
+
+// BM25 parameters, the usual defaults
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with'
+]);
+
+const PAGE_MARKER = /\[Page (\d+)\]/g;
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/\p{L}[\p{L}\p{N}]*|\p{N}+/gu) || []).filter(t => t.length > 1 && !STOP_WORDS.has(t));
+
+export const needsRetrieval = (sources: SourceDocument[]): boolean =>
+  sources.reduce((total, source) => total + (source.text?.length || 0), 0) > RETRIEVAL_MIN_CHARS;
+
+export const sourcesFingerprint = (sources: SourceDocument[]): string =>
+  hashString(sources.map(s => `${s.id}\u0000${s.name}\u0000${s.text ?? ''}`).join('\u0001')).toString(36);
+
+const chunkSources = (sources: SourceDocument[]): RetrievalChunk[] =>
+  sources.flatMap(source => {
+    if (!source.text) return [];
+    let page: number | undefined;
+    return splitIntoSections(source.text, source.name, CHUNK_CHARS).map((section, index) => {
+      // A chunk starts on the page of the last marker before it, or its own first marker
+      const markers = Array.from(section.text.matchAll(PAGE_MARKER), m => Number(m[1]));
+      const startPage = section.text.trimStart().startsWith('[Page') ? markers[0] : page ?? markers[0];
+      if (markers.length) page = markers[markers.length - 1];
+      return {
+        id: `${source.id}-${index + 1}`,
+        sourceId: source.id,
+        sourceName: source.name,
+        ...(startPage ? { page: startPage } : {}),
+        text: section.text
+      };
+    });
+  });
+
+const embedAll = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  const embed = getProvider().embed!;
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+    vectors.push(...await embed(texts.slice(i, i + EMBED_BATCH_SIZE), signal));
+  }
+  return vectors;
+};
+
+export const buildRetrievalIndex = async (sources: SourceDocument[], signal?: AbortSignal): Promise<RetrievalIndex> => {
+  const chunks = chunkSources(sources);
+  const fingerprint = sourcesFingerprint(sources);
+  const provider = getProvider();
+
+  if (provider.embed && chunks.length) {
+    try {
+      const vectors = await embedAll(chunks.map(c => c.text), signal);
+      if (vectors.length === chunks.length) {
+        return {
+          fingerprint,
+          method: 'embeddings',
+          embeddingModel: provider.embeddingModel,
+          chunks: chunks.map((chunk, i) => ({ ...chunk, embedding: vectors[i] }))
+        };
+      }
+      console.warn("Embedding count did not match the chunk count, using BM25");
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn("Embedding failed, using BM25", error);
+    }
+  }
+  return { fingerprint, method: 'bm25', chunks };
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const bm25Scores = (chunks: RetrievalChunk[], query: string): number[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  const docs = chunks.map(chunk => tokenize(chunk.text));
+  const avgLength = docs.reduce((total, doc) => total + doc.length, 0) / (docs.length || 1);
+
+  const idf = new Map(terms.map(term => {
+    const df = docs.filter(doc => doc.includes(term)).length;
+    return [term, Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))];
+  }));
+
+  return docs.map(doc => terms.reduce((score, term) => {
+    const tf = doc.filter(token => token === term).length;
+    if (!tf) return score;
+    return score + idf.get(term)! * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / avgLength));
+  }, 0));
+};
+
+export const retrievePassages = async (
+  index: RetrievalIndex,
+  question: string,
+  k: number = TOP_K,
+  signal?: AbortSignal
+): Promise<RetrievedPassage[]> => {
+  const provider = getProvider();
+  let scores: number[] | null = null;
+
+  // Query embeddings only compare with an index built by the same model
+  if (index.method === 'embeddings' && provider.embed && provider.embeddingModel === index.embeddingModel) {
+    try {
+      const [queryVector] = await provider.embed([question], signal);
+      scores = index.chunks.map(chunk => chunk.embedding ? cosine(queryVector, chunk.embedding) : 0);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.warn("Query embedding failed, using BM25", error);
+    }
+  }
+  scores ??= bm25Scores(index.chunks, question);
+
+  const ranked = index.chunks
+    .map((chunk, i) => ({ chunk, score: scores![i] }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+  // Questions like "summarize this" share no terms with the sources; the opening chunks are
+  // better context than none
+  const picked = ranked.length ? ranked : index.chunks.map(chunk => ({ chunk, score: 0 }));
+
+  return picked
+    .slice(0, k)
+    .map(({ chunk, score }) => ({
+      chunkId: chunk.id,
+      sourceId: chunk.sourceId,
+      sourceName: chunk.sourceName,
+      ...(chunk.page ? { page: chunk.page } : {}),
+      text: chunk.text,
+      score
+    }));
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Flashcard, ReviewGrade } from '../types';
+import { dueCards, formatInterval, gradeCard, newSchedule, previewIntervals } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 1);
+
+const card = (id: string = 'fc-1'): Flashcard => ({ id, front: 'Q', back: 'A' });
+
+const gradeAll = (grades: ReviewGrade[], start: Flashcard = card()): Flashcard =>
+  grades.reduce((current, grade) => gradeCard(current, grade, NOW), start);
+
+describe('gradeCard', () => {
+  it('follows the SM-2 intervals for successive good reviews', () => {
+    const intervals = [1, 2, 3, 4].map(count => gradeAll(Array(count).fill('good')).schedule!.interval);
+    expect(intervals).toEqual([1, 6, 15, 38]);
+  });
+
+  it('schedules the next review interval days ahead', () => {
+    const graded = gradeCard(card(), 'good', NOW);
+    expect(graded.schedule).toMatchObject({ ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: NOW + DAY_MS });
+    expect(graded.schedule!.reviews).toEqual([{ grade: 'good', reviewedAt: NOW, interval: 1, ease: 2.5 }]);
+  });
+
+  it('starts easy cards further out and raises their ease', () => {
+    const graded = gradeCard(card(), 'easy', NOW);
+    expect(graded.schedule).toMatchObject({ interval: 4, ease: 2.65 });
+  });
+
+  it('grows hard intervals slowly and lowers the ease', () => {
+    const reviewed = gradeAll(['good', 'good']);
+    const graded = gradeCard(reviewed, 'hard', NOW);
+    expect(graded.schedule).toMatchObject({ interval: 7, ease: 2.35, repetitions: 3 });
+  });
+
+  it('sends failed cards back for relearning and counts the lapse', () => {
+    const graded = gradeCard(gradeAll(['good', 'good']), 'again', NOW);
+    expect(graded.schedule).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 2.3 });
+    expect(graded.schedule!.due).toBe(NOW + 10 * 60 * 1000);
+  });
+
+  it('does not count a lapse for a card that was never learned', () => {
+    expect(gradeCard(card(), 'again', NOW).schedule!.lapses).toBe(0);
+  });
+
+  it('never lowers the ease below the minimum', () => {
+    expect(gradeAll(Array(10).fill('again')).schedule!.ease).toBe(1.3);
+  });
+});
+
+describe('dueCards', () => {
+  it('returns new and overdue cards, earliest due first', () => {
+    const later = { ...card('later'), schedule: { ...newSchedule(NOW), due: NOW - 1000 } };
+    const earlier = { ...card('earlier'), schedule: { ...newSchedule(NOW), due: NOW - 5000 } };
+    const future = { ...card('future'), schedule: { ...newSchedule(NOW), due: NOW + DAY_MS } };
+    expect(dueCards([later, future, card('new'), earlier], NOW).map(c => c.id)).toEqual(['new', 'earlier', 'later']);
+  });
+});
+
+describe('previewIntervals', () => {
+  it('shows the interval each grade would give', () => {
+    expect(previewIntervals(card())).toEqual({ again: 0, hard: 1, good: 1, easy: 4 });
+  });
+});
+
+describe('formatInterval', () => {
+  it('formats minutes, days, months and years', () => {
+    expect([0, 5, 90, 730].map(formatInterval)).toEqual(['10m', '5d', '3mo', '2.0y']);
+  });
+});
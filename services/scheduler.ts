@@ -0,0 +1,84 @@
+import { CardSchedule, Flashcard, ReviewGrade } from '../types';
+
+// SM-2 spaced repetition with Anki-style grades. Failed cards come back after a short
+// relearning delay instead of a full day so they can be retried in the same session.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const newSchedule = (now: number = Date.now()): CardSchedule => ({
+  ease: INITIAL_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+  reviews: []
+});
+
+const nextInterval = (schedule: CardSchedule, grade: ReviewGrade, ease: number): number => {
+  const { interval, repetitions } = schedule;
+  switch (grade) {
+    case 'again':
+      return 0;
+    case 'hard':
+      return repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+    case 'good':
+      if (repetitions === 0) return 1;
+      if (repetitions === 1) return 6;
+      return Math.max(interval + 1, Math.round(interval * ease));
+    case 'easy':
+      if (repetitions === 0) return 4;
+      return Math.max(interval + 1, Math.round(interval * ease * 1.3));
+  }
+};
+
+const EASE_CHANGE: Record<ReviewGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15
+};
+
+export const gradeCard = (card: Flashcard, grade: ReviewGrade, now: number = Date.now()): Flashcard => {
+  const schedule = card.schedule || newSchedule(now);
+  const ease = Math.max(MIN_EASE, schedule.ease + EASE_CHANGE[grade]);
+  const interval = nextInterval(schedule, grade, ease);
+
+  return {
+    ...card,
+    schedule: {
+      ease,
+      interval,
+      repetitions: grade === 'again' ? 0 : schedule.repetitions + 1,
+      lapses: grade === 'again' && schedule.repetitions > 0 ? schedule.lapses + 1 : schedule.lapses,
+      due: now + (interval === 0 ? RELEARN_DELAY_MS : interval * DAY_MS),
+      reviews: [...schedule.reviews, { grade, reviewedAt: now, interval, ease }]
+    }
+  };
+};
+
+export const isDue = (card: Flashcard, now: number = Date.now()): boolean =>
+  !card.schedule || card.schedule.due <= now;
+
+export const dueCards = (cards: Flashcard[], now: number = Date.now()): Flashcard[] =>
+  cards
+    .filter(card => isDue(card, now))
+    .sort((a, b) => (a.schedule?.due ?? 0) - (b.schedule?.due ?? 0));
+
+// Human-readable interval for grade buttons, e.g. "10m", "1d", "3mo"
+export const formatInterval = (days: number): string => {
+  if (days === 0) return `${RELEARN_DELAY_MS / 60000}m`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+export const previewIntervals = (card: Flashcard): Record<ReviewGrade, number> => {
+  const grades: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+  return Object.fromEntries(
+    grades.map(grade => [grade, gradeCard(card, grade).schedule!.interval])
+  ) as Record<ReviewGrade, number>;
+};
@@ -0,0 +1,42 @@
+import { FileData, SourceRef } from '../types';
+import { decodeBase64Text } from './chunking';
+import { pdfSourceText } from './pdf';
+
+// The documents behind a study session, numbered S1, S2, ... in upload order with the
+// pasted notes last. Prompts and the source viewer both use this numbering.
+
+export interface SourceDocument extends SourceRef {
+  file?: FileData; // Unset for pasted notes
+  text: string | null; // Null when the model gets the file itself, e.g. images and scanned PDFs
+}
+
+export const isTextFile = (file: FileData) => file.mimeType.startsWith('text/');
+
+// Text sent in place of the file, or null when the model needs the file itself.
+// PDFs with an extracted text layer are sent as text restricted to the selected pages.
+export const textOf = (file: FileData): string | null => {
+  if (file.pages) return pdfSourceText(file);
+  if (isTextFile(file)) return decodeBase64Text(file.data);
+  return null;
+};
+
+export const listSources = (input: string, files: FileData[]): SourceDocument[] => {
+  const sources: SourceDocument[] = files.map((file, index) => ({
+    id: `S${index + 1}`,
+    name: file.name,
+    file,
+    text: textOf(file)
+  }));
+  if (input) {
+    sources.push({ id: `S${sources.length + 1}`, name: 'Pasted notes', text: input });
+  }
+  return sources;
+};
+
+// Generated content keeps the ids it was created with. Files may have been reordered since,
+// so match them up by name.
+export const resolveSources = (refs: SourceRef[], current: SourceDocument[]): SourceDocument[] =>
+  refs.map(ref => {
+    const match = current.find(source => source.name === ref.name);
+    return match ? { ...match, id: ref.id } : { ...ref, text: null };
+  });
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { DiagramType, StudySession } from '../types';
+import { CURRENT_SCHEMA_VERSION } from './library';
+import { EMPTY_DIAGRAM_HISTORY, recordVersion } from './diagramHistory';
+import { STUDY_PACK_FORMAT, STUDY_PACK_VERSION, StudyPackError, buildStudyPack, parseStudyPack } from './studyPack';
+
+const DIAGRAM = 'graph TD\n    A --> B';
+
+const session = (): StudySession => ({
+  id: 'session-1',
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  title: 'Cells',
+  createdAt: 1,
+  updatedAt: 2,
+  inputText: 'Cells are the unit of life.',
+  selectedFiles: [{ name: 'notes.txt', mimeType: 'text/plain', data: btoa('Mitochondria make ATP.') }],
+  selectedType: 'auto',
+  content: {
+    summary: '# Cells\nCells are small [S2].',
+    diagramCode: DIAGRAM,
+    diagramType: DiagramType.FLOWCHART,
+    flashcards: [{ id: 'fc-1', front: 'Unit of life?', back: 'The cell' }],
+    sources: [{ id: 'S1', name: 'notes.txt' }, { id: 'S2', name: 'Pasted notes' }],
+    quiz: [
+      { id: 'qz-1', type: 'multiple-choice', prompt: 'Powerhouse?', options: ['Nucleus', 'Mitochondria'], answerIndex: 1, explanation: 'ATP' },
+      { id: 'qz-2', type: 'true-false', prompt: 'Cells are alive.', answer: true, explanation: 'Yes' }
+    ]
+  },
+  diagramCode: DIAGRAM,
+  diagramHistory: recordVersion(EMPTY_DIAGRAM_HISTORY, DIAGRAM, 'generated', 1),
+  chatMessages: [{ id: 'm1', role: 'user', content: 'Hi', timestamp: 1 }],
+  retrievalIndex: null
+});
+
+const packText = (changes: (pack: any) => void = () => undefined, original: StudySession = session()): string => {
+  const pack: any = buildStudyPack(original, { includeSourceFiles: true });
+  changes(pack);
+  return JSON.stringify(pack);
+};
+
+const parseError = (text: string): string => {
+  try {
+    parseStudyPack(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(StudyPackError);
+    return (error as Error).message;
+  }
+  throw new Error('The pack was accepted');
+};
+
+describe('buildStudyPack', () => {
+  it('lists the sources and leaves out library fields', () => {
+    const pack = buildStudyPack(session(), { includeSourceFiles: false });
+    expect(pack).toMatchObject({ format: STUDY_PACK_FORMAT, version: STUDY_PACK_VERSION });
+    expect(pack.sources).toEqual([
+      { id: 'S1', name: 'notes.txt', mimeType: 'text/plain', included: false },
+      { id: 'S2', name: 'Pasted notes', mimeType: 'text/plain', included: true }
+    ]);
+    expect(pack.session.selectedFiles).toEqual([]);
+    expect(pack.session).not.toHaveProperty('id');
+  });
+});
+
+describe('parseStudyPack', () => {
+  it('imports a pack as a new session', () => {
+    const original = session();
+    const imported = parseStudyPack(packText(undefined, original));
+    expect(imported.id).not.toBe(original.id);
+    expect(imported.content).toEqual(original.content);
+    expect(imported.selectedFiles).toEqual(original.selectedFiles);
+    expect(imported.diagramHistory).toEqual(original.diagramHistory);
+  });
+
+  it('removes click handlers from every diagram', () => {
+    const imported = parseStudyPack(packText(pack => {
+      pack.session.diagramCode = `${DIAGRAM}\n    click A call alert()`;
+      pack.session.diagramHistory.versions[0].code = `${DIAGRAM}\n    click B href "https://example.com"`;
+    }));
+    expect(imported.diagramCode).toBe(DIAGRAM);
+    expect(imported.diagramHistory.versions[0].code).toBe(DIAGRAM);
+  });
+
+  it('migrates sessions saved with an older schema', () => {
+    const imported = parseStudyPack(packText(pack => {
+      pack.session.schemaVersion = 3;
+      delete pack.session.diagramHistory;
+    }));
+    expect(imported.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(imported.diagramHistory.versions.map(v => v.code)).toEqual([DIAGRAM]);
+  });
+
+  it('rejects files that are not study packs', () => {
+    expect(parseError('not json')).toMatch(/not valid JSON/);
+    expect(parseError(JSON.stringify({ format: 'something-else' }))).toMatch(/not a StudySketch study pack/);
+  });
+
+  it('rejects packs from a newer version', () => {
+    expect(parseError(packText(pack => { pack.version = STUDY_PACK_VERSION + 1; }))).toMatch(/newer version/);
+    expect(parseError(packText(pack => { pack.session.schemaVersion = CURRENT_SCHEMA_VERSION + 1; }))).toMatch(/newer version/);
+  });
+
+  it.each([
+    ['unknown selected diagram type', (pack: any) => { pack.session.selectedType = 'venn'; }],
+    ['malformed sources', (pack: any) => { pack.session.content.sources = [{ id: 'S1' }]; }],
+    ['malformed flashcards', (pack: any) => { pack.session.content.flashcards[0].schedule = { ease: 'high' }; }],
+    ['malformed quiz', (pack: any) => { pack.session.content.quiz[0].answerIndex = 5; }],
+    ['malformed quiz', (pack: any) => { pack.session.content.quiz[1].answer = 'yes'; }],
+    ['malformed chat messages', (pack: any) => { pack.session.chatMessages[0].role = 'system'; }],
+    ['malformed source files', (pack: any) => { pack.session.selectedFiles[0].data = 42; }]
+  ])('reports %s', (issue, change) => {
+    expect(parseError(packText(change))).toContain(issue);
+  });
+});
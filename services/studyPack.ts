@@ -0,0 +1,290 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import mermaid from 'mermaid';
+import { DiagramType, StudySession } from '../types';
+import { CURRENT_SCHEMA_VERSION, createSessionId, migrateSession } from './library';
+import { extractCitations, linkCitations } from './citations';
+import { listSources } from './sources';
+import { stripDiagramInteractions } from './mermaid';
+
+// Portable study packs for sharing a session: a versioned `.studysketch` JSON bundle that
+// imports back into the library, and a self-contained HTML page for reading offline.
+
+export const STUDY_PACK_FORMAT = 'studysketch-pack';
+export const STUDY_PACK_VERSION = 1;
+export const STUDY_PACK_EXTENSION = '.studysketch';
+
+export interface PackedSource {
+  id: string;
+  name: string;
+  mimeType: string;
+  sourceFormat?: string;
+  included: boolean; // False when the file was left out of the pack
+}
+
+// The session without library-specific fields; ids and timestamps are assigned on import
+export type PackedSession = Omit<StudySession, 'id' | 'createdAt' | 'updatedAt' | 'retrievalIndex'>;
+
+export interface StudyPack {
+  format: typeof STUDY_PACK_FORMAT;
+  version: number;
+  exportedAt: number;
+  sources: PackedSource[];
+  session: PackedSession;
+}
+
+export interface StudyPackOptions {
+  includeSourceFiles: boolean;
+}
+
+export class StudyPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StudyPackError';
+  }
+}
+
+export const buildStudyPack = (session: StudySession, { includeSourceFiles }: StudyPackOptions): StudyPack => {
+  const { id, createdAt, updatedAt, retrievalIndex, ...rest } = session;
+  return {
+    format: STUDY_PACK_FORMAT,
+    version: STUDY_PACK_VERSION,
+    exportedAt: Date.now(),
+    sources: listSources(session.inputText, session.selectedFiles).map(source => ({
+      id: source.id,
+      name: source.name,
+      mimeType: source.file?.mimeType ?? 'text/plain',
+      ...(source.file?.sourceFormat ? { sourceFormat: source.file.sourceFormat } : {}),
+      included: !source.file || includeSourceFiles
+    })),
+    session: {
+      ...rest,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      selectedFiles: includeSourceFiles ? session.selectedFiles : []
+    }
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const DIAGRAM_TYPES = new Set<string>(Object.values(DiagramType));
+
+const REVIEW_GRADES = new Set(['again', 'hard', 'good', 'easy']);
+
+const isSchedule = (schedule: unknown): boolean =>
+  isObject(schedule)
+  && ['ease', 'interval', 'repetitions', 'lapses', 'due'].every(key => isNumber(schedule[key]))
+  && Array.isArray(schedule.reviews)
+  && schedule.reviews.every((entry: unknown) => isObject(entry) && REVIEW_GRADES.has(entry.grade)
+    && isNumber(entry.reviewedAt) && isNumber(entry.interval) && isNumber(entry.ease));
+
+const isFlashcard = (card: unknown): boolean =>
+  isObject(card) && isString(card.id) && isString(card.front) && isString(card.back)
+  && (card.schedule === undefined || isSchedule(card.schedule));
+
+// The answer fields each question type's runner reads
+const isQuizQuestion = (question: unknown): boolean => {
+  if (!isObject(question) || !isString(question.id) || !isString(question.prompt) || !isString(question.explanation)) return false;
+  switch (question.type) {
+    case 'multiple-choice':
+      return Array.isArray(question.options) && question.options.length > 0 && question.options.every(isString)
+        && Number.isInteger(question.answerIndex) && question.answerIndex >= 0 && question.answerIndex < question.options.length;
+    case 'cloze':
+      return isString(question.answer);
+    case 'true-false':
+      return typeof question.answer === 'boolean';
+    default:
+      return false;
+  }
+};
+
+// Problems with a migrated session, described for the user
+const sessionIssues = (session: Record<string, any>): string[] => {
+  const issues: string[] = [];
+  if (!isString(session.title)) issues.push('missing title');
+  if (!isString(session.inputText)) issues.push('notes must be text');
+  if (!isString(session.diagramCode)) issues.push('diagram code must be text');
+  if (session.selectedType !== 'auto' && !DIAGRAM_TYPES.has(session.selectedType)) issues.push('unknown selected diagram type');
+  if (!Array.isArray(session.selectedFiles) || !session.selectedFiles.every((file: unknown) =>
+    isObject(file) && isString(file.name) && isString(file.mimeType) && isString(file.data))) {
+    issues.push('malformed source files');
+  }
+  if (!Array.isArray(session.chatMessages) || !session.chatMessages.every((msg: unknown) =>
+    isObject(msg) && isString(msg.id) && (msg.role === 'user' || msg.role === 'model') && isString(msg.content))) {
+    issues.push('malformed chat messages');
+  }
+  const history = session.diagramHistory;
+  if (!isObject(history) || !Array.isArray(history.versions) || !Array.isArray(history.redo)
+    || !history.versions.every((version: unknown) => isObject(version) && isString(version.id) && isString(version.code))) {
+    issues.push('malformed diagram history');
+  }
+
+  const content = session.content;
+  if (content !== null) {
+    if (!isObject(content)) {
+      issues.push('malformed content');
+    } else {
+      if (!isString(content.summary)) issues.push('summary must be text');
+      if (!isString(content.diagramCode)) issues.push('generated diagram must be text');
+      if (!DIAGRAM_TYPES.has(content.diagramType)) issues.push('unknown diagram type');
+      if (!Array.isArray(content.flashcards) || !content.flashcards.every(isFlashcard)) {
+        issues.push('malformed flashcards');
+      }
+      if (content.sources !== undefined && (!Array.isArray(content.sources) || !content.sources.every((source: unknown) =>
+        isObject(source) && isString(source.id) && isString(source.name)))) {
+        issues.push('malformed sources');
+      }
+      if (content.sections !== undefined && (!Array.isArray(content.sections) || !content.sections.every((section: unknown) =>
+        isObject(section) && isString(section.id) && isString(section.title) && isString(section.diagramCode)))) {
+        issues.push('malformed sections');
+      }
+      if (content.quiz !== undefined && (!Array.isArray(content.quiz) || !content.quiz.every(isQuizQuestion))) {
+        issues.push('malformed quiz');
+      }
+    }
+  }
+  return issues;
+};
+
+// Diagram code is the one place an imported pack could smuggle in code that runs
+const withoutDiagramInteractions = (session: StudySession): StudySession => ({
+  ...session,
+  diagramCode: stripDiagramInteractions(session.diagramCode),
+  diagramHistory: {
+    ...session.diagramHistory,
+    versions: session.diagramHistory.versions.map(version => ({ ...version, code: stripDiagramInteractions(version.code) }))
+  },
+  content: session.content && {
+    ...session.content,
+    diagramCode: stripDiagramInteractions(session.content.diagramCode),
+    ...(session.content.sections ? {
+      sections: session.content.sections.map(section => ({ ...section, diagramCode: stripDiagramInteractions(section.diagramCode) }))
+    } : {})
+  }
+});
+
+// Parses and validates a pack, returning it as a new library session
+export const parseStudyPack = (text: string): StudySession => {
+  let pack: unknown;
+  try {
+    pack = JSON.parse(text);
+  } catch {
+    throw new StudyPackError('This file is not valid JSON.');
+  }
+  if (!isObject(pack) || pack.format !== STUDY_PACK_FORMAT || !isObject(pack.session)) {
+    throw new StudyPackError('This file is not a StudySketch study pack.');
+  }
+  const schemaVersion = pack.session.schemaVersion;
+  if (typeof pack.version !== 'number' || typeof schemaVersion !== 'number') {
+    throw new StudyPackError('The study pack has no version.');
+  }
+  if (pack.version > STUDY_PACK_VERSION || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new StudyPackError('This study pack was made by a newer version of StudySketch.');
+  }
+
+  const now = Date.now();
+  let session: StudySession;
+  try {
+    session = migrateSession({ ...pack.session, id: createSessionId(), createdAt: now, updatedAt: now, retrievalIndex: null });
+  } catch (error) {
+    console.error("Study pack migration error:", error);
+    throw new StudyPackError('The study pack is damaged and could not be read.');
+  }
+  const issues = sessionIssues(session);
+  if (issues.length > 0) {
+    throw new StudyPackError(`The study pack is damaged: ${issues.join(', ')}.`);
+  }
+  return withoutDiagramInteractions({ ...session, retrievalIndex: null });
+};
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Markdown rendered without raw HTML; citations become plain chips with the quote on hover
+const markdownToHtml = (markdown: string): string => {
+  const citations = extractCitations(markdown);
+  return renderToStaticMarkup(createElement(ReactMarkdown, {
+    components: {
+      a: ({ href, children }) => {
+        const index = href?.match(/^#cite-(\d+)$/)?.[1];
+        const citation = index ? citations[Number(index) - 1] : undefined;
+        return citation
+          ? createElement('span', { className: 'cite', title: citation.quote }, children)
+          : createElement('a', { href, rel: 'noreferrer' }, children);
+      }
+    }
+  }, linkCitations(markdown)));
+};
+
+const renderDiagramSvg = async (code: string): Promise<string> => {
+  try {
+    const { svg } = await mermaid.render(`pack-${Date.now()}`, stripDiagramInteractions(code));
+    return svg;
+  } catch (error) {
+    console.error("Study pack diagram error:", error);
+    return `<pre>${escapeHtml(code)}</pre>`;
+  }
+};
+
+// Flashcards flip with a hidden checkbox, so the page needs no script and its CSP allows none
+const PAGE_CSS = `
+  body { font-family: Inter, system-ui, sans-serif; color: #1e293b; background: #f8fafc; margin: 0; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 24px 64px; }
+  h1 { color: #312e81; }
+  section { background: white; border: 1px solid #e2e8f0; border-radius: 16px; padding: 24px; margin-top: 24px; }
+  section > h2 { margin-top: 0; font-size: 14px; text-transform: uppercase; letter-spacing: .05em; color: #64748b; }
+  .diagram svg { max-width: 100%; height: auto; }
+  .cite { font-size: 11px; padding: 1px 6px; border-radius: 999px; background: #e0e7ff; color: #4338ca; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 16px; }
+  .card { display: block; height: 200px; perspective: 1000px; cursor: pointer; }
+  .card input { display: none; }
+  .inner { position: relative; display: block; width: 100%; height: 100%; transition: transform .5s; transform-style: preserve-3d; }
+  .card input:checked + .inner { transform: rotateY(180deg); }
+  .face { position: absolute; inset: 0; display: flex; flex-direction: column; justify-content: center; padding: 16px;
+    border-radius: 16px; border: 1px solid #e2e8f0; backface-visibility: hidden; overflow: auto; text-align: center; }
+  .front { background: white; }
+  .back { background: #4f46e5; color: white; transform: rotateY(180deg); }
+  .label { font-size: 10px; font-weight: 700; text-transform: uppercase; letter-spacing: .05em; opacity: .6; }
+  footer { margin-top: 24px; font-size: 12px; color: #94a3b8; }
+`;
+
+export const buildStudyPackHtml = async (session: StudySession): Promise<string> => {
+  const content = session.content;
+  const title = escapeHtml(session.title);
+  const diagram = content && session.diagramCode ? await renderDiagramSvg(session.diagramCode) : '';
+  const cards = (content?.flashcards || []).map(card => `
+      <label class="card">
+        <input type="checkbox">
+        <span class="inner">
+          <span class="face front"><span class="label">Question</span>${markdownToHtml(card.front)}</span>
+          <span class="face back"><span class="label">Answer</span>${markdownToHtml(card.back)}</span>
+        </span>
+      </label>`).join('');
+  const sources = (content?.sources || []).map(source => `${escapeHtml(source.id)} · ${escapeHtml(source.name)}`).join(' &nbsp; ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data:; font-src data:">
+  <title>${title}</title>
+  <style>${PAGE_CSS}</style>
+</head>
+<body>
+  <main>
+    <h1>${title}</h1>
+    ${diagram ? `<section class="diagram"><h2>Diagram</h2>${diagram}</section>` : ''}
+    ${content?.summary ? `<section><h2>Summary</h2>${markdownToHtml(content.summary)}</section>` : ''}
+    ${cards ? `<section><h2>Flashcards</h2><p class="label">Click a card to flip it</p><div class="cards">${cards}</div></section>` : ''}
+    <footer>${sources ? `Sources: ${sources}<br>` : ''}Exported from StudySketch AI on ${escapeHtml(new Date().toLocaleDateString())}</footer>
+  </main>
+</body>
+</html>`;
+};
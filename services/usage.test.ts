@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProviderSettings } from '../types';
+import {
+  checkBudget,
+  clearUsage,
+  dailyUsage,
+  dayKey,
+  formatCost,
+  hasUsageBudget,
+  recentDailyUsage,
+  recordUsage,
+  saveUsageBudget,
+  sessionUsage,
+  subscribeUsage,
+  usageCost
+} from './usage';
+
+// The ledger is read when the module loads, so storage has to exist before the import
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  });
+  return items;
+});
+
+const FLASH: ProviderSettings = { provider: 'gemini', model: 'gemini-2.5-flash' };
+const LOCAL: ProviderSettings = { provider: 'openai', model: 'llama3.1' };
+
+beforeEach(() => {
+  clearUsage();
+  storage.clear();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('usageCost', () => {
+  it('prices Gemini models by the most specific matching prefix', () => {
+    expect(usageCost({ promptTokens: 1_000_000, outputTokens: 1_000_000 }, FLASH)).toBeCloseTo(2.8);
+    expect(usageCost({ promptTokens: 1_000_000, outputTokens: 0 }, { ...FLASH, model: 'gemini-2.5-flash-lite' })).toBeCloseTo(0.1);
+  });
+
+  it('leaves local and unknown models unpriced', () => {
+    expect(usageCost({ promptTokens: 1000, outputTokens: 1000 }, LOCAL)).toBe(0);
+    expect(usageCost({ promptTokens: 1000, outputTokens: 1000 }, { ...FLASH, model: 'gemini-9-ultra' })).toBe(0);
+  });
+
+  it('formats small costs with more precision', () => {
+    expect(formatCost(0.00123)).toBe('$0.0012');
+    expect(formatCost(12.345)).toBe('$12.35');
+  });
+});
+
+describe('recordUsage', () => {
+  it('adds requests to the day and the session totals', () => {
+    recordUsage({ promptTokens: 1000, outputTokens: 200 }, FLASH, 'session-a');
+    recordUsage({ promptTokens: 500, outputTokens: 100 }, FLASH, 'session-a');
+    recordUsage({ promptTokens: 10, outputTokens: 10 }, LOCAL, 'session-b');
+
+    expect(dailyUsage()).toMatchObject({ promptTokens: 1510, outputTokens: 310, requests: 3 });
+    expect(sessionUsage('session-a')).toMatchObject({ promptTokens: 1500, outputTokens: 300, requests: 2 });
+    expect(sessionUsage('session-a').cost).toBeCloseTo((1500 * 0.3 + 300 * 2.5) / 1_000_000);
+    expect(sessionUsage(null).requests).toBe(0);
+  });
+
+  it('persists the ledger and notifies listeners', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeUsage(listener);
+    recordUsage({ promptTokens: 1, outputTokens: 1 }, FLASH, null);
+    unsubscribe();
+    recordUsage({ promptTokens: 1, outputTokens: 1 }, FLASH, null);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(storage.get('studysketch.usage')!).days[dayKey()].requests).toBe(2);
+  });
+
+  it('keeps the most recent 90 days, newest first', () => {
+    vi.useFakeTimers();
+    const start = new Date(2025, 0, 1, 12).getTime();
+    for (let day = 0; day < 95; day++) {
+      vi.setSystemTime(start + day * 24 * 60 * 60 * 1000);
+      recordUsage({ promptTokens: 1, outputTokens: 0 }, FLASH, null);
+    }
+    const days = recentDailyUsage(100).map(([day]) => day);
+    expect(days).toHaveLength(90);
+    expect(days[0]).toBe(dayKey());
+    expect(days.at(-1)).toBe(dayKey(start + 5 * 24 * 60 * 60 * 1000));
+  });
+});
+
+describe('checkBudget', () => {
+  it('only applies once a limit is set', () => {
+    recordUsage({ promptTokens: 1_000_000, outputTokens: 0 }, FLASH, 'session-a');
+    expect(hasUsageBudget()).toBe(false);
+    expect(checkBudget(1_000_000, 'session-a')).toBeNull();
+  });
+
+  it('counts the estimate of the next request against the daily limit', () => {
+    saveUsageBudget({ action: 'warn', dailyTokens: 1000 });
+    recordUsage({ promptTokens: 600, outputTokens: 200 }, FLASH, 'session-a');
+
+    expect(hasUsageBudget()).toBe(true);
+    expect(checkBudget(200, 'session-a')).toBeNull();
+    expect(checkBudget(201, 'session-a')).toEqual({ scope: 'daily', used: 800, limit: 1000, action: 'warn' });
+  });
+
+  it('checks the session limit against that session only', () => {
+    saveUsageBudget({ action: 'block', sessionTokens: 500 });
+    recordUsage({ promptTokens: 400, outputTokens: 0 }, FLASH, 'session-a');
+
+    expect(checkBudget(200, 'session-a')).toEqual({ scope: 'session', used: 400, limit: 500, action: 'block' });
+    expect(checkBudget(200, 'session-b')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+import { ProviderSettings, TokenUsage, UsageBudget, UsageTotals } from '../types';
+
+// Token usage totals per study session and per day, kept in localStorage, and the optional
+// budget checked before expensive requests.
+
+const USAGE_STORAGE_KEY = 'studysketch.usage';
+const BUDGET_STORAGE_KEY = 'studysketch.usageBudget';
+const KEPT_DAYS = 90;
+
+// USD per million tokens at list prices, matched by model name prefix (more specific first)
+const MODEL_PRICES: [string, { input: number; output: number }][] = [
+  ['gemini-2.5-flash-lite', { input: 0.10, output: 0.40 }],
+  ['gemini-2.5-flash', { input: 0.30, output: 2.50 }],
+  ['gemini-2.5-pro', { input: 1.25, output: 10 }],
+  ['gemini-2.0-flash-lite', { input: 0.075, output: 0.30 }],
+  ['gemini-2.0-flash', { input: 0.10, output: 0.40 }],
+];
+
+export const EMPTY_USAGE_TOTALS: UsageTotals = { promptTokens: 0, outputTokens: 0, requests: 0, cost: 0 };
+
+export const DEFAULT_USAGE_BUDGET: UsageBudget = { action: 'warn' };
+
+interface UsageLedger {
+  days: Record<string, UsageTotals>; // Keyed by local date, YYYY-MM-DD
+  sessions: Record<string, UsageTotals>;
+}
+
+export const totalTokens = (usage: TokenUsage): number => usage.promptTokens + usage.outputTokens;
+
+// Rough count for providers without a tokenizer endpoint: about four characters per token
+export const estimateCharTokens = (chars: number): number => Math.ceil(chars / 4);
+
+export const estimateTextTokens = (text: string): number => estimateCharTokens(text.length);
+
+// Local and mock models cost nothing; unknown Gemini models are left unpriced
+export const usageCost = (usage: TokenUsage, settings: ProviderSettings): number => {
+  const price = settings.provider === 'gemini'
+    ? MODEL_PRICES.find(([prefix]) => settings.model.startsWith(prefix))?.[1]
+    : undefined;
+  return price ? (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000 : 0;
+};
+
+export const formatCost = (usd: number): string => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+
+export const dayKey = (time: number = Date.now()): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const loadLedger = (): UsageLedger => {
+  try {
+    const stored = localStorage.getItem(USAGE_STORAGE_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.warn("Could not read usage totals", e);
+  }
+  return { days: {}, sessions: {} };
+};
+
+let ledger: UsageLedger = loadLedger();
+const listeners = new Set<() => void>();
+
+const saveLedger = (next: UsageLedger) => {
+  ledger = next;
+  try {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(ledger));
+  } catch (e) {
+    console.warn("Could not save usage totals", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// The session requests are counted against, kept in step with the open session by the app
+let usageSessionId: string | null = null;
+
+export const setUsageSession = (id: string | null) => {
+  usageSessionId = id;
+};
+
+export const getUsageSession = (): string | null => usageSessionId;
+
+const addUsage = (totals: UsageTotals = EMPTY_USAGE_TOTALS, usage: TokenUsage, cost: number): UsageTotals => ({
+  promptTokens: totals.promptTokens + usage.promptTokens,
+  outputTokens: totals.outputTokens + usage.outputTokens,
+  requests: totals.requests + 1,
+  cost: totals.cost + cost
+});
+
+export const recordUsage = (usage: TokenUsage, settings: ProviderSettings, sessionId: string | null) => {
+  const cost = usageCost(usage, settings);
+  const today = dayKey();
+  const days = { ...ledger.days, [today]: addUsage(ledger.days[today], usage, cost) };
+  const kept = Object.keys(days).sort().slice(-KEPT_DAYS);
+  saveLedger({
+    days: Object.fromEntries(kept.map(day => [day, days[day]])),
+    sessions: sessionId ? { ...ledger.sessions, [sessionId]: addUsage(ledger.sessions[sessionId], usage, cost) } : ledger.sessions
+  });
+};
+
+export const dailyUsage = (day: string = dayKey()): UsageTotals => ledger.days[day] ?? EMPTY_USAGE_TOTALS;
+
+export const sessionUsage = (id: string | null): UsageTotals => (id && ledger.sessions[id]) || EMPTY_USAGE_TOTALS;
+
+// Most recent first
+export const recentDailyUsage = (count: number): [string, UsageTotals][] =>
+  Object.entries(ledger.days).sort(([a], [b]) => b.localeCompare(a)).slice(0, count);
+
+export const clearUsage = () => saveLedger({ days: {}, sessions: {} });
+
+export const loadUsageBudget = (): UsageBudget => {
+  try {
+    const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_USAGE_BUDGET, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Could not read usage budget", e);
+  }
+  return DEFAULT_USAGE_BUDGET;
+};
+
+export const saveUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const hasUsageBudget = (budget: UsageBudget = loadUsageBudget()): boolean =>
+  Boolean(budget.dailyTokens || budget.sessionTokens);
+
+export interface BudgetOverrun {
+  scope: 'daily' | 'session';
+  used: number;
+  limit: number;
+  action: UsageBudget['action'];
+}
+
+// Whether a request estimated at `estimate` tokens would take the day or session over budget
+export const checkBudget = (estimate: number, sessionId: string | null): BudgetOverrun | null => {
+  const budget = loadUsageBudget();
+  const daily = totalTokens(dailyUsage());
+  if (budget.dailyTokens && daily + estimate > budget.dailyTokens) {
+    return { scope: 'daily', used: daily, limit: budget.dailyTokens, action: budget.action };
+  }
+  const session = totalTokens(sessionUsage(sessionId));
+  if (budget.sessionTokens && session + estimate > budget.sessionTokens) {
+    return { scope: 'session', used: session, limit: budget.sessionTokens, action: budget.action };
+  }
+  return null;
+};
@@ -4,12 +4,28 @@ export enum DiagramType {
   SEQUENCE = 'sequence',
   TIMELINE = 'timeline',
   ORGCHART = 'orgchart',
-  GANTT = 'gantt'
+  GANTT = 'gantt',
+  CLASS = 'class',
+  ER = 'er',
+  STATE = 'state',
+  PIE = 'pie',
+  QUADRANT = 'quadrant',
+  JOURNEY = 'journey'
 }
 
+// What the user picks: a specific type, or 'auto' to let the model choose
+export type DiagramTypeChoice = DiagramType | 'auto';
+
 export interface ProcessingState {
   status: 'idle' | 'uploading' | 'processing' | 'completed' | 'error';
   message?: string;
+  progress?: GenerationProgress; // Set while a large input is processed section by section
+}
+
+export interface GenerationProgress {
+  current: number; // 1-based step
+  total: number;
+  message: string;
 }
 
 export interface Message {
@@ -17,23 +33,216 @@ export interface Message {
   role: 'user' | 'model';
   content: string;
   timestamp: number;
+  status?: 'streaming' | 'stopped'; // Unset once an answer is complete
+  passages?: RetrievedPassage[]; // Source chunks the answer was given, when retrieval was used
+  cached?: boolean; // Answer came from the response cache
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  grade: ReviewGrade;
+  reviewedAt: number;
+  interval: number; // Days until the next review, 0 means later today
+  ease: number;
+}
+
+export interface CardSchedule {
+  ease: number;
+  interval: number; // Days
+  repetitions: number; // Consecutive successful reviews
+  lapses: number;
+  due: number; // Timestamp
+  reviews: ReviewLogEntry[];
 }
 
 export interface Flashcard {
   id: string;
   front: string;
   back: string;
+  sourceId?: string; // SourceRef id of the document the card was drawn from
+  sectionId?: string; // ContentSection id when the input was processed in sections
+  schedule?: CardSchedule; // Unset until the card is first reviewed
+}
+
+// A document that contributed to generated content. Ids ("S1", "S2", ...) follow input order.
+export interface SourceRef {
+  id: string;
+  name: string;
+}
+
+// One part of a large input, summarized on its own before the parts are combined
+export interface ContentSection {
+  id: string;
+  title: string;
+  sourceId?: string;
+  summary: string;
+  diagramCode: string; // Sub-diagram for drilling into this section
 }
 
 export interface GeneratedContent {
   diagramCode: string;
   summary: string;
   diagramType: DiagramType;
+  diagramTypeReason?: string; // The model's explanation when it picked the type itself
   flashcards: Flashcard[];
+  sources?: SourceRef[]; // Unset for content generated before multi-document input
+  sections?: ContentSection[]; // Only set when the input was too large for a single request
+  quiz?: QuizQuestion[]; // Set once a quiz has been generated for this content
+}
+
+interface QuizQuestionBase {
+  id: string;
+  prompt: string; // Cloze questions mark the gap with "____"
+  explanation: string;
+  summaryHeading?: string; // Summary heading the question is about, for review links
+  diagramNode?: string; // Label of the diagram node the question is about
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
+  options: string[];
+  answerIndex: number;
+}
+
+export interface ClozeQuestion extends QuizQuestionBase {
+  type: 'cloze';
+  answer: string;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  answer: boolean;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | ClozeQuestion | TrueFalseQuestion;
+
+// What the user gave for a question: an option index, the typed gap text or true/false
+export type QuizResponse = number | string | boolean;
+
+export type ContentField = 'response' | 'summary' | 'diagramCode' | 'flashcards' | 'quiz';
+
+export interface ValidationIssue {
+  field: ContentField;
+  message: string;
+}
+
+export interface GenerationResult {
+  content: GeneratedContent;
+  issues: ValidationIssue[]; // Non-empty when only part of the output could be used
+  cachedAt?: number; // Set when the content came from the response cache
+}
+
+export interface DiagramFixResult {
+  originalCode: string;
+  fixedCode: string;
+  attempts: number;
 }
 
 export interface FileData {
   name: string;
   mimeType: string;
   data: string; // Base64 string
-}
\ No newline at end of file
+  sourceFormat?: string; // Original format when the file was converted to markdown, e.g. 'docx'
+  pages?: PdfPageText[]; // PDFs only, set when the extracted text is good enough to send instead of the file
+  pageSelection?: string; // Page ranges to process, e.g. "3-5, 9". Unset means every page
+}
+
+export interface PdfPageText {
+  page: number; // 1-based
+  text: string; // Markdown, with detected headings as "#" lines
+  headings: string[];
+}
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string;  // OpenAI-compatible servers only, Gemini reads the build-time key
+  embeddingModel?: string; // OpenAI-compatible servers only, chat retrieval falls back to BM25 without it
+}
+
+// Tokens the provider reported for one request
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost: number; // USD at list prices, 0 for local and unpriced models
+}
+
+export interface TokenEstimate {
+  tokens: number;
+  exact: boolean; // False when estimated from length because the provider cannot count tokens
+}
+
+// Limits on prompt + output tokens; unset limits are not checked
+export interface UsageBudget {
+  dailyTokens?: number;
+  sessionTokens?: number;
+  action: 'warn' | 'block';
+}
+
+// A slice of a source document indexed for chat retrieval
+export interface RetrievalChunk {
+  id: string;
+  sourceId: string;
+  sourceName: string;
+  page?: number; // PDF page the chunk starts on
+  text: string;
+  embedding?: number[];
+}
+
+export interface RetrievalIndex {
+  fingerprint: string; // Hash of the source texts, the index is rebuilt when they change
+  method: 'embeddings' | 'bm25';
+  embeddingModel?: string;
+  chunks: RetrievalChunk[];
+}
+
+export interface RetrievedPassage {
+  chunkId: string;
+  sourceId: string;
+  sourceName: string;
+  page?: number;
+  text: string;
+  score: number;
+}
+
+// How a diagram version came about
+export type DiagramVersionKind = 'generated' | 'code' | 'nodes' | 'fix' | 'expand' | 'restore';
+
+export interface DiagramVersion {
+  id: string;
+  code: string;
+  kind: DiagramVersionKind;
+  createdAt: number;
+  updatedAt: number; // Later than createdAt when consecutive code edits were folded in
+  parentId?: string; // Version this one was made from; undo returns to it
+  name?: string; // Named snapshot
+}
+
+export interface DiagramHistory {
+  versions: DiagramVersion[]; // Oldest first
+  currentId: string | null;
+  redo: string[]; // Versions undone from, most recent first
+}
+
+export interface StudySession {
+  id: string;
+  schemaVersion: number;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  inputText: string;
+  selectedFiles: FileData[];
+  selectedType: DiagramTypeChoice;
+  content: GeneratedContent | null;
+  diagramCode: string; // Edited diagram code, may differ from content.diagramCode
+  diagramHistory: DiagramHistory;
+  chatMessages: Message[];
+  retrievalIndex: RetrievalIndex | null;
+}